@@ -1,5 +1,6 @@
-import React, { useState, useEffect, useCallback, lazy, Suspense } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef, lazy, Suspense } from 'react';
 import { WebApp } from '@twa-dev/types';
+import { BookA, Calculator, CandlestickChart, Highlighter, Layers, LucideIcon, Network, NotebookPen, Target } from 'lucide-react';
 
 // Components
 import Sidebar from './components/Sidebar';
@@ -8,15 +9,32 @@ import FloatingActionButton from './components/FloatingActionButton';
 import WelcomeScreen from './components/WelcomeScreen';
 import LoadingScreen from './components/LoadingScreen';
 import ErrorScreen from './components/ErrorScreen';
+import SessionExpiredScreen from './components/SessionExpiredScreen';
 
 // Hooks
 import { useLessonManagement } from './hooks/useLessonManagement';
 import { useSubscriptionManagerSimple as useSubscriptionManager } from './hooks/useSubscriptionManagerSimple';
 import { useThemeManager } from './hooks/useThemeManager';
 import { useScrollManager } from './hooks/useScrollManager';
+import { useAppRouter } from './hooks/useAppRouter';
+import { useAuthSession } from './hooks/useAuthSession';
+import { usePermissions } from './hooks/usePermissions';
+import { useAccessPolicy } from './hooks/useAccessPolicy';
+import { useLessonProgress } from './hooks/useLessonProgress';
+import { useNewLessons } from './hooks/useNewLessons';
+import { useLinkGraph } from './hooks/useLinkGraph';
+import { useFlashcards } from './hooks/useFlashcards';
+import { useGlossary } from './hooks/useGlossary';
 
 // Types
-import { Lesson } from './types';
+import { ScrollAnchor } from './types';
+import { AppRoute } from './utils/routing';
+import { decodeStartParam, readLaunchStartParam } from './utils/startParam';
+import { getLessonAccessLevel } from './utils/accessPolicy';
+import { ReplayScenario } from './utils/replay';
+
+// Services
+import { progressService } from './services/progressService';
 
 // Styles
 import './App.css';
@@ -24,6 +42,14 @@ import './App.css';
 // Lazy load admin components
 const AdminPage = lazy(() => import('./pages/AdminPage'));
 const UserProfile = lazy(() => import('./components/UserProfile'));
+const GraphView = lazy(() => import('./components/GraphView'));
+const ReviewScreen = lazy(() => import('./components/ReviewScreen'));
+const PositionCalculatorModal = lazy(() => import('./components/PositionCalculatorModal'));
+const ReplayScreen = lazy(() => import('./components/ReplayScreen'));
+const JournalScreen = lazy(() => import('./components/JournalScreen'));
+const PatternDrillScreen = lazy(() => import('./components/PatternDrillScreen'));
+const GlossaryScreen = lazy(() => import('./components/GlossaryScreen'));
+const NotesScreen = lazy(() => import('./components/NotesScreen'));
 
 declare global {
   interface Window {
@@ -45,13 +71,35 @@ declare global {
   }
 }
 
+// Routes of the tool screens opened from the floating menu
+type ToolRoute = 'graph' | 'review' | 'calculator' | 'replay' | 'journal' | 'drills' | 'glossary' | 'notes';
+
+interface AppTool {
+  route: ToolRoute;
+  title: string;
+  icon: LucideIcon;
+  /** Full-screen view shown instead of the app; tools without one render inside it */
+  renderScreen?: () => React.ReactNode;
+}
+
 const App: React.FC = () => {
   // UI State
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [welcomePageReady, setWelcomePageReady] = useState(true);
   const [welcomeAnimationsEnabled, setWelcomeAnimationsEnabled] = useState(true);
-  const [showAdminPage, setShowAdminPage] = useState(false);
-  const [showUserProfile, setShowUserProfile] = useState(false);
+
+  // Routing
+  const { route, navigate } = useAppRouter();
+  const showAdminPage = route.name === 'admin';
+  const showUserProfile = route.name === 'profile';
+  const showGraph = route.name === 'graph';
+  const showReview = route.name === 'review';
+  const showCalculator = route.name === 'calculator';
+  const showGlossary = route.name === 'glossary';
+  const searchQuery = route.name === 'search' ? route.query : '';
+  const loadingLessonPathRef = useRef<string | null>(null);
+  const lastHeadingRef = useRef<string | null>(null);
+  const startParamHandledRef = useRef(false);
 
   // Custom hooks
   const {
@@ -62,7 +110,10 @@ const App: React.FC = () => {
     nextLessonPath,
     prevLessonPath,
     handleLessonSelect: originalHandleLessonSelect,
+    handleLessonPreview,
+    updateLastReadLesson,
     handleSearch,
+    resolveLessonTarget,
     fetchLessonStructure,
     setSelectedLesson,
     setError
@@ -70,46 +121,87 @@ const App: React.FC = () => {
 
   const {
     isSubscribed,
-    handleSubscriptionVerified,
-    handleSubscriptionRequired
+    tiers,
+    loading: subscriptionLoading,
+    handleSubscriptionVerified
   } = useSubscriptionManager();
 
-  const { theme, handleThemeChange } = useThemeManager();
+  const { getAccessLevel, isLessonLocked, isLevelLocked, canOpenLesson } = useAccessPolicy(lessonStructure, isSubscribed, tiers);
+
+  // Tree badges: progress is refreshed whenever the reader moves to another lesson
+  const lessonProgress = useLessonProgress(selectedLesson?.path);
+  const { newLessonPaths, markLessonSeen } = useNewLessons(lessonStructure);
+
+  // Backlinks, related lessons and the graph view, built in the background once needed
+  const { graph: linkGraph, getConnections } = useLinkGraph(lessonStructure, isLessonLocked, Boolean(selectedLesson) || showGraph);
+  // Spaced-repetition deck, read when the home or review screen is shown
+  const { cards: flashcards, dueCards, dueCount, gradeCard } = useFlashcards(
+    lessonStructure, isLessonLocked, lessonProgress, showReview || !selectedLesson
+  );
+  // Glossary terms for lesson tooltips and the glossary screen
+  const { terms: glossaryTerms } = useGlossary(lessonStructure, isLessonLocked, Boolean(selectedLesson) || showGlossary);
+
+  const lessonConnections = useMemo(() => {
+    return selectedLesson && !selectedLesson.preview ? getConnections(selectedLesson.path) : null;
+  }, [selectedLesson, getConnections]);
+
+  const { theme, handleThemeChange, chartPalette } = useThemeManager();
+
+  const { sessionExpired, resetSession } = useAuthSession();
 
   const {
     saveScrollPosition,
+    getSavedScrollAnchor,
     createThrottledScrollHandler,
-    scrollToPosition
+    restoreScrollAnchor,
+    scrollToHeading
   } = useScrollManager();
 
-  // Admin logic
-  const telegramUserId = window.Telegram?.WebApp?.initDataUnsafe?.user?.id;
-  const authorizedUserIds = ['781182099', '5974666109'];
-  const isAdmin = telegramUserId && authorizedUserIds.includes(String(telegramUserId));
+  // Admin logic: roles and permissions come from the server
+  const { canAccessAdminPanel } = usePermissions();
+
+  // Route the current view falls back to when an overlay (profile, admin, search) closes
+  const baseRoute = useMemo<AppRoute>(() => {
+    return selectedLesson ? { name: 'lesson', path: selectedLesson.path } : { name: 'home' };
+  }, [selectedLesson]);
 
-  // Enhanced lesson selection with scroll management
-  const handleLessonSelect = useCallback(async (lessonPath: string, scrollToPos?: number) => {
+  // Load a lesson with scroll management (does not touch the URL)
+  const loadLesson = useCallback(async (lessonPath: string, scrollAnchor?: ScrollAnchor, heading?: string) => {
     // Save scroll position of current lesson before switching
     if (selectedLesson && selectedLesson.path !== lessonPath) {
       saveScrollPosition(selectedLesson.path);
     }
 
-    // Handle lesson selection
-    await originalHandleLessonSelect(lessonPath, scrollToPos);
+    loadingLessonPathRef.current = lessonPath;
+    lastHeadingRef.current = heading || null;
+
+    try {
+      if (await canOpenLesson(lessonPath)) {
+        await originalHandleLessonSelect(lessonPath, scrollAnchor);
+      } else {
+        // Locked lessons open as a paywall preview
+        await handleLessonPreview(lessonPath);
+      }
+    } finally {
+      loadingLessonPathRef.current = null;
+    }
     
     // Close sidebar on mobile after selection
     setSidebarOpen(false);
     
     // Handle scroll position
-    const isCached = Boolean(scrollToPos);
-    scrollToPosition(scrollToPos || 0, isCached);
-  }, [selectedLesson, saveScrollPosition, originalHandleLessonSelect, scrollToPosition]);
+    if (heading) {
+      scrollToHeading(heading);
+      return;
+    }
+    restoreScrollAnchor(scrollAnchor || { heading: null, offset: 0 }, Boolean(scrollAnchor));
+  }, [selectedLesson, saveScrollPosition, canOpenLesson, originalHandleLessonSelect, handleLessonPreview, restoreScrollAnchor, scrollToHeading]);
 
-  // Subscription requirement handler
-  const onSubscriptionRequired = useCallback(() => {
-    const message = handleSubscriptionRequired();
-    setError(message);
-  }, [handleSubscriptionRequired, setError]);
+  // Enhanced lesson selection: pushes a history entry for the lesson
+  const handleLessonSelect = useCallback(async (lessonPath: string, scrollAnchor?: ScrollAnchor, heading?: string) => {
+    navigate({ name: 'lesson', path: lessonPath, heading });
+    await loadLesson(lessonPath, scrollAnchor, heading);
+  }, [navigate, loadLesson]);
 
   // Error handlers
   const handleSubscriptionVerifiedLocal = useCallback(() => {
@@ -118,14 +210,32 @@ const App: React.FC = () => {
     fetchLessonStructure();
   }, [handleSubscriptionVerified, fetchLessonStructure, setError]);
 
+  // Verified from the paywall preview: swap in the full lesson in place
+  const handlePreviewSubscriptionVerified = useCallback(() => {
+    handleSubscriptionVerified();
+    if (selectedLesson?.preview) {
+      originalHandleLessonSelect(selectedLesson.path);
+    }
+  }, [handleSubscriptionVerified, selectedLesson, originalHandleLessonSelect]);
+
   const handleRetry = useCallback(() => {
     setError(null);
     fetchLessonStructure();
   }, [setError, fetchLessonStructure]);
 
+  const handleSessionRetry = useCallback(() => {
+    resetSession();
+    setError(null);
+    fetchLessonStructure();
+  }, [resetSession, setError, fetchLessonStructure]);
+
   const handleErrorBack = useCallback(() => {
     setError(null);
-  }, [setError]);
+    // Drop the URL of a lesson that failed to open
+    if (route.name === 'lesson' && selectedLesson?.path !== route.path) {
+      navigate(baseRoute, { replace: true });
+    }
+  }, [setError, route, selectedLesson, navigate, baseRoute]);
 
   // Home navigation
   const handleHomeClick = useCallback(() => {
@@ -133,32 +243,122 @@ const App: React.FC = () => {
       saveScrollPosition(selectedLesson.path);
     }
     
+    navigate({ name: 'home' });
     setSelectedLesson(null);
     setSidebarOpen(false);
     
     setTimeout(() => {
       window.scrollTo(0, 0);
     }, 50);
-  }, [selectedLesson, saveScrollPosition, setSelectedLesson]);
+  }, [selectedLesson, saveScrollPosition, setSelectedLesson, navigate]);
+
+  // Search query lives in the URL: the first keystroke pushes /search, the rest replace it
+  const handleSearchQueryChange = useCallback((query: string) => {
+    if (query) {
+      navigate({ name: 'search', query }, { replace: route.name === 'search' });
+    } else if (route.name === 'search') {
+      navigate(baseRoute, { replace: true });
+    }
+  }, [navigate, route.name, baseRoute]);
+
+  // Tags in lessons open a search for the tag
+  const handleTagSelect = useCallback((tag: string) => {
+    navigate({ name: 'search', query: `#${tag}` });
+  }, [navigate]);
+
+  // ```replay blocks open the simulator with their scenario, kept in the URL
+  const handleStartReplay = useCallback((scenario: ReplayScenario) => {
+    navigate({ name: 'replay', scenario });
+  }, [navigate]);
+
+  const handleSidebarToggle = useCallback(() => {
+    if (sidebarOpen && route.name === 'search') {
+      navigate(baseRoute, { replace: true });
+    }
+    setSidebarOpen(!sidebarOpen);
+  }, [sidebarOpen, route.name, navigate, baseRoute]);
 
   // Handle continue learning from welcome screen
-  const handleContinueLearning = useCallback(async (lessonPath: string, scrollPosition: number) => {
-    await handleLessonSelect(lessonPath, scrollPosition);
+  const handleContinueLearning = useCallback(async (lessonPath: string, scrollAnchor?: ScrollAnchor) => {
+    await handleLessonSelect(lessonPath, scrollAnchor);
   }, [handleLessonSelect]);
 
-  // Scroll tracking setup
+  // Open the lesson from a t.me/...?startapp= deep link once on startup
   useEffect(() => {
-    if (!selectedLesson) return;
+    if (loading || subscriptionLoading || startParamHandledRef.current) return;
+    startParamHandledRef.current = true;
+
+    // An explicit URL (e.g. after reload) wins over the launch parameter
+    if (route.name !== 'home') return;
 
-    const throttledScrollHandler = createThrottledScrollHandler(
-      selectedLesson,
-      (path: string, lesson: Lesson, scrollPosition: number) => {
-        // This would be the updateLastReadLesson logic
-        // For now, we'll keep it simple
+    const startParam = decodeStartParam(readLaunchStartParam());
+    if (!startParam) return;
+
+    const openFromStartParam = async () => {
+      const lessonPath = await resolveLessonTarget(startParam.target);
+      if (!lessonPath) {
+        console.warn('Start param target not found:', startParam.target);
+        return;
+      }
+
+      if (startParam.campaign) {
+        progressService.trackEvent('deep_link_open', lessonPath, { campaign: startParam.campaign });
       }
-    );
 
-    const handleScroll = () => throttledScrollHandler;
+      await handleLessonSelect(lessonPath, undefined, startParam.heading);
+    };
+
+    openFromStartParam();
+  }, [loading, subscriptionLoading, route.name, resolveLessonTarget, handleLessonSelect]);
+
+  // Sync the displayed lesson with the URL (initial load, reload, back/forward)
+  useEffect(() => {
+    if (loading || subscriptionLoading) return;
+
+    if (route.name === 'lesson') {
+      if (selectedLesson?.path === route.path) {
+        // Same lesson, possibly a different section
+        if (route.heading && route.heading !== lastHeadingRef.current) {
+          lastHeadingRef.current = route.heading;
+          scrollToHeading(route.heading);
+        }
+        return;
+      }
+
+      if (loadingLessonPathRef.current === route.path) return;
+
+      // Reload, back and forward return to where the reader left this lesson
+      const savedAnchor = route.heading ? undefined : getSavedScrollAnchor(route.path) || undefined;
+      loadLesson(route.path, savedAnchor, route.heading);
+    } else if (route.name === 'home' && selectedLesson) {
+      saveScrollPosition(selectedLesson.path);
+      setSelectedLesson(null);
+    } else if (route.name === 'search') {
+      setSidebarOpen(true);
+    }
+  }, [route, loading, subscriptionLoading, selectedLesson, loadLesson, getSavedScrollAnchor, scrollToHeading, saveScrollPosition, setSelectedLesson]);
+
+  // A lesson's own frontmatter may be stricter than the level its folder gives it
+  useEffect(() => {
+    if (!selectedLesson || selectedLesson.preview || subscriptionLoading) return;
+
+    const lessonLevel = getLessonAccessLevel(selectedLesson);
+    if (lessonLevel && isLevelLocked(lessonLevel) && !isLessonLocked(selectedLesson.path)) {
+      handleLessonPreview(selectedLesson.path);
+    }
+  }, [selectedLesson, subscriptionLoading, isLevelLocked, isLessonLocked, handleLessonPreview]);
+
+  useEffect(() => {
+    if (selectedLesson) {
+      markLessonSeen(selectedLesson.path);
+    }
+  }, [selectedLesson, markLessonSeen]);
+
+  // Scroll tracking setup
+  useEffect(() => {
+    if (!selectedLesson || selectedLesson.preview) return;
+
+    const handleScroll = () => createThrottledScrollHandler(selectedLesson, updateLastReadLesson);
 
     const lessonViewer = document.querySelector('.lesson-viewer');
     const mainContent = document.querySelector('.main-content');
@@ -180,7 +380,7 @@ const App: React.FC = () => {
         window.removeEventListener('scroll', handleScroll);
       }
     };
-  }, [selectedLesson, createThrottledScrollHandler]);
+  }, [selectedLesson, createThrottledScrollHandler, updateLastReadLesson]);
 
   // Initialize Telegram WebApp
   useEffect(() => {
@@ -231,6 +431,11 @@ const App: React.FC = () => {
     );
   }
 
+  // Render session expired screen instead of failing silently
+  if (sessionExpired) {
+    return <SessionExpiredScreen onRetry={handleSessionRetry} />;
+  }
+
   // Render error screen
   if (error) {
     return (
@@ -244,10 +449,119 @@ const App: React.FC = () => {
   }
 
   // Render admin page
-  if (isAdmin && showAdminPage) {
+  if (canAccessAdminPanel && showAdminPage) {
     return (
       <Suspense fallback={<LoadingScreen welcomePageReady={true} welcomeAnimationsEnabled={false} />}>
-        <AdminPage onBack={() => setShowAdminPage(false)} />
+        <AdminPage onBack={() => navigate(baseRoute)} />
+      </Suspense>
+    );
+  }
+
+  // Tool screens, in menu order: each has an entry in the FAB tools sheet, and all
+  // but the calculator (a modal over the app) replace the app while their route is open
+  const tools: AppTool[] = [
+    {
+      route: 'graph',
+      title: 'Граф знаний',
+      icon: Network,
+      renderScreen: () => (
+        <GraphView
+          structure={lessonStructure}
+          graph={linkGraph}
+          progress={lessonProgress}
+          getAccessLevel={getAccessLevel}
+          isLessonLocked={isLessonLocked}
+          onLessonSelect={handleLessonSelect}
+          onClose={() => navigate(baseRoute)}
+        />
+      )
+    },
+    {
+      route: 'review',
+      title: 'Повторение',
+      icon: Layers,
+      renderScreen: () => (
+        <ReviewScreen
+          cards={flashcards ? dueCards : null}
+          onGrade={gradeCard}
+          onOpenLesson={handleLessonSelect}
+          onClose={() => navigate(baseRoute)}
+        />
+      )
+    },
+    {
+      route: 'calculator',
+      title: 'Калькулятор позиции',
+      icon: Calculator
+    },
+    {
+      route: 'replay',
+      title: 'Тренажёр',
+      icon: CandlestickChart,
+      renderScreen: () => (
+        <ReplayScreen
+          scenario={route.name === 'replay' ? route.scenario || null : null}
+          palette={chartPalette}
+          onClose={() => navigate(baseRoute)}
+        />
+      )
+    },
+    {
+      route: 'journal',
+      title: 'Журнал сделок',
+      icon: NotebookPen,
+      renderScreen: () => (
+        <JournalScreen
+          structure={lessonStructure}
+          onOpenLesson={handleLessonSelect}
+          onClose={() => navigate(baseRoute)}
+        />
+      )
+    },
+    {
+      route: 'drills',
+      title: 'Тренировка паттернов',
+      icon: Target,
+      renderScreen: () => (
+        <PatternDrillScreen
+          structure={lessonStructure}
+          palette={chartPalette}
+          onOpenLesson={handleLessonSelect}
+          onClose={() => navigate(baseRoute)}
+        />
+      )
+    },
+    {
+      route: 'glossary',
+      title: 'Глоссарий',
+      icon: BookA,
+      renderScreen: () => (
+        <GlossaryScreen
+          terms={glossaryTerms}
+          onOpenNote={handleLessonSelect}
+          onClose={() => navigate(baseRoute)}
+        />
+      )
+    },
+    {
+      route: 'notes',
+      title: 'Мои заметки',
+      icon: Highlighter,
+      renderScreen: () => (
+        <NotesScreen
+          onOpenLesson={handleLessonSelect}
+          onClose={() => navigate(baseRoute)}
+        />
+      )
+    }
+  ];
+
+  // Render the open tool screen
+  const renderToolScreen = tools.find(tool => tool.route === route.name)?.renderScreen;
+  if (renderToolScreen) {
+    return (
+      <Suspense fallback={<LoadingScreen welcomePageReady={true} welcomeAnimationsEnabled={false} />}>
+        {renderToolScreen()}
       </Suspense>
     );
   }
@@ -258,10 +572,16 @@ const App: React.FC = () => {
       <FloatingActionButton
         theme={theme}
         onThemeChange={handleThemeChange}
-        onProfileClick={() => setShowUserProfile(true)}
+        onProfileClick={() => navigate({ name: 'profile' })}
         onHomeClick={handleHomeClick}
-        isAdmin={!!isAdmin}
-        onAdminClick={() => setShowAdminPage(true)}
+        canAccessAdminPanel={canAccessAdminPanel}
+        onAdminClick={() => navigate({ name: 'admin' })}
+        tools={tools.map(tool => ({
+          id: tool.route,
+          title: tool.title,
+          icon: tool.icon,
+          onClick: () => navigate({ name: tool.route })
+        }))}
         onUploadClick={() => {
           console.log('Upload clicked');
         }}
@@ -270,20 +590,29 @@ const App: React.FC = () => {
       {showUserProfile && (
         <Suspense fallback={<div className="modal-loading">Загрузка...</div>}>
           <UserProfile 
-            onClose={() => setShowUserProfile(false)}
+            onClose={() => navigate(baseRoute)}
             telegramUser={window.Telegram?.WebApp?.initDataUnsafe?.user}
           />
         </Suspense>
       )}
       
+      {showCalculator && (
+        <Suspense fallback={<div className="modal-loading">Загрузка...</div>}>
+          <PositionCalculatorModal onClose={() => navigate(baseRoute)} />
+        </Suspense>
+      )}
+
       <Sidebar
         structure={lessonStructure}
         isOpen={sidebarOpen}
-        onToggle={() => setSidebarOpen(!sidebarOpen)}
+        onToggle={handleSidebarToggle}
         onLessonSelect={handleLessonSelect}
         onSearch={handleSearch}
-        isSubscribed={isSubscribed}
-        onSubscriptionRequired={onSubscriptionRequired}
+        searchQuery={searchQuery}
+        onSearchQueryChange={handleSearchQueryChange}
+        isLessonLocked={isLessonLocked}
+        lessonProgress={lessonProgress}
+        newLessonPaths={newLessonPaths}
       />
       
       <main className={`main-content ${sidebarOpen ? 'sidebar-open' : ''}`}>
@@ -294,14 +623,21 @@ const App: React.FC = () => {
             nextLessonPath={nextLessonPath}
             prevLessonPath={prevLessonPath}
             onSidebarToggle={() => setSidebarOpen(true)}
-            isSubscribed={isSubscribed}
-            onSubscriptionRequired={onSubscriptionRequired}
+            onSubscriptionVerified={handlePreviewSubscriptionVerified}
+            onTagSelect={handleTagSelect}
+            connections={lessonConnections}
+            chartPalette={chartPalette}
+            onStartReplay={handleStartReplay}
+            glossary={glossaryTerms || undefined}
+            isLessonLocked={isLessonLocked}
           />
         ) : (
           <WelcomeScreen
             welcomeAnimationsEnabled={welcomeAnimationsEnabled}
             onOpenSidebar={() => setSidebarOpen(true)}
             onContinueLearning={handleContinueLearning}
+            dueCardCount={dueCount}
+            onStartReview={() => navigate({ name: 'review' })}
           />
         )}
       </main>
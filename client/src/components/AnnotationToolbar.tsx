@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Check, Copy, StickyNote, Trash2 } from 'lucide-react';
+import { HIGHLIGHT_COLORS, HighlightColor } from '../utils/annotations';
+
+interface AnnotationToolbarProps {
+  /** Anchor point inside the annotation layer */
+  x: number;
+  y: number;
+  /** Show under the anchor instead of above it (no room at the top) */
+  below: boolean;
+  /** Color of the highlight being edited; none for a fresh selection */
+  color?: HighlightColor;
+  note?: string;
+  onColor: (color: HighlightColor) => void;
+  onSaveNote: (note: string) => void;
+  onCopy: () => void;
+  onDelete?: () => void;
+}
+
+const COLOR_LABELS: Record<HighlightColor, string> = {
+  yellow: 'Жёлтый',
+  green: 'Зелёный',
+  blue: 'Синий',
+  pink: 'Розовый'
+};
+
+// Buttons must not take the focus: that would drop the text selection on desktop
+const keepSelection = (event: React.MouseEvent) => event.preventDefault();
+
+/**
+ * Mini-toolbar over selected or highlighted lesson text
+ */
+const AnnotationToolbar: React.FC<AnnotationToolbarProps> = ({
+  x,
+  y,
+  below,
+  color,
+  note = '',
+  onColor,
+  onSaveNote,
+  onCopy,
+  onDelete
+}) => {
+  const [editingNote, setEditingNote] = useState(false);
+  const [draft, setDraft] = useState(note);
+  const [copied, setCopied] = useState(false);
+
+  return (
+    <div
+      className={`annotation-toolbar ${below ? 'below' : ''}`}
+      style={{ left: x, top: y }}
+      data-annotation-ignore
+    >
+      {editingNote ? (
+        <div className="annotation-note-editor">
+          <textarea
+            value={draft}
+            onChange={event => setDraft(event.target.value)}
+            placeholder="Ваша заметка"
+            rows={3}
+            autoFocus
+          />
+          <div className="annotation-note-actions">
+            <button className="replay-secondary-btn" onClick={() => setEditingNote(false)}>Отмена</button>
+            <button className="review-primary-btn" onClick={() => onSaveNote(draft.trim())}>Сохранить</button>
+          </div>
+        </div>
+      ) : (
+        <div className="annotation-toolbar-buttons" onMouseDown={keepSelection}>
+          {HIGHLIGHT_COLORS.map(option => (
+            <button
+              key={option}
+              className={`annotation-color ${option} ${option === color ? 'active' : ''}`}
+              onClick={() => onColor(option)}
+              title={COLOR_LABELS[option]}
+            />
+          ))}
+          <button onClick={() => setEditingNote(true)} title={note ? 'Изменить заметку' : 'Добавить заметку'}>
+            <StickyNote size={18} />
+          </button>
+          <button
+            onClick={() => {
+              onCopy();
+              setCopied(true);
+            }}
+            title="Копировать цитату"
+          >
+            {copied ? <Check size={18} /> : <Copy size={18} />}
+          </button>
+          {onDelete && (
+            <button onClick={onDelete} title="Удалить выделение">
+              <Trash2 size={18} />
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnnotationToolbar;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import {
+  AlertTriangle, Bug, Check, ChevronDown, ClipboardList, Flame, HelpCircle,
+  Info, List, LucideIcon, Pencil, Quote, SquareCheck, X, Zap
+} from 'lucide-react';
+
+interface CalloutStyle {
+  kind: string;
+  icon: LucideIcon;
+}
+
+// Obsidian callout types and their aliases
+const CALLOUT_STYLES: Record<string, CalloutStyle> = {
+  note: { kind: 'note', icon: Pencil },
+  abstract: { kind: 'abstract', icon: ClipboardList },
+  summary: { kind: 'abstract', icon: ClipboardList },
+  tldr: { kind: 'abstract', icon: ClipboardList },
+  info: { kind: 'info', icon: Info },
+  todo: { kind: 'todo', icon: SquareCheck },
+  tip: { kind: 'tip', icon: Flame },
+  hint: { kind: 'tip', icon: Flame },
+  important: { kind: 'tip', icon: Flame },
+  success: { kind: 'success', icon: Check },
+  check: { kind: 'success', icon: Check },
+  done: { kind: 'success', icon: Check },
+  question: { kind: 'question', icon: HelpCircle },
+  help: { kind: 'question', icon: HelpCircle },
+  faq: { kind: 'question', icon: HelpCircle },
+  warning: { kind: 'warning', icon: AlertTriangle },
+  caution: { kind: 'warning', icon: AlertTriangle },
+  attention: { kind: 'warning', icon: AlertTriangle },
+  failure: { kind: 'failure', icon: X },
+  fail: { kind: 'failure', icon: X },
+  missing: { kind: 'failure', icon: X },
+  danger: { kind: 'danger', icon: Zap },
+  error: { kind: 'danger', icon: Zap },
+  bug: { kind: 'bug', icon: Bug },
+  example: { kind: 'example', icon: List },
+  quote: { kind: 'quote', icon: Quote },
+  cite: { kind: 'quote', icon: Quote }
+};
+
+interface CalloutProps {
+  type: string;
+  /** '+' foldable and open, '-' foldable and collapsed, '' not foldable */
+  fold?: string;
+  title?: string;
+  children?: React.ReactNode;
+}
+
+const Callout: React.FC<CalloutProps> = ({ type, fold = '', title, children }) => {
+  const style = CALLOUT_STYLES[type] || CALLOUT_STYLES.note;
+  const Icon = style.icon;
+  const foldable = fold === '+' || fold === '-';
+  const [collapsed, setCollapsed] = useState(fold === '-');
+  const heading = title || type.charAt(0).toUpperCase() + type.slice(1);
+
+  return (
+    <div className={`callout callout-${style.kind} ${collapsed ? 'collapsed' : ''}`}>
+      <div
+        className={`callout-title ${foldable ? 'foldable' : ''}`}
+        onClick={foldable ? () => setCollapsed(value => !value) : undefined}
+      >
+        <Icon size={18} className="callout-icon" />
+        <span className="callout-title-text">{heading}</span>
+        {foldable && <ChevronDown size={16} className="callout-fold-icon" />}
+      </div>
+      {!collapsed && children && React.Children.count(children) > 0 && (
+        <div className="callout-content">{children}</div>
+      )}
+    </div>
+  );
+};
+
+export default Callout;
@@ -0,0 +1,361 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Maximize2, ZoomIn, ZoomOut } from 'lucide-react';
+import { ChartPalette } from '../hooks/useThemeManager';
+import { Candle, ChartLevel, ChartOverlay, movingAverage } from '../utils/ohlc';
+
+export interface ChartLevelLine extends ChartLevel {
+  color?: string;
+  dashed?: boolean;
+}
+
+interface CandlestickChartProps {
+  candles: Candle[];
+  palette: ChartPalette;
+  overlays?: ChartOverlay[];
+  levels?: ChartLevelLine[];
+  height?: number;
+  /** Candles shown at first; the rest is reachable by panning */
+  initialVisible?: number;
+  /** Pan, zoom and crosshair; off for static snippets */
+  interactive?: boolean;
+}
+
+interface ChartView {
+  count: number;
+  /** Index after the last visible candle; null keeps the newest candle in view as data grows */
+  end: number | null;
+}
+
+const PRICE_AXIS_WIDTH = 60;
+const TIME_AXIS_HEIGHT = 20;
+const VOLUME_SHARE = 0.2;
+const MIN_VISIBLE = 10;
+const DEFAULT_VISIBLE = 80;
+const PRICE_TICKS = 5;
+const TIME_TICKS = 6;
+
+const getPrecision = (range: number) => (range >= 100 ? 2 : range >= 1 ? 3 : 5);
+
+const formatPrice = (value: number, precision: number) =>
+  value.toLocaleString('ru-RU', { minimumFractionDigits: 0, maximumFractionDigits: precision });
+
+const formatVolume = (value: number) =>
+  value.toLocaleString('ru-RU', { notation: 'compact', maximumFractionDigits: 1 } as Intl.NumberFormatOptions);
+
+// "2024-03-01 10:00" → "03-01 10:00"; labels have little room
+const shortTime = (time: string) => time.replace(/^\d{4}-/, '');
+
+const buildPath = (points: Array<[number, number] | null>) => {
+  let path = '';
+  let drawing = false;
+  points.forEach(point => {
+    if (!point) {
+      drawing = false;
+      return;
+    }
+    path += `${drawing ? 'L' : 'M'}${point[0].toFixed(1)} ${point[1].toFixed(1)} `;
+    drawing = true;
+  });
+  return path.trim();
+};
+
+/**
+ * SVG candlestick chart with volume, moving averages and level lines.
+ * Drawn locally from the given candles; no chart service is involved.
+ */
+const CandlestickChart: React.FC<CandlestickChartProps> = ({
+  candles,
+  palette,
+  overlays = [],
+  levels = [],
+  height = 320,
+  initialVisible = DEFAULT_VISIBLE,
+  interactive = true
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ startX: number; startEnd: number } | null>(null);
+  const [width, setWidth] = useState(600);
+  const [view, setView] = useState<ChartView>({ count: initialVisible, end: null });
+  const [hover, setHover] = useState<{ index: number; y: number } | null>(null);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const update = () => setWidth(element.clientWidth || 600);
+    update();
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(update);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const total = candles.length;
+  const count = Math.max(Math.min(view.count, total), Math.min(MIN_VISIBLE, total));
+  const end = Math.min(total, Math.max(count, view.end ?? total));
+  const start = end - count;
+  const visible = useMemo(() => candles.slice(start, end), [candles, start, end]);
+
+  const overlayValues = useMemo(
+    () => overlays.map(overlay => movingAverage(candles, overlay)),
+    [candles, overlays]
+  );
+
+  const hasVolume = visible.some(candle => candle.volume !== undefined);
+  const plotWidth = Math.max(width - PRICE_AXIS_WIDTH, 1);
+  const chartHeight = height - TIME_AXIS_HEIGHT;
+  const priceHeight = hasVolume ? chartHeight * (1 - VOLUME_SHARE) : chartHeight;
+  const candleWidth = plotWidth / Math.max(count, 1);
+
+  const scale = useMemo(() => {
+    const prices = visible.flatMap(candle => [candle.high, candle.low]).concat(levels.map(level => level.price));
+    if (prices.length === 0) return null;
+    let max = Math.max(...prices);
+    let min = Math.min(...prices);
+    if (max === min) {
+      max += 1;
+      min -= 1;
+    }
+    const padding = (max - min) * 0.05;
+    max += padding;
+    min -= padding;
+    const maxVolume = Math.max(0, ...visible.map(candle => candle.volume || 0));
+    return {
+      min,
+      max,
+      precision: getPrecision(max - min),
+      toY: (price: number) => ((max - price) / (max - min)) * priceHeight,
+      fromY: (y: number) => max - (y / priceHeight) * (max - min),
+      toVolumeHeight: (volume: number) => (maxVolume > 0 ? (volume / maxVolume) * (chartHeight - priceHeight - 4) : 0)
+    };
+  }, [visible, levels, priceHeight, chartHeight]);
+
+  const clampEnd = useCallback((value: number) => Math.min(total, Math.max(count, Math.round(value))), [total, count]);
+
+  const zoom = useCallback((factor: number, anchor: number = 1) => {
+    setView(current => {
+      const currentCount = Math.min(current.count, total);
+      const currentEnd = current.end ?? total;
+      const nextCount = Math.round(Math.min(total, Math.max(MIN_VISIBLE, currentCount * factor)));
+      // Keep the candle under the anchor (0 = left edge, 1 = right edge) in place
+      const pivot = currentEnd - currentCount * (1 - anchor);
+      const nextEnd = Math.min(total, Math.max(nextCount, Math.round(pivot + nextCount * (1 - anchor))));
+      return { count: nextCount, end: current.end === null && anchor === 1 ? null : nextEnd };
+    });
+  }, [total]);
+
+  // Ctrl + wheel (and trackpad pinch) zooms; plain wheel keeps scrolling the lesson
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg || !interactive) return;
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return;
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const anchor = Math.min(1, Math.max(0, (event.clientX - rect.left) / Math.max(rect.width - PRICE_AXIS_WIDTH, 1)));
+      zoom(event.deltaY < 0 ? 1 / 1.15 : 1.15, anchor);
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [interactive, zoom]);
+
+  const getPointer = (event: React.PointerEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!interactive) return;
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    dragRef.current = { startX: event.clientX, startEnd: end };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!interactive) return;
+    const drag = dragRef.current;
+    if (drag) {
+      const nextEnd = clampEnd(drag.startEnd - (event.clientX - drag.startX) / candleWidth);
+      setView(current => ({ ...current, end: nextEnd >= total ? null : nextEnd }));
+    }
+
+    const { x, y } = getPointer(event);
+    if (x > plotWidth || y > chartHeight) {
+      setHover(null);
+      return;
+    }
+    setHover({ index: Math.min(end - 1, start + Math.floor(x / candleWidth)), y });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  if (total === 0 || !scale) {
+    return <div className="candle-chart-empty">Нет данных для графика</div>;
+  }
+
+  const shown = hover ? candles[hover.index] : candles[end - 1];
+  const changeColor = shown.close >= shown.open ? palette.up : palette.down;
+  const priceTicks = Array.from({ length: PRICE_TICKS }, (_, index) =>
+    scale.min + ((scale.max - scale.min) * (index + 0.5)) / PRICE_TICKS);
+  const timeStep = Math.max(1, Math.ceil(count / TIME_TICKS));
+
+  return (
+    <div className="candle-chart" ref={containerRef}>
+      <div className="candle-chart-readout">
+        <span className="candle-chart-time">{shown.time}</span>
+        {(['open', 'high', 'low', 'close'] as const).map(key => (
+          <span key={key}>
+            {key[0].toUpperCase()} <b style={{ color: changeColor }}>{formatPrice(shown[key], scale.precision)}</b>
+          </span>
+        ))}
+        {shown.volume !== undefined && <span>V <b>{formatVolume(shown.volume)}</b></span>}
+        {overlays.map((overlay, index) => {
+          const value = overlayValues[index][hover ? hover.index : end - 1];
+          return value === null ? null : (
+            <span key={`${overlay.type}-${overlay.period}`} style={{ color: palette.overlays[index % palette.overlays.length] }}>
+              {overlay.type.toUpperCase()} {overlay.period} {formatPrice(value, scale.precision)}
+            </span>
+          );
+        })}
+      </div>
+
+      <svg
+        ref={svgRef}
+        className={`candle-chart-canvas ${interactive ? 'interactive' : ''}`}
+        width={width}
+        height={height}
+        style={{ background: palette.background }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={() => {
+          handlePointerUp();
+          setHover(null);
+        }}
+      >
+        {priceTicks.map(price => (
+          <g key={price}>
+            <line x1={0} x2={plotWidth} y1={scale.toY(price)} y2={scale.toY(price)} stroke={palette.grid} />
+            <text x={plotWidth + 6} y={scale.toY(price) + 4} fill={palette.text} fontSize={11}>
+              {formatPrice(price, scale.precision)}
+            </text>
+          </g>
+        ))}
+
+        {visible.map((candle, offset) => {
+          if ((start + offset) % timeStep !== 0) return null;
+          const x = (offset + 0.5) * candleWidth;
+          return (
+            <g key={`time-${start + offset}`}>
+              <line x1={x} x2={x} y1={0} y2={chartHeight} stroke={palette.grid} />
+              <text x={x} y={height - 5} fill={palette.text} fontSize={11} textAnchor="middle">
+                {shortTime(candle.time)}
+              </text>
+            </g>
+          );
+        })}
+
+        {hasVolume && visible.map((candle, offset) => {
+          const barHeight = scale.toVolumeHeight(candle.volume || 0);
+          return (
+            <rect
+              key={`volume-${start + offset}`}
+              x={offset * candleWidth + candleWidth * 0.15}
+              y={chartHeight - barHeight}
+              width={Math.max(candleWidth * 0.7, 1)}
+              height={barHeight}
+              fill={candle.close >= candle.open ? palette.up : palette.down}
+              opacity={0.35}
+            />
+          );
+        })}
+
+        {visible.map((candle, offset) => {
+          const x = (offset + 0.5) * candleWidth;
+          const color = candle.close >= candle.open ? palette.up : palette.down;
+          const top = scale.toY(Math.max(candle.open, candle.close));
+          const bottom = scale.toY(Math.min(candle.open, candle.close));
+          return (
+            <g key={`candle-${start + offset}`}>
+              <line x1={x} x2={x} y1={scale.toY(candle.high)} y2={scale.toY(candle.low)} stroke={color} />
+              <rect
+                x={x - Math.max(candleWidth * 0.35, 0.5)}
+                y={top}
+                width={Math.max(candleWidth * 0.7, 1)}
+                height={Math.max(bottom - top, 1)}
+                fill={color}
+              />
+            </g>
+          );
+        })}
+
+        {overlays.map((overlay, index) => (
+          <path
+            key={`${overlay.type}-${overlay.period}`}
+            d={buildPath(overlayValues[index].slice(start, end).map((value, offset) => (
+              value === null ? null : [(offset + 0.5) * candleWidth, scale.toY(value)]
+            )))}
+            fill="none"
+            stroke={palette.overlays[index % palette.overlays.length]}
+            strokeWidth={1.5}
+          />
+        ))}
+
+        {levels.map((level, index) => {
+          const y = scale.toY(level.price);
+          const color = level.color || palette.level;
+          return (
+            <g key={`level-${index}`}>
+              <line
+                x1={0}
+                x2={plotWidth}
+                y1={y}
+                y2={y}
+                stroke={color}
+                strokeDasharray={level.dashed === false ? undefined : '6 4'}
+              />
+              <text x={4} y={y - 4} fill={color} fontSize={11}>
+                {level.label ? `${level.label} · ` : ''}{formatPrice(level.price, scale.precision)}
+              </text>
+            </g>
+          );
+        })}
+
+        {interactive && hover && (
+          <g pointerEvents="none">
+            <line
+              x1={(hover.index - start + 0.5) * candleWidth}
+              x2={(hover.index - start + 0.5) * candleWidth}
+              y1={0}
+              y2={chartHeight}
+              stroke={palette.crosshair}
+              strokeDasharray="3 3"
+            />
+            {hover.y < priceHeight && (
+              <>
+                <line x1={0} x2={plotWidth} y1={hover.y} y2={hover.y} stroke={palette.crosshair} strokeDasharray="3 3" />
+                <rect x={plotWidth} y={hover.y - 9} width={PRICE_AXIS_WIDTH} height={18} fill={palette.crosshair} />
+                <text x={plotWidth + 6} y={hover.y + 4} fill={palette.background} fontSize={11}>
+                  {formatPrice(scale.fromY(hover.y), scale.precision)}
+                </text>
+              </>
+            )}
+          </g>
+        )}
+      </svg>
+
+      {interactive && (
+        <div className="candle-chart-controls">
+          <button onClick={() => zoom(1 / 1.25)} title="Приблизить"><ZoomIn size={16} /></button>
+          <button onClick={() => zoom(1.25)} title="Отдалить"><ZoomOut size={16} /></button>
+          <button onClick={() => setView({ count: initialVisible, end: null })} title="Сбросить вид">
+            <Maximize2 size={16} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CandlestickChart;
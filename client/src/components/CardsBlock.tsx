@@ -0,0 +1,39 @@
+import React, { useMemo } from 'react';
+import { Layers } from 'lucide-react';
+import { parseCardLine } from '../utils/flashcards';
+
+interface CardsBlockProps {
+  /** Body of a ```cards block, one `Term :: Definition` per line */
+  source: string;
+}
+
+/**
+ * Flashcards listed in the lesson; the same cards come up in "Повторение"
+ */
+const CardsBlock: React.FC<CardsBlockProps> = ({ source }) => {
+  const cards = useMemo(() => source
+    .split('\n')
+    .map(parseCardLine)
+    .filter((card): card is { front: string; back: string } => card !== null), [source]);
+
+  if (cards.length === 0) return null;
+
+  return (
+    <div className="cards-block">
+      <div className="cards-block-title">
+        <Layers size={16} />
+        Карточки для повторения
+      </div>
+      <dl>
+        {cards.map((card, index) => (
+          <React.Fragment key={index}>
+            <dt>{card.front}</dt>
+            <dd>{card.back}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    </div>
+  );
+};
+
+export default CardsBlock;
@@ -0,0 +1,63 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CandlestickChart as ChartIcon } from 'lucide-react';
+import { ChartPalette } from '../hooks/useThemeManager';
+import { chartDataService } from '../services/chartDataService';
+import { Candle, parseChartBlock } from '../utils/ohlc';
+import CandlestickChart from './CandlestickChart';
+
+interface ChartBlockProps {
+  /** Body of a ```chart block */
+  source: string;
+  palette: ChartPalette;
+  /** Lesson the block belongs to; its data file is cached with it */
+  lessonPath?: string;
+}
+
+/**
+ * ```chart block: inline OHLC data or an uploaded data file drawn as a candlestick chart
+ */
+const ChartBlock: React.FC<ChartBlockProps> = ({ source, palette, lessonPath }) => {
+  const spec = useMemo(() => parseChartBlock(source), [source]);
+  const [fileCandles, setFileCandles] = useState<Candle[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!spec.src) return;
+    let cancelled = false;
+    setFileCandles(null);
+    setError(null);
+    chartDataService.loadCandles(spec.src, lessonPath)
+      .then(candles => {
+        if (!cancelled) setFileCandles(candles);
+      })
+      .catch(loadError => {
+        console.warn('Failed to load chart data:', loadError);
+        if (!cancelled) setError(`Не удалось загрузить данные графика (${spec.src})`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [spec.src, lessonPath]);
+
+  const candles = spec.src ? fileCandles : spec.candles;
+
+  return (
+    <figure className="chart-block">
+      {spec.title && (
+        <figcaption className="chart-block-title">
+          <ChartIcon size={16} />
+          {spec.title}
+        </figcaption>
+      )}
+      {error ? (
+        <div className="candle-chart-empty">{error}</div>
+      ) : candles === null ? (
+        <div className="candle-chart-empty">Загрузка графика...</div>
+      ) : (
+        <CandlestickChart candles={candles} palette={palette} overlays={spec.overlays} levels={spec.levels} />
+      )}
+    </figure>
+  );
+};
+
+export default ChartBlock;
@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from 'react';
+import { RotateCcw, TrendingDown, TrendingUp } from 'lucide-react';
+import { calculateFibLevels, FibDirection, formatFibRatio, parseFibDefaults } from '../utils/fibonacci';
+import { parseNumber } from '../utils/numberInput';
+
+interface FibCalculatorProps {
+  /** Body of a ```fib block with the lesson's preset swing */
+  source?: string;
+}
+
+interface FibValues {
+  high: string;
+  low: string;
+  direction: FibDirection;
+}
+
+const LADDER_WIDTH = 320;
+const LADDER_HEIGHT = 260;
+const LADDER_PADDING = 14;
+// Swing drawn on the left, level labels on the right
+const SWING_X = [24, 110];
+
+const formatPrice = (value: number) => value.toLocaleString('ru-RU', { maximumFractionDigits: 4 });
+
+const toValues = (source: string): FibValues => {
+  const defaults = parseFibDefaults(source);
+  return {
+    high: defaults.high !== undefined ? String(defaults.high) : '',
+    low: defaults.low !== undefined ? String(defaults.low) : '',
+    direction: defaults.direction || 'up'
+  };
+};
+
+/**
+ * Interactive Fibonacci levels for ```fib blocks: swing inputs, level table and a price ladder
+ */
+const FibCalculator: React.FC<FibCalculatorProps> = ({ source = '' }) => {
+  const initialValues = useMemo(() => toValues(source), [source]);
+  const [values, setValues] = useState<FibValues>(initialValues);
+
+  const high = parseNumber(values.high);
+  const low = parseNumber(values.low);
+  const levels = useMemo(() => (
+    high !== null && low !== null ? calculateFibLevels({ high, low, direction: values.direction }) : []
+  ), [high, low, values.direction]);
+
+  const ladder = useMemo(() => {
+    if (levels.length === 0 || high === null || low === null) return null;
+    const prices = [high, low, ...levels.map(level => level.price)];
+    const max = Math.max(...prices);
+    const min = Math.min(...prices);
+    const toY = (price: number) => LADDER_PADDING + ((max - price) / (max - min)) * (LADDER_HEIGHT - 2 * LADDER_PADDING);
+    return { toY };
+  }, [levels, high, low]);
+
+  const isUp = values.direction === 'up';
+  const swingStart = isUp ? low : high;
+  const swingEnd = isUp ? high : low;
+
+  return (
+    <div className="fib-calc">
+      <div className="fib-calc-title">
+        <span>Уровни Фибоначчи</span>
+        <button className="fib-calc-reset" onClick={() => setValues(initialValues)} title="Сбросить">
+          <RotateCcw size={14} />
+        </button>
+      </div>
+
+      <div className="fib-calc-inputs">
+        <label>
+          <span>Максимум</span>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={values.high}
+            onChange={event => setValues(current => ({ ...current, high: event.target.value }))}
+          />
+        </label>
+        <label>
+          <span>Минимум</span>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={values.low}
+            onChange={event => setValues(current => ({ ...current, low: event.target.value }))}
+          />
+        </label>
+        <div className="fib-calc-direction">
+          <button
+            className={isUp ? 'active' : ''}
+            onClick={() => setValues(current => ({ ...current, direction: 'up' }))}
+            title="Движение от минимума к максимуму"
+          >
+            <TrendingUp size={16} /> Вверх
+          </button>
+          <button
+            className={!isUp ? 'active' : ''}
+            onClick={() => setValues(current => ({ ...current, direction: 'down' }))}
+            title="Движение от максимума к минимуму"
+          >
+            <TrendingDown size={16} /> Вниз
+          </button>
+        </div>
+      </div>
+
+      {levels.length === 0 ? (
+        <div className="fib-calc-error">Максимум должен быть выше минимума</div>
+      ) : (
+        <div className="fib-calc-output">
+          <table className="fib-calc-table">
+            <tbody>
+              {levels.map(level => (
+                <tr key={`${level.kind}-${level.ratio}`} className={level.kind}>
+                  <td>{formatFibRatio(level.ratio)}</td>
+                  <td>{formatPrice(level.price)}</td>
+                  <td>{level.kind === 'retracement' ? 'коррекция' : 'расширение'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {ladder && swingStart !== null && swingEnd !== null && (
+            <svg
+              className="fib-calc-ladder"
+              viewBox={`0 0 ${LADDER_WIDTH} ${LADDER_HEIGHT}`}
+              role="img"
+              aria-label="Ценовая лестница уровней"
+            >
+              {[swingEnd, swingStart].map((price, index) => (
+                <g key={`swing-${index}`} className="fib-ladder-swing-level">
+                  <line x1={0} x2={LADDER_WIDTH} y1={ladder.toY(price)} y2={ladder.toY(price)} />
+                  <text x={LADDER_WIDTH - 4} y={ladder.toY(price) - 3} textAnchor="end">
+                    {index === 0 ? '0%' : '100%'} · {formatPrice(price)}
+                  </text>
+                </g>
+              ))}
+              {levels.map(level => (
+                <g key={`${level.kind}-${level.ratio}`} className={`fib-ladder-level ${level.kind}`}>
+                  <line x1={SWING_X[1]} x2={LADDER_WIDTH} y1={ladder.toY(level.price)} y2={ladder.toY(level.price)} />
+                  <text x={LADDER_WIDTH - 4} y={ladder.toY(level.price) - 3} textAnchor="end">
+                    {formatFibRatio(level.ratio)} · {formatPrice(level.price)}
+                  </text>
+                </g>
+              ))}
+              <line
+                className="fib-ladder-swing"
+                x1={SWING_X[0]}
+                y1={ladder.toY(swingStart)}
+                x2={SWING_X[1]}
+                y2={ladder.toY(swingEnd)}
+              />
+            </svg>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FibCalculator;
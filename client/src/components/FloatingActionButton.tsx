@@ -1,12 +1,20 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Settings, User, Sun, Moon, X, Upload, Home } from 'lucide-react';
+import { LucideIcon, Settings, User, Sun, Moon, X, Upload, Home, LayoutGrid, ArrowLeft } from 'lucide-react';
+
+export interface FabMenuItem {
+  id: string;
+  title: string;
+  icon: LucideIcon;
+  onClick: () => void;
+}
 
 interface FloatingActionButtonProps {
   theme: 'light' | 'dark';
   onThemeChange: (theme: 'light' | 'dark') => void;
   onProfileClick: () => void;
   onHomeClick: () => void;
-  isAdmin?: boolean;
+  tools: FabMenuItem[];
+  canAccessAdminPanel?: boolean;
   onAdminClick?: () => void;
   onUploadClick?: () => void;
 }
@@ -16,11 +24,13 @@ const FloatingActionButton: React.FC<FloatingActionButtonProps> = ({
   onThemeChange, 
   onProfileClick,
   onHomeClick,
-  isAdmin,
+  tools,
+  canAccessAdminPanel,
   onAdminClick,
   onUploadClick 
 }) => {
   const [isOpen, setIsOpen] = useState(false);
+  const [toolsOpen, setToolsOpen] = useState(false);
   const fabRef = useRef<HTMLDivElement>(null);
 
   // Close FAB when clicking outside
@@ -28,6 +38,7 @@ const FloatingActionButton: React.FC<FloatingActionButtonProps> = ({
     const handleClickOutside = (event: MouseEvent) => {
       if (fabRef.current && !fabRef.current.contains(event.target as Node)) {
         setIsOpen(false);
+        setToolsOpen(false);
       }
     };
 
@@ -42,6 +53,7 @@ const FloatingActionButton: React.FC<FloatingActionButtonProps> = ({
 
   const toggleFAB = () => {
     setIsOpen(!isOpen);
+    setToolsOpen(false);
   };
 
   const handleThemeToggle = () => {
@@ -68,10 +80,41 @@ const FloatingActionButton: React.FC<FloatingActionButtonProps> = ({
     setIsOpen(false);
   };
 
+  // Tools live in their own scrollable sheet so the main column stays short
+  const handleToolClick = (tool: FabMenuItem) => {
+    tool.onClick();
+    setIsOpen(false);
+    setToolsOpen(false);
+  };
+
   return (
     <div className={`floating-action-button ${isOpen ? 'open' : ''}`} ref={fabRef}>
       {/* Action Buttons */}
-      <div className={`fab-actions ${isOpen ? 'visible' : ''}`}>
+      <div className={`fab-tools-sheet ${isOpen && toolsOpen ? 'visible' : ''}`}>
+        <button
+          className="fab-tools-back"
+          onClick={() => setToolsOpen(false)}
+          title="Назад"
+        >
+          <ArrowLeft size={18} />
+          <span>Инструменты</span>
+        </button>
+
+        <div className="fab-tools-list">
+          {tools.map(tool => (
+            <button
+              key={tool.id}
+              className="fab-tools-item"
+              onClick={() => handleToolClick(tool)}
+            >
+              <tool.icon size={18} />
+              <span>{tool.title}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className={`fab-actions ${isOpen && !toolsOpen ? 'visible' : ''}`}>
         <button 
           className="fab-action home-button"
           onClick={handleHomeClick}
@@ -80,6 +123,16 @@ const FloatingActionButton: React.FC<FloatingActionButtonProps> = ({
           <Home size={20} />
         </button>
         
+        {tools.length > 0 && (
+          <button
+            className="fab-action tools-button"
+            onClick={() => setToolsOpen(true)}
+            title="Инструменты"
+          >
+            <LayoutGrid size={20} />
+          </button>
+        )}
+
         <button 
           className="fab-action theme-toggle"
           onClick={handleThemeToggle}
@@ -96,7 +149,7 @@ const FloatingActionButton: React.FC<FloatingActionButtonProps> = ({
           <User size={20} />
         </button>
         
-        {isAdmin && (
+        {canAccessAdminPanel && (
           <button 
             className="fab-action admin-upload-button"
             onClick={handleAdminClick}
@@ -117,7 +170,7 @@ const FloatingActionButton: React.FC<FloatingActionButtonProps> = ({
       </button>
 
       {/* Background Overlay */}
-      {isOpen && <div className="fab-overlay" onClick={() => setIsOpen(false)} />}
+      {isOpen && <div className="fab-overlay" onClick={() => { setIsOpen(false); setToolsOpen(false); }} />}
     </div>
   );
 };
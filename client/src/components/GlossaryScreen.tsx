@@ -0,0 +1,89 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, Search } from 'lucide-react';
+import { GlossaryTerm } from '../utils/glossary';
+
+interface GlossaryScreenProps {
+  /** null while the term notes are being read */
+  terms: GlossaryTerm[] | null;
+  onOpenNote: (path: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Every glossary term, alphabetically, with a search over terms, aliases and definitions
+ */
+const GlossaryScreen: React.FC<GlossaryScreenProps> = ({ terms, onOpenNote, onClose }) => {
+  const [query, setQuery] = useState('');
+
+  const sections = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const matching = (terms || []).filter(term => !needle ||
+      [term.term, term.definition, ...term.aliases].some(text => text.toLowerCase().includes(needle)));
+
+    const result: Array<{ letter: string; terms: GlossaryTerm[] }> = [];
+    matching.forEach(term => {
+      const letter = term.term.charAt(0).toUpperCase();
+      const section = result[result.length - 1];
+      if (section?.letter === letter) {
+        section.terms.push(term);
+      } else {
+        result.push({ letter, terms: [term] });
+      }
+    });
+    return result;
+  }, [terms, query]);
+
+  const renderBody = () => {
+    if (!terms) return <div className="review-status">Загрузка глоссария...</div>;
+    if (terms.length === 0) {
+      return (
+        <div className="review-done">
+          <h3>Глоссарий пуст</h3>
+          <p>Термины берутся из заметок папки «Глоссарий».</p>
+        </div>
+      );
+    }
+    if (sections.length === 0) return <div className="review-status">Ничего не найдено</div>;
+
+    return sections.map(section => (
+      <section key={section.letter} className="glossary-section">
+        <h3>{section.letter}</h3>
+        {section.terms.map(term => (
+          <button key={term.path} className="glossary-entry" onClick={() => onOpenNote(term.path)}>
+            <strong>{term.term}</strong>
+            {term.aliases.length > 0 && <span className="glossary-entry-aliases">{term.aliases.join(', ')}</span>}
+            {term.definition && <span className="glossary-entry-definition">{term.definition}</span>}
+          </button>
+        ))}
+      </section>
+    ));
+  };
+
+  return (
+    <div className="replay-screen glossary-screen">
+      <div className="graph-toolbar">
+        <button className="graph-back-btn" onClick={onClose} title="Назад">
+          <ArrowLeft size={20} />
+        </button>
+        <h2>Глоссарий</h2>
+      </div>
+
+      <div className="replay-body">
+        {terms && terms.length > 0 && (
+          <label className="glossary-search">
+            <Search size={16} />
+            <input
+              type="search"
+              value={query}
+              onChange={event => setQuery(event.target.value)}
+              placeholder="Найти термин"
+            />
+          </label>
+        )}
+        {renderBody()}
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryScreen;
@@ -0,0 +1,79 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { BookOpen } from 'lucide-react';
+import { GlossaryTerm as Term } from '../utils/glossary';
+
+interface GlossaryTermProps {
+  term: Term;
+  onOpenNote: (path: string) => void;
+  children: React.ReactNode;
+}
+
+// Space kept between the popover and the edge of the screen
+const VIEWPORT_MARGIN = 8;
+
+/**
+ * A glossary term inside lesson text; tapping it shows the definition
+ */
+const GlossaryTerm: React.FC<GlossaryTermProps> = ({ term, onOpenNote, children }) => {
+  const [open, setOpen] = useState(false);
+  const [shift, setShift] = useState(0);
+  const wrapperRef = useRef<HTMLSpanElement>(null);
+  const popoverRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!wrapperRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpen(false);
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [open]);
+
+  // Keep the popover on screen when the term is near the right edge
+  useLayoutEffect(() => {
+    if (!open || !popoverRef.current) {
+      setShift(0);
+      return;
+    }
+    const rect = popoverRef.current.getBoundingClientRect();
+    const overflow = rect.right - (window.innerWidth - VIEWPORT_MARGIN);
+    if (overflow > 0) setShift(Math.min(overflow, rect.left - VIEWPORT_MARGIN));
+  }, [open]);
+
+  return (
+    <span className="glossary-term-wrapper" ref={wrapperRef}>
+      <button className="glossary-term" onClick={() => setOpen(value => !value)} aria-expanded={open}>
+        {children}
+      </button>
+      {open && (
+        <span
+          className="glossary-popover"
+          role="dialog"
+          ref={popoverRef}
+          style={shift ? { transform: `translateX(-${shift}px)` } : undefined}
+        >
+          <strong>{term.term}</strong>
+          {term.definition && <span className="glossary-popover-definition">{term.definition}</span>}
+          <button
+            className="glossary-popover-link"
+            onClick={() => {
+              setOpen(false);
+              onOpenNote(term.path);
+            }}
+          >
+            <BookOpen size={14} /> Открыть заметку
+          </button>
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default GlossaryTerm;
@@ -0,0 +1,310 @@
+import React, { useMemo, useRef, useState, useCallback } from 'react';
+import { ArrowLeft, Maximize2, ZoomIn, ZoomOut } from 'lucide-react';
+import { AccessLevel, LessonStructure } from '../types';
+import { LessonProgress } from '../services/progressService';
+import { LinkGraph } from '../utils/linkGraph';
+import { layoutGraph } from '../utils/graphLayout';
+import { collectLessons, isLessonCompleted } from '../utils/lessonTree';
+import { FREE_ACCESS, SUBSCRIBER_ACCESS } from '../utils/accessPolicy';
+
+interface GraphViewProps {
+  structure: LessonStructure[];
+  /** null while the link graph is still being built */
+  graph: LinkGraph | null;
+  progress: Record<string, LessonProgress>;
+  getAccessLevel: (path: string, explicit?: AccessLevel) => AccessLevel;
+  isLessonLocked: (path: string, explicit?: AccessLevel) => boolean;
+  onLessonSelect: (lessonPath: string) => void;
+  onClose: () => void;
+}
+
+interface GraphNode {
+  id: string;
+  name: string;
+  group: string;
+  access: AccessLevel;
+  locked: boolean;
+  status: 'completed' | 'started' | 'new';
+  degree: number;
+}
+
+interface Viewport {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+const LAYOUT_SIZE = 1000;
+const MIN_SCALE = 0.3;
+const MAX_SCALE = 4;
+// Pointer travel (px) below which a press on a node counts as a click, not a pan
+const CLICK_TOLERANCE = 5;
+const ALL = '';
+const ROOT_GROUP = '';
+
+const GROUP_COLORS = ['#7c3aed', '#0ea5e9', '#f59e0b', '#10b981', '#ef4444', '#ec4899', '#14b8a6', '#a3a3a3'];
+
+const COMPLETED_STROKE = '#43b581';
+
+const STATUS_OPACITY: Record<GraphNode['status'], number> = {
+  completed: 1,
+  started: 0.7,
+  new: 0.35
+};
+
+const getAccessLabel = (level: AccessLevel) => {
+  if (level === FREE_ACCESS) return 'Бесплатные';
+  if (level === SUBSCRIBER_ACCESS) return 'По подписке';
+  return level;
+};
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+/**
+ * Obsidian-style graph of the course: lessons as nodes, [[links]] as edges.
+ * Colored by top-level folder, filled by completion, filterable by tier and tag.
+ */
+const GraphView: React.FC<GraphViewProps> = ({
+  structure,
+  graph,
+  progress,
+  getAccessLevel,
+  isLessonLocked,
+  onLessonSelect,
+  onClose
+}) => {
+  const [accessFilter, setAccessFilter] = useState<string>(ALL);
+  const [tagFilter, setTagFilter] = useState<string>(ALL);
+  const [viewport, setViewport] = useState<Viewport>({ x: 0, y: 0, scale: 1 });
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ startX: number; startY: number; origin: Viewport; moved: boolean } | null>(null);
+
+  // Lessons grouped by top-level folder; lessons at the root share one group
+  const lessonGroups = useMemo(() => {
+    const result: Array<{ lesson: LessonStructure; group: string }> = [];
+    structure.forEach(top => {
+      if (top.type === 'file') {
+        result.push({ lesson: top, group: ROOT_GROUP });
+        return;
+      }
+      collectLessons(top.children || []).forEach(lesson => result.push({ lesson, group: top.path }));
+    });
+    return result;
+  }, [structure]);
+
+  // Folder colors follow the order of the top-level folders in the tree
+  const groups = useMemo(() => {
+    const result: Array<{ id: string; name: string; color: string }> = [];
+    lessonGroups.forEach(({ group }) => {
+      if (result.some(item => item.id === group)) return;
+      const folder = structure.find(item => item.path === group);
+      result.push({
+        id: group,
+        name: folder ? folder.name : 'Без раздела',
+        color: GROUP_COLORS[result.length % GROUP_COLORS.length]
+      });
+    });
+    return result;
+  }, [lessonGroups, structure]);
+
+  const nodes = useMemo<GraphNode[]>(() => lessonGroups.map(({ lesson, group }) => {
+    const lessonProgress = progress[lesson.path];
+    return {
+      id: lesson.path,
+      name: lesson.name.replace(/\.md$/, ''),
+      group,
+      access: getAccessLevel(lesson.path, lesson.access),
+      locked: isLessonLocked(lesson.path, lesson.access),
+      status: isLessonCompleted(lessonProgress) ? 'completed' : lessonProgress?.completionScore ? 'started' : 'new',
+      degree: (graph?.links[lesson.path]?.length || 0) + (graph?.backlinks[lesson.path]?.length || 0)
+    };
+  }), [lessonGroups, graph, progress, getAccessLevel, isLessonLocked]);
+
+  const edges = useMemo(() => {
+    if (!graph) return [];
+    const seen = new Set<string>();
+    const result: Array<{ source: string; target: string }> = [];
+    Object.entries(graph.links).forEach(([source, targets]) => {
+      targets.forEach(target => {
+        const key = [source, target].sort().join('\n');
+        if (seen.has(key)) return;
+        seen.add(key);
+        result.push({ source, target });
+      });
+    });
+    return result;
+  }, [graph]);
+
+  // Layout depends on the structure and links only, so filters and progress never move nodes
+  const positions = useMemo(() => layoutGraph(
+    lessonGroups.map(({ lesson, group }) => ({ id: lesson.path, group })),
+    edges,
+    { size: LAYOUT_SIZE }
+  ), [lessonGroups, edges]);
+
+  const accessLevels = useMemo(() => Array.from(new Set(nodes.map(node => node.access))), [nodes]);
+  const tags = useMemo(() => {
+    if (!graph) return [];
+    return Array.from(new Set(Object.values(graph.tags).flat())).sort();
+  }, [graph]);
+
+  const visibleIds = useMemo(() => {
+    return new Set(nodes
+      .filter(node => accessFilter === ALL || node.access === accessFilter)
+      .filter(node => tagFilter === ALL || graph?.tags[node.id]?.includes(tagFilter))
+      .map(node => node.id));
+  }, [nodes, graph, accessFilter, tagFilter]);
+
+  const highlightedIds = useMemo(() => {
+    if (!hoveredId || !graph) return null;
+    return new Set([hoveredId, ...(graph.links[hoveredId] || []), ...(graph.backlinks[hoveredId] || [])]);
+  }, [hoveredId, graph]);
+
+  // Screen pixels → layout units at the current zoom
+  const toLayoutUnits = useCallback((pixels: number) => {
+    const width = svgRef.current?.clientWidth || LAYOUT_SIZE;
+    const height = svgRef.current?.clientHeight || LAYOUT_SIZE;
+    return (pixels * LAYOUT_SIZE) / Math.min(width, height);
+  }, []);
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    dragRef.current = { startX: event.clientX, startY: event.clientY, origin: viewport, moved: false };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = event.clientX - drag.startX;
+    const dy = event.clientY - drag.startY;
+    if (!drag.moved && Math.hypot(dx, dy) < CLICK_TOLERANCE) return;
+
+    drag.moved = true;
+    setViewport({ ...drag.origin, x: drag.origin.x + toLayoutUnits(dx), y: drag.origin.y + toLayoutUnits(dy) });
+  };
+
+  const handlePointerUp = () => {
+    // Keep the drag state until the node's click handler has seen it
+    setTimeout(() => {
+      dragRef.current = null;
+    }, 0);
+  };
+
+  const handleWheel = (event: React.WheelEvent<SVGSVGElement>) => {
+    const factor = event.deltaY < 0 ? 1.1 : 1 / 1.1;
+    setViewport(current => ({ ...current, scale: clampScale(current.scale * factor) }));
+  };
+
+  const zoomBy = (factor: number) => {
+    setViewport(current => ({ ...current, scale: clampScale(current.scale * factor) }));
+  };
+
+  const handleNodeClick = (id: string) => {
+    if (dragRef.current?.moved) return;
+    onLessonSelect(id);
+  };
+
+  // Zoom around the center of the layout
+  const transform = `translate(${viewport.x + (LAYOUT_SIZE / 2) * (1 - viewport.scale)} ${viewport.y + (LAYOUT_SIZE / 2) * (1 - viewport.scale)}) scale(${viewport.scale})`;
+
+  return (
+    <div className="graph-view">
+      <div className="graph-toolbar">
+        <button className="graph-back-btn" onClick={onClose} title="Назад">
+          <ArrowLeft size={20} />
+        </button>
+        <h2>Граф знаний</h2>
+        <select value={accessFilter} onChange={event => setAccessFilter(event.target.value)}>
+          <option value={ALL}>Все уровни</option>
+          {accessLevels.map(level => (
+            <option key={level} value={level}>{getAccessLabel(level)}</option>
+          ))}
+        </select>
+        {tags.length > 0 && (
+          <select value={tagFilter} onChange={event => setTagFilter(event.target.value)}>
+            <option value={ALL}>Все теги</option>
+            {tags.map(tag => (
+              <option key={tag} value={tag}>#{tag}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {!graph && <div className="graph-status">Строим граф связей...</div>}
+
+      <svg
+        ref={svgRef}
+        className="graph-canvas"
+        viewBox={`0 0 ${LAYOUT_SIZE} ${LAYOUT_SIZE}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        onWheel={handleWheel}
+      >
+        <g transform={transform}>
+          {edges.map(edge => {
+            if (!visibleIds.has(edge.source) || !visibleIds.has(edge.target)) return null;
+            const a = positions[edge.source];
+            const b = positions[edge.target];
+            const dimmed = highlightedIds && !(highlightedIds.has(edge.source) && highlightedIds.has(edge.target));
+            return (
+              <line
+                key={`${edge.source}\n${edge.target}`}
+                className={`graph-edge ${dimmed ? 'dimmed' : ''}`}
+                x1={a.x}
+                y1={a.y}
+                x2={b.x}
+                y2={b.y}
+              />
+            );
+          })}
+          {nodes.map(node => {
+            if (!visibleIds.has(node.id)) return null;
+            const position = positions[node.id];
+            const color = groups.find(group => group.id === node.group)?.color || GROUP_COLORS[0];
+            const radius = 6 + Math.sqrt(node.degree) * 2;
+            const dimmed = highlightedIds && !highlightedIds.has(node.id);
+            return (
+              <g
+                key={node.id}
+                className={`graph-node ${node.locked ? 'locked' : ''} ${dimmed ? 'dimmed' : ''}`}
+                transform={`translate(${position.x} ${position.y})`}
+                onClick={() => handleNodeClick(node.id)}
+                onPointerEnter={() => setHoveredId(node.id)}
+                onPointerLeave={() => setHoveredId(null)}
+              >
+                <title>{node.locked ? `${node.name} (по подписке)` : node.name}</title>
+                <circle
+                  r={radius}
+                  fill={color}
+                  fillOpacity={STATUS_OPACITY[node.status]}
+                  stroke={node.status === 'completed' ? COMPLETED_STROKE : color}
+                />
+                <text y={radius + 14} className="graph-node-label">{node.name}</text>
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+
+      <div className="graph-zoom-controls">
+        <button onClick={() => zoomBy(1.25)} title="Приблизить"><ZoomIn size={18} /></button>
+        <button onClick={() => zoomBy(0.8)} title="Отдалить"><ZoomOut size={18} /></button>
+        <button onClick={() => setViewport({ x: 0, y: 0, scale: 1 })} title="Показать всё"><Maximize2 size={18} /></button>
+      </div>
+
+      <div className="graph-legend">
+        {groups.map(group => (
+          <span key={group.id} className="graph-legend-item">
+            <span className="graph-legend-dot" style={{ backgroundColor: group.color }} />
+            {group.name}
+          </span>
+        ))}
+        <span className="graph-legend-item muted">Заливка — прогресс, пунктир — по подписке</span>
+      </div>
+    </div>
+  );
+};
+
+export default GraphView;
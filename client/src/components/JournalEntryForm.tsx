@@ -0,0 +1,198 @@
+import React, { useMemo, useState } from 'react';
+import { ImagePlus, X } from 'lucide-react';
+import { LessonStructure } from '../types';
+import { JournalDraft } from '../hooks/useJournal';
+import { journalService } from '../services/journalService';
+import { JOURNAL_EMOTIONS, JournalEntry } from '../utils/journal';
+import { collectLessons } from '../utils/lessonTree';
+import { parseNumber } from '../utils/numberInput';
+import { TradeSide } from '../utils/replay';
+import JournalScreenshot from './JournalScreenshot';
+
+interface JournalEntryFormProps {
+  structure: LessonStructure[];
+  /** Entry being edited; a new entry otherwise */
+  entry?: JournalEntry;
+  onSave: (draft: JournalDraft) => void;
+  onCancel: () => void;
+}
+
+const getLessonName = (path: string) => (path.split('/').pop() || path).replace(/\.md$/, '');
+
+const toText = (value?: number) => (value === undefined ? '' : String(value));
+
+const JournalEntryForm: React.FC<JournalEntryFormProps> = ({ structure, entry, onSave, onCancel }) => {
+  const [instrument, setInstrument] = useState(entry?.instrument || '');
+  const [side, setSide] = useState<TradeSide>(entry?.side || 'long');
+  const [date, setDate] = useState(entry?.date || new Date().toISOString().slice(0, 10));
+  const [entryPrice, setEntryPrice] = useState(toText(entry?.entryPrice));
+  const [exitPrice, setExitPrice] = useState(toText(entry?.exitPrice));
+  const [stop, setStop] = useState(toText(entry?.stop));
+  const [size, setSize] = useState(toText(entry?.size ?? 1));
+  const [emotions, setEmotions] = useState<string[]>(entry?.emotions || []);
+  const [notes, setNotes] = useState(entry?.notes || '');
+  const [lessonPaths, setLessonPaths] = useState<string[]>(entry?.lessonPaths || []);
+  const [screenshots, setScreenshots] = useState<string[]>(entry?.screenshots || []);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const lessons = useMemo(() => collectLessons(structure), [structure]);
+
+  const toggleEmotion = (emotion: string) => {
+    setEmotions(current => current.includes(emotion) ? current.filter(item => item !== emotion) : [...current, emotion]);
+  };
+
+  const handleScreenshots = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setUploading(true);
+    try {
+      const urls = await Promise.all(files.map(file => journalService.uploadScreenshot(file)));
+      setScreenshots(current => [...current, ...urls]);
+    } catch (uploadError) {
+      console.warn('Failed to add screenshot:', uploadError);
+      setError('Не удалось добавить скриншот');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const entryValue = parseNumber(entryPrice);
+    const sizeValue = parseNumber(size);
+    const exitValue = parseNumber(exitPrice);
+    const stopValue = parseNumber(stop);
+
+    if (!instrument.trim()) return setError('Укажите инструмент');
+    if (entryValue === null || entryValue <= 0) return setError('Укажите цену входа');
+    if (sizeValue === null || sizeValue <= 0) return setError('Укажите объём');
+    if (exitPrice.trim() && exitValue === null) return setError('Цена выхода указана неверно');
+    if (stop.trim() && stopValue === null) return setError('Стоп указан неверно');
+
+    onSave({
+      instrument: instrument.trim().toUpperCase(),
+      side,
+      date,
+      entryPrice: entryValue,
+      exitPrice: exitValue ?? undefined,
+      stop: stopValue ?? undefined,
+      size: sizeValue,
+      screenshots,
+      emotions,
+      notes: notes.trim(),
+      lessonPaths
+    });
+  };
+
+  return (
+    <form className="journal-form" onSubmit={handleSubmit}>
+      <div className="journal-form-row">
+        <label>
+          <span>Инструмент</span>
+          <input value={instrument} onChange={event => setInstrument(event.target.value)} placeholder="XAUUSD" />
+        </label>
+        <label>
+          <span>Дата</span>
+          <input type="date" value={date} onChange={event => setDate(event.target.value)} />
+        </label>
+        <div className="fib-calc-direction">
+          <button type="button" className={side === 'long' ? 'active' : ''} onClick={() => setSide('long')}>Лонг</button>
+          <button type="button" className={side === 'short' ? 'active' : ''} onClick={() => setSide('short')}>Шорт</button>
+        </div>
+      </div>
+
+      <div className="journal-form-row">
+        <label>
+          <span>Вход</span>
+          <input inputMode="decimal" value={entryPrice} onChange={event => setEntryPrice(event.target.value)} />
+        </label>
+        <label>
+          <span>Выход <em>(пусто — открыта)</em></span>
+          <input inputMode="decimal" value={exitPrice} onChange={event => setExitPrice(event.target.value)} />
+        </label>
+        <label>
+          <span>Стоп</span>
+          <input inputMode="decimal" value={stop} onChange={event => setStop(event.target.value)} />
+        </label>
+        <label>
+          <span>Объём</span>
+          <input inputMode="decimal" value={size} onChange={event => setSize(event.target.value)} />
+        </label>
+      </div>
+
+      <div className="journal-form-section">
+        <span>Эмоции</span>
+        <div className="journal-chips">
+          {JOURNAL_EMOTIONS.map(emotion => (
+            <button
+              type="button"
+              key={emotion}
+              className={`journal-chip ${emotions.includes(emotion) ? 'active' : ''}`}
+              onClick={() => toggleEmotion(emotion)}
+            >
+              {emotion}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="journal-form-section">
+        <span>Применённые уроки</span>
+        <div className="journal-chips">
+          {lessonPaths.map(path => (
+            <span key={path} className="journal-chip active">
+              {getLessonName(path)}
+              <button type="button" onClick={() => setLessonPaths(current => current.filter(item => item !== path))} title="Убрать">
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+        <select
+          value=""
+          onChange={event => event.target.value && setLessonPaths(current => [...current, event.target.value])}
+        >
+          <option value="">+ Добавить урок</option>
+          {lessons.filter(lesson => !lessonPaths.includes(lesson.path)).map(lesson => (
+            <option key={lesson.path} value={lesson.path}>{lesson.path.replace(/\.md$/, '')}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="journal-form-section">
+        <span>Скриншоты</span>
+        <div className="journal-screenshots">
+          {screenshots.map(url => (
+            <JournalScreenshot key={url} src={url}>
+              <button type="button" onClick={() => setScreenshots(current => current.filter(item => item !== url))} title="Удалить">
+                <X size={12} />
+              </button>
+            </JournalScreenshot>
+          ))}
+          <label className="journal-screenshot-add">
+            <ImagePlus size={20} />
+            {uploading ? 'Загрузка...' : 'Добавить'}
+            <input type="file" accept="image/*" multiple onChange={handleScreenshots} disabled={uploading} hidden />
+          </label>
+        </div>
+      </div>
+
+      <label className="journal-form-section">
+        <span>Заметки</span>
+        <textarea value={notes} onChange={event => setNotes(event.target.value)} rows={4} placeholder="Почему вошёл, что пошло не так, чему научился" />
+      </label>
+
+      {error && <div className="calc-position-error">{error}</div>}
+
+      <div className="journal-form-actions">
+        <button type="submit" className="review-primary-btn" disabled={uploading}>Сохранить</button>
+        <button type="button" className="replay-secondary-btn" onClick={onCancel}>Отмена</button>
+      </div>
+    </form>
+  );
+};
+
+export default JournalEntryForm;
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Download, Pencil, Plus, Trash2 } from 'lucide-react';
+import { LessonStructure } from '../types';
+import { JournalDraft, useJournal } from '../hooks/useJournal';
+import { getTradeResult, isClosedTrade, JournalEntry, JournalStats, journalToCsv } from '../utils/journal';
+import JournalEntryForm from './JournalEntryForm';
+import JournalScreenshot from './JournalScreenshot';
+
+interface JournalScreenProps {
+  structure: LessonStructure[];
+  onOpenLesson: (lessonPath: string) => void;
+  onClose: () => void;
+}
+
+type JournalTab = 'trades' | 'stats';
+
+const getLessonName = (path: string) => (path.split('/').pop() || path).replace(/\.md$/, '');
+const formatNumber = (value: number) => value.toLocaleString('ru-RU', { maximumFractionDigits: 2 });
+const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${formatNumber(value)}`;
+const formatR = (value: number | null) => (value === null ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(2)}R`);
+const resultClass = (value: number) => (value > 0 ? 'positive' : value < 0 ? 'negative' : '');
+
+const downloadCsv = (csv: string) => {
+  // BOM so spreadsheet apps read Cyrillic correctly
+  const blob = new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `trading-journal-${new Date().toISOString().slice(0, 10)}.csv`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const StatsGrid: React.FC<{ stats: JournalStats }> = ({ stats }) => (
+  <div className="replay-stats">
+    <div><span>Закрытых сделок</span><strong>{stats.trades}</strong></div>
+    <div><span>Прибыльных</span><strong>{Math.round(stats.winRate * 100)}%</strong></div>
+    <div><span>Мат. ожидание</span><strong className={resultClass(stats.expectancy)}>{formatSigned(stats.expectancy)}</strong></div>
+    <div><span>Средний R</span><strong className={resultClass(stats.averageR || 0)}>{formatR(stats.averageR)}</strong></div>
+    <div><span>Итого P&amp;L</span><strong className={resultClass(stats.totalPnl)}>{formatSigned(stats.totalPnl)}</strong></div>
+    <div><span>Ср. прибыль / убыток</span><strong>{formatSigned(stats.averageWin)} / {formatSigned(stats.averageLoss)}</strong></div>
+  </div>
+);
+
+/**
+ * Trading journal: the student's trades, tagged with lessons, with stats and CSV export
+ */
+const JournalScreen: React.FC<JournalScreenProps> = ({ structure, onOpenLesson, onClose }) => {
+  const { loading, entries, stats, concepts, saveEntry, deleteEntry } = useJournal();
+  const [tab, setTab] = useState<JournalTab>('trades');
+  // null: list, 'new': empty form, otherwise the id of the entry being edited
+  const [editing, setEditing] = useState<string | null>(null);
+
+  const editedEntry = editing && editing !== 'new' ? entries.find(entry => entry.id === editing) : undefined;
+
+  const handleSave = (draft: JournalDraft) => {
+    saveEntry(draft, editedEntry?.id);
+    setEditing(null);
+  };
+
+  const handleDelete = (entry: JournalEntry) => {
+    if (window.confirm(`Удалить сделку ${entry.instrument} от ${entry.date}?`)) {
+      deleteEntry(entry.id);
+    }
+  };
+
+  const renderEntry = (entry: JournalEntry) => {
+    const result = isClosedTrade(entry) ? getTradeResult(entry) : null;
+    return (
+      <div key={entry.id} className="journal-entry">
+        <div className="journal-entry-header">
+          <strong>{entry.instrument}</strong>
+          <span className={`journal-side ${entry.side}`}>{entry.side === 'long' ? 'Лонг' : 'Шорт'}</span>
+          <span className="journal-entry-date">{entry.date}</span>
+          <button onClick={() => setEditing(entry.id)} title="Изменить"><Pencil size={14} /></button>
+          <button onClick={() => handleDelete(entry)} title="Удалить"><Trash2 size={14} /></button>
+        </div>
+        <div className="journal-entry-prices">
+          {formatNumber(entry.entryPrice)} → {entry.exitPrice !== undefined ? formatNumber(entry.exitPrice) : 'открыта'}
+          {entry.stop !== undefined && <> · стоп {formatNumber(entry.stop)}</>}
+          {' '}· {formatNumber(entry.size)}
+          {result && (
+            <span className={`journal-entry-result ${resultClass(result.pnl)}`}>
+              {formatSigned(result.pnl)} · {formatR(result.rMultiple)}
+            </span>
+          )}
+        </div>
+        {(entry.emotions.length > 0 || entry.lessonPaths.length > 0) && (
+          <div className="journal-chips">
+            {entry.emotions.map(emotion => <span key={emotion} className="journal-chip">{emotion}</span>)}
+            {entry.lessonPaths.map(path => (
+              <button key={path} className="journal-chip lesson" onClick={() => onOpenLesson(path)}>
+                {getLessonName(path)}
+              </button>
+            ))}
+          </div>
+        )}
+        {entry.notes && <p className="journal-entry-notes">{entry.notes}</p>}
+        {entry.screenshots.length > 0 && (
+          <div className="journal-screenshots">
+            {entry.screenshots.map(url => (
+              <JournalScreenshot key={url} src={url} linked />
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderBody = () => {
+    if (loading) return <div className="review-status">Загрузка журнала...</div>;
+    if (editing) {
+      return (
+        <JournalEntryForm
+          key={editing}
+          structure={structure}
+          entry={editedEntry}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      );
+    }
+    if (tab === 'stats') {
+      return (
+        <>
+          <StatsGrid stats={stats} />
+          {concepts.length > 0 && (
+            <table className="replay-trades journal-concepts">
+              <thead>
+                <tr>
+                  <th>Урок</th>
+                  <th>Сделок</th>
+                  <th>Прибыльных</th>
+                  <th>Средний R</th>
+                  <th>P&amp;L</th>
+                </tr>
+              </thead>
+              <tbody>
+                {concepts.map(concept => (
+                  <tr key={concept.lessonPath}>
+                    <td>
+                      <button className="journal-lesson-link" onClick={() => onOpenLesson(concept.lessonPath)}>
+                        {getLessonName(concept.lessonPath)}
+                      </button>
+                    </td>
+                    <td>{concept.trades}</td>
+                    <td>{Math.round(concept.winRate * 100)}%</td>
+                    <td className={resultClass(concept.averageR || 0)}>{formatR(concept.averageR)}</td>
+                    <td className={resultClass(concept.totalPnl)}>{formatSigned(concept.totalPnl)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      );
+    }
+    if (entries.length === 0) {
+      return (
+        <div className="review-done">
+          <h3>Журнал пуст</h3>
+          <p>Записывайте сделки и отмечайте уроки, которые применили.</p>
+          <button className="review-primary-btn" onClick={() => setEditing('new')}>Добавить сделку</button>
+        </div>
+      );
+    }
+    return entries.map(renderEntry);
+  };
+
+  return (
+    <div className="replay-screen journal-screen">
+      <div className="graph-toolbar">
+        <button className="graph-back-btn" onClick={editing ? () => setEditing(null) : onClose} title="Назад">
+          <ArrowLeft size={20} />
+        </button>
+        <h2>Журнал сделок</h2>
+        <button
+          className="graph-back-btn"
+          onClick={() => downloadCsv(journalToCsv(entries, getLessonName))}
+          disabled={entries.length === 0}
+          title="Экспорт в CSV"
+        >
+          <Download size={20} />
+        </button>
+        <button className="graph-back-btn" onClick={() => setEditing('new')} title="Новая сделка">
+          <Plus size={20} />
+        </button>
+      </div>
+
+      {!editing && (
+        <div className="journal-tabs">
+          <button className={tab === 'trades' ? 'active' : ''} onClick={() => setTab('trades')}>Сделки</button>
+          <button className={tab === 'stats' ? 'active' : ''} onClick={() => setTab('stats')}>Статистика</button>
+        </div>
+      )}
+
+      <div className="replay-body">{renderBody()}</div>
+    </div>
+  );
+};
+
+export default JournalScreen;
@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { ImageOff } from 'lucide-react';
+import { screenshotStore } from '../services/screenshotStore';
+
+interface JournalScreenshotProps {
+  /** Uploaded screenshot URL or a reference to one stored on this device */
+  src: string;
+  /** Open the full image in a new tab on tap */
+  linked?: boolean;
+  children?: React.ReactNode;
+}
+
+/**
+ * Journal screenshot thumbnail; local screenshots are read from IndexedDB
+ */
+const JournalScreenshot: React.FC<JournalScreenshotProps> = ({ src, linked = false, children }) => {
+  const isLocal = screenshotStore.isLocal(src);
+  const [localUrl, setLocalUrl] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    if (!isLocal) return;
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    screenshotStore.get(src).then(blob => {
+      if (cancelled) return;
+      if (!blob) {
+        setMissing(true);
+        return;
+      }
+      objectUrl = URL.createObjectURL(blob);
+      setLocalUrl(objectUrl);
+    });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [src, isLocal]);
+
+  const url = isLocal ? localUrl : src;
+
+  if (missing) {
+    return (
+      <div className="journal-screenshot missing" title="Скриншот сохранён на другом устройстве">
+        <ImageOff size={20} />
+        {children}
+      </div>
+    );
+  }
+
+  const image = url ? <img src={url} alt="" /> : null;
+
+  return linked && url ? (
+    <a className="journal-screenshot" href={url} target="_blank" rel="noopener noreferrer">
+      {image}
+    </a>
+  ) : (
+    <div className="journal-screenshot">
+      {image}
+      {children}
+    </div>
+  );
+};
+
+export default JournalScreenshot;
@@ -0,0 +1,234 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { StickyNote } from 'lucide-react';
+import { useAnnotations } from '../hooks/useAnnotations';
+import { createQuoteSelector, findQuote, formatQuote, HighlightColor, TextQuoteSelector } from '../utils/annotations';
+import { buildTextIndex, createTextRange, getRangePosition } from '../utils/textRange';
+import { copyText } from '../utils/clipboard';
+import AnnotationToolbar from './AnnotationToolbar';
+
+interface LessonAnnotationsProps {
+  /** The rendered lesson text; the layer is drawn inside it */
+  containerRef: React.RefObject<HTMLDivElement | null>;
+  lessonPath: string;
+  lessonTitle: string;
+}
+
+interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+type ToolbarTarget =
+  | { kind: 'selection'; selector: TextQuoteSelector; x: number; y: number; below: boolean }
+  | { kind: 'annotation'; id: string; x: number; y: number; below: boolean };
+
+// Room the toolbar needs above its anchor, and half its width
+const TOOLBAR_SPACE = 56;
+const TOOLBAR_HALF_WIDTH = 130;
+// Let embeds, charts and images settle before measuring again
+const RELAYOUT_DELAY = 150;
+
+/**
+ * Highlights over the lesson text and the toolbar for selected text.
+ * Highlights are boxes drawn under the text, so the rendered markdown is never touched.
+ */
+const LessonAnnotations: React.FC<LessonAnnotationsProps> = ({ containerRef, lessonPath, lessonTitle }) => {
+  const { annotations, addAnnotation, updateAnnotation, deleteAnnotation } = useAnnotations(lessonPath);
+  const [boxes, setBoxes] = useState<Record<string, Box[]>>({});
+  const [toolbar, setToolbar] = useState<ToolbarTarget | null>(null);
+  const [layoutVersion, setLayoutVersion] = useState(0);
+
+  // Box of a DOM rect in the container's coordinates
+  const toBox = useCallback((rect: DOMRect): Box => {
+    const origin = containerRef.current?.getBoundingClientRect();
+    return {
+      left: rect.left - (origin?.left || 0),
+      top: rect.top - (origin?.top || 0),
+      width: rect.width,
+      height: rect.height
+    };
+  }, [containerRef]);
+
+  // Re-measure when the lesson re-renders or changes size
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const schedule = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => setLayoutVersion(version => version + 1), RELAYOUT_DELAY);
+    };
+    // Drawing the layer itself must not trigger another measurement
+    const isIgnored = (node: Node) =>
+      Boolean((node instanceof Element ? node : node.parentElement)?.closest('[data-annotation-ignore]'));
+    const mutations = new MutationObserver(records => {
+      if (records.some(record => !isIgnored(record.target))) schedule();
+    });
+    mutations.observe(container, { childList: true, subtree: true, characterData: true });
+    const resize = new ResizeObserver(schedule);
+    resize.observe(container);
+
+    return () => {
+      clearTimeout(timer);
+      mutations.disconnect();
+      resize.disconnect();
+    };
+  }, [containerRef]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const index = buildTextIndex(container);
+    const result: Record<string, Box[]> = {};
+    annotations.forEach(annotation => {
+      const position = findQuote(index.text, annotation.selector);
+      const range = position && createTextRange(index, position.start, position.end);
+      if (range) {
+        result[annotation.id] = Array.from(range.getClientRects())
+          .filter(rect => rect.width > 0 && rect.height > 0)
+          .map(toBox);
+      }
+    });
+    setBoxes(result);
+  }, [annotations, containerRef, toBox, layoutVersion]);
+
+  const placeToolbar = useCallback((rect: DOMRect | Box) => {
+    const box = rect instanceof DOMRect ? toBox(rect) : rect;
+    const below = box.top < TOOLBAR_SPACE;
+    const width = containerRef.current?.clientWidth || 0;
+    const center = box.left + box.width / 2;
+    const x = width > TOOLBAR_HALF_WIDTH * 2
+      ? Math.min(width - TOOLBAR_HALF_WIDTH, Math.max(TOOLBAR_HALF_WIDTH, center))
+      : center;
+    return { x, y: below ? box.top + box.height : box.top, below };
+  }, [containerRef, toBox]);
+
+  // A text selection inside the lesson opens the toolbar
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      // Typing a note moves the focus (and the selection) into the toolbar
+      if (document.activeElement?.closest('.annotation-toolbar')) return;
+      const container = containerRef.current;
+      const selection = window.getSelection();
+      if (!container || !selection || selection.rangeCount === 0 || selection.isCollapsed) {
+        setToolbar(current => (current?.kind === 'selection' ? null : current));
+        return;
+      }
+
+      const range = selection.getRangeAt(0);
+      if (!container.contains(range.commonAncestorContainer)) return;
+      const index = buildTextIndex(container);
+      const position = getRangePosition(index, range);
+      if (!position || !index.text.slice(position.start, position.end).trim()) return;
+
+      setToolbar({
+        kind: 'selection',
+        selector: createQuoteSelector(index.text, position.start, position.end),
+        ...placeToolbar(range.getBoundingClientRect())
+      });
+    };
+
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, [containerRef, placeToolbar]);
+
+  // Tapping a highlight opens it; tapping elsewhere closes the toolbar
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleClick = (event: MouseEvent) => {
+      const target = event.target as Element;
+      if (target.closest('[data-annotation-ignore]') || !window.getSelection()?.isCollapsed) return;
+      if (target.closest('a, button, input, textarea, select')) return;
+
+      const origin = container.getBoundingClientRect();
+      const x = event.clientX - origin.left;
+      const y = event.clientY - origin.top;
+      const hit = Object.entries(boxes).find(([, list]) => list.some(box =>
+        x >= box.left && x <= box.left + box.width && y >= box.top && y <= box.top + box.height));
+
+      setToolbar(hit ? { kind: 'annotation', id: hit[0], ...placeToolbar(hit[1][0]) } : null);
+    };
+
+    container.addEventListener('click', handleClick);
+    return () => container.removeEventListener('click', handleClick);
+  }, [containerRef, boxes, placeToolbar]);
+
+  useEffect(() => {
+    setToolbar(null);
+  }, [lessonPath]);
+
+  const active = toolbar?.kind === 'annotation' ? annotations.find(item => item.id === toolbar.id) : undefined;
+
+  const close = () => {
+    window.getSelection()?.removeAllRanges();
+    setToolbar(null);
+  };
+
+  const handleColor = (color: HighlightColor) => {
+    if (toolbar?.kind === 'selection') addAnnotation(lessonPath, toolbar.selector, color);
+    if (active) updateAnnotation(active.id, { color });
+    close();
+  };
+
+  const handleSaveNote = (note: string) => {
+    if (toolbar?.kind === 'selection') addAnnotation(lessonPath, toolbar.selector, 'yellow', note);
+    if (active) updateAnnotation(active.id, { note });
+    close();
+  };
+
+  const handleCopy = () => {
+    const exact = toolbar?.kind === 'selection' ? toolbar.selector.exact : active?.selector.exact;
+    if (!exact) return;
+    copyText(formatQuote(exact, lessonTitle)).catch(error => console.error('Failed to copy quote:', error));
+  };
+
+  return (
+    <div className="annotation-layer" data-annotation-ignore>
+      {annotations.map(annotation => {
+        const list = boxes[annotation.id];
+        if (!list || list.length === 0) return null;
+        const last = list[list.length - 1];
+        return (
+          <React.Fragment key={annotation.id}>
+            {list.map((box, index) => (
+              <div key={index} className={`annotation-highlight ${annotation.color}`} style={box} />
+            ))}
+            {annotation.note && (
+              <StickyNote
+                className="annotation-note-marker"
+                size={12}
+                style={{ left: last.left + last.width, top: last.top - 6 }}
+              />
+            )}
+          </React.Fragment>
+        );
+      })}
+
+      {toolbar && (toolbar.kind === 'selection' || active) && (
+        <AnnotationToolbar
+          key={toolbar.kind === 'annotation' ? toolbar.id : 'selection'}
+          x={toolbar.x}
+          y={toolbar.y}
+          below={toolbar.below}
+          color={active?.color}
+          note={active?.note}
+          onColor={handleColor}
+          onSaveNote={handleSaveNote}
+          onCopy={handleCopy}
+          onDelete={active ? () => {
+            deleteAnnotation(active.id);
+            setToolbar(null);
+          } : undefined}
+        />
+      )}
+    </div>
+  );
+};
+
+export default LessonAnnotations;
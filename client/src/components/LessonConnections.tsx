@@ -0,0 +1,61 @@
+import React, { memo } from 'react';
+import { FileText, Link2, Lock, Sparkles } from 'lucide-react';
+import { LessonConnections as Connections, LessonLink } from '../types';
+
+interface LessonConnectionsProps {
+  connections: Connections;
+  onSelect: (lessonPath: string) => void;
+}
+
+const LinkList: React.FC<{ links: LessonLink[]; onSelect: (lessonPath: string) => void }> = ({ links, onSelect }) => (
+  <ul className="lesson-connections-list">
+    {links.map(link => (
+      <li key={link.path}>
+        <button
+          className={`lesson-connection ${link.locked ? 'locked' : ''}`}
+          onClick={() => onSelect(link.path)}
+          title={link.locked ? 'Доступно по подписке' : link.name}
+        >
+          {link.locked ? <Lock size={16} /> : <FileText size={16} />}
+          <span>{link.name}</span>
+        </button>
+      </li>
+    ))}
+  </ul>
+);
+
+/**
+ * End-of-lesson panel: lessons linking here and lessons connected by links or tags.
+ * Locked lessons stay listed with a lock and open as a paywall preview.
+ */
+const LessonConnections: React.FC<LessonConnectionsProps> = memo(({ connections, onSelect }) => {
+  const { backlinks, related } = connections;
+  if (backlinks.length === 0 && related.length === 0) return null;
+
+  return (
+    <section className="lesson-connections">
+      {backlinks.length > 0 && (
+        <div className="lesson-connections-group">
+          <h3>
+            <Link2 size={18} />
+            Ссылается на этот урок
+          </h3>
+          <LinkList links={backlinks} onSelect={onSelect} />
+        </div>
+      )}
+      {related.length > 0 && (
+        <div className="lesson-connections-group">
+          <h3>
+            <Sparkles size={18} />
+            Related lessons
+          </h3>
+          <LinkList links={related} onSelect={onSelect} />
+        </div>
+      )}
+    </section>
+  );
+});
+
+LessonConnections.displayName = 'LessonConnections';
+
+export default LessonConnections;
@@ -0,0 +1,49 @@
+import React, { Suspense, useEffect } from 'react';
+import { Lock } from 'lucide-react';
+import { Lesson } from '../types';
+import { progressService } from '../services/progressService';
+
+const SubscriptionCheck = React.lazy(() => import('./SubscriptionCheck'));
+
+interface LessonPaywallProps {
+  lesson: Lesson;
+  onSubscriptionVerified: () => void;
+}
+
+/**
+ * End of a locked lesson preview: fade over the excerpt, the lesson outline
+ * and the inline subscription check
+ */
+const LessonPaywall: React.FC<LessonPaywallProps> = ({ lesson, onSubscriptionVerified }) => {
+  const headings = lesson.preview?.headings || [];
+
+  useEffect(() => {
+    progressService.trackEvent('paywall_view', lesson.path);
+  }, [lesson.path]);
+
+  return (
+    <div className="lesson-paywall">
+      <div className="lesson-paywall-fade" />
+
+      {headings.length > 0 && (
+        <div className="lesson-paywall-outline">
+          <h3>Содержание урока</h3>
+          <ul>
+            {headings.map((heading, index) => (
+              <li key={index} style={{ paddingLeft: `${(heading.level - 1) * 12}px` }}>
+                <Lock size={12} />
+                <span>{heading.text}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <Suspense fallback={<div className="loading-text">Загрузка...</div>}>
+        <SubscriptionCheck inline onSubscriptionVerified={onSubscriptionVerified} />
+      </Suspense>
+    </div>
+  );
+};
+
+export default LessonPaywall;
@@ -1,21 +1,119 @@
 import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import { ArrowLeft, ArrowRight, Menu } from 'lucide-react';
-import { Lesson } from '../types';
+import type { PluggableList } from 'unified';
+import { ArrowLeft, ArrowRight, Menu, Link2, Check, List } from 'lucide-react';
+import { Lesson, LessonConnections as Connections, ScrollAnchor } from '../types';
+import { lessonService } from '../services/lessonService';
+import { buildStartAppLink } from '../utils/startParam';
+import { copyText } from '../utils/clipboard';
+import { buildRouteUrl } from '../utils/routing';
+import { extractToc, remarkHeadingIds } from '../utils/remarkHeadingIds';
+import { blockAnchorId, remarkObsidian, TAG_LINK_PREFIX } from '../utils/remarkObsidian';
+import {
+  EMBED_LINK_PREFIX, INTERNAL_LINK_PREFIX, formatWikilinkReference, getWikilinkLabel,
+  isImageWikilink, parseWikilink, Wikilink
+} from '../utils/wikilink';
+import { slugifyHeading } from '../utils/headingSlug';
+import { ReplayScenario } from '../utils/replay';
+import { GlossaryTerm as Term } from '../utils/glossary';
+import { GLOSSARY_LINK_PREFIX, remarkGlossary } from '../utils/remarkGlossary';
 import { useProgressTrackingSimple as useProgressTracking } from '../hooks/useProgressTrackingSimple';
+import { useCachedImageSrc } from '../hooks/useCachedImageSrc';
+import { useScrollSpy } from '../hooks/useScrollSpy';
+import { useQuizProgress } from '../hooks/useQuizProgress';
+import { ChartPalette } from '../hooks/useThemeManager';
 import MarkdownImageProcessor from './MarkdownImageProcessor';
+import LessonPaywall from './LessonPaywall';
+import TableOfContents from './TableOfContents';
+import Callout from './Callout';
+import NoteEmbed, { NoteEmbedContext } from './NoteEmbed';
+import LessonConnections from './LessonConnections';
+import QuizBlock from './QuizBlock';
+import CardsBlock from './CardsBlock';
+import PositionCalculator from './PositionCalculator';
+import FibCalculator from './FibCalculator';
+import ChartBlock from './ChartBlock';
+import ReplayBlock from './ReplayBlock';
+import GlossaryTerm from './GlossaryTerm';
+import LessonAnnotations from './LessonAnnotations';
 
 interface LessonViewerProps {
   lesson: Lesson;
-  onNavigateToLesson?: (lessonPath: string) => void;
+  onNavigateToLesson?: (lessonPath: string, scrollAnchor?: ScrollAnchor, heading?: string) => void;
   nextLessonPath?: string | null;
   prevLessonPath?: string | null;
   onSidebarToggle?: () => void;
-  isSubscribed?: boolean;
-  onSubscriptionRequired?: () => void;
+  onSubscriptionVerified?: () => void;
+  onTagSelect?: (tag: string) => void;
+  /** Backlinks and related lessons; null until the link graph is built */
+  connections?: Connections | null;
+  /** Colors for ```chart blocks, following the app theme */
+  chartPalette: ChartPalette;
+  onStartReplay?: (scenario: ReplayScenario) => void;
+  /** Terms whose first mention in the lesson shows a definition */
+  glossary?: Term[];
+  /** Whether a lesson is locked for the reader; locked notes are not embedded */
+  isLessonLocked?: (lessonPath: string) => boolean;
 }
 
+const isNeverLocked = () => false;
+
+const REMARK_PLUGINS = [...remarkObsidian, remarkHeadingIds];
+// Fenced blocks rendered as interactive widgets instead of code
+const WIDGET_LANGUAGES = new Set(['quiz', 'cards', 'calc-position', 'fib', 'chart', 'replay']);
+// Embedded notes get no heading ids: they would clash with the host lesson's table of contents
+const EMBED_REMARK_PLUGINS = remarkObsidian;
+
+/**
+ * Turn Obsidian wikilinks into markdown links and images.
+ * `notePath` is the note the content comes from, so [[#Heading]] links inside
+ * an embedded note point back at that note.
+ */
+const processObsidianLinks = (content: string, notePath?: string) => {
+  const noteName = notePath?.split('/').pop()?.replace(/\.md$/, '');
+  const toHref = (prefix: string, raw: string) => {
+    const link = parseWikilink(raw);
+    if (!link.target && noteName) link.target = noteName;
+    return `${prefix}${encodeURIComponent(formatWikilinkReference(link))}`;
+  };
+  // ![[chart.png|300]] sets the width in Obsidian; only a textual alias makes a useful alt
+  const toImage = (link: Wikilink) => {
+    const alt = link.alias && !/^\d+(x\d+)?$/.test(link.alias) ? link.alias : link.target;
+    return `![${alt}](${lessonService.getImageUrl(link.target)})`;
+  };
+
+  // First, replace <br> tags with double line breaks for better spacing
+  let processedContent = content.replace(/<br\s*\/?>/gi, '\n\n&nbsp;\n\n');
+
+  // Then, process embeds ![[Image.png]] and ![[Note]]
+  processedContent = processedContent.replace(/!\[\[([^\]]+)\]\]/g, (match, linkText) => {
+    const link = parseWikilink(linkText);
+
+    if (isImageWikilink(link)) {
+      return toImage(link);
+    }
+
+    // Notes are transcluded by remarkObsidianEmbeds + NoteEmbed
+    return `[${getWikilinkLabel(link)}](${toHref(EMBED_LINK_PREFIX, linkText)})`;
+  });
+
+  // Then, process regular internal links [[Link Name]], [[Note#Heading|Alias]]
+  processedContent = processedContent.replace(/\[\[([^\]]+)\]\]/g, (match, linkText) => {
+    const link = parseWikilink(linkText);
+
+    // Check if it's an image (has image extension)
+    if (isImageWikilink(link)) {
+      return toImage(link);
+    }
+
+    // Create a clickable link that could trigger navigation to another lesson
+    return `[${getWikilinkLabel(link)}](${toHref(INTERNAL_LINK_PREFIX, linkText)})`;
+  });
+
+  return processedContent;
+};
+
 // Image cache to prevent reloading
 const imageCache = new Set<string>();
 
@@ -29,6 +127,7 @@ interface LazyImageProps {
 
 const LazyImage: React.FC<LazyImageProps> = ({ src, alt, className, style }) => {
   const [error, setError] = useState(false);
+  const resolvedSrc = useCachedImageSrc(src);
 
   const handleLoad = () => {
     imageCache.add(src);
@@ -76,86 +175,62 @@ const LazyImage: React.FC<LazyImageProps> = ({ src, alt, className, style }) =>
         ...style
       }}
     >      
-      <img
-        src={src}
-        alt={alt}
-        onLoad={handleLoad}
-        onError={handleError}
-        style={{
-          maxWidth: '100%',
-          height: 'auto',
-          borderRadius: '8px',
-          display: 'block'
-        }}
-      />
+      {resolvedSrc && (
+        <img
+          src={resolvedSrc}
+          alt={alt}
+          onLoad={handleLoad}
+          onError={handleError}
+          style={{
+            maxWidth: '100%',
+            height: 'auto',
+            borderRadius: '8px',
+            display: 'block'
+          }}
+        />
+      )}
     </div>
   );
 };
 
-const LessonViewer: React.FC<LessonViewerProps> = React.memo(({ lesson, onNavigateToLesson, nextLessonPath, prevLessonPath, onSidebarToggle, isSubscribed, onSubscriptionRequired }) => {
-  const { updateScrollProgress } = useProgressTracking(lesson);
+const LessonViewer: React.FC<LessonViewerProps> = React.memo(({ lesson, onNavigateToLesson, nextLessonPath, prevLessonPath, onSidebarToggle, onSubscriptionVerified, onTagSelect, connections, chartPalette, onStartReplay, glossary, isLessonLocked }) => {
+  // Previews are not reading sessions
+  const { updateScrollProgress } = useProgressTracking(lesson.preview ? null : lesson);
+  const { recordAnswer } = useQuizProgress(lesson.preview ? null : lesson);
   const lessonViewerRef = useRef<HTMLDivElement>(null);
+  const lessonContentRef = useRef<HTMLDivElement>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [tocOpen, setTocOpen] = useState(false);
 
-  // Check if a lesson is premium/requires subscription
-  const isPremiumLesson = useCallback((lessonPath: string) => {
-    return lessonPath.includes('Средний уровень (Подписка)') || lessonPath.includes('🎓');
-  }, []);
-
-  // Enhanced navigation handler with subscription check
+  // Locked targets open as a paywall preview, so no access check is needed here
   const handleNavigateToLesson = useCallback((lessonPath: string) => {
-    if (isPremiumLesson(lessonPath) && !isSubscribed) {
-      onSubscriptionRequired?.();
-      return;
-    }
     onNavigateToLesson?.(lessonPath);
-  }, [isPremiumLesson, isSubscribed, onSubscriptionRequired, onNavigateToLesson]);
+  }, [onNavigateToLesson]);
+
 
+  const lessonTitle = lesson.frontmatter?.title || lesson.title || lesson.path.split('/').pop()?.replace(/\.md$/, '') || '';
 
   // Memoized process Obsidian-style internal links [[Link Name]] and images
-  const processedContent = useMemo(() => {
-    const processObsidianLinks = (content: string) => {
-      // First, replace <br> tags with double line breaks for better spacing
-      let processedContent = content.replace(/<br\s*\/?>/gi, '\n\n&nbsp;\n\n');
-      
-      // Then, process image links ![[Image.png]] format
-      processedContent = processedContent.replace(/!\[\[([^\]]+)\]\]/g, (match, linkText) => {
-        const cleanLinkText = linkText.trim();
-
-        // This is definitely an image since it uses ![[]] syntax
-        if (cleanLinkText.match(/\.(png|jpg|jpeg|gif|webp|svg)$/i)) {
-          const filename = cleanLinkText;
-          const apiUrl = process.env.REACT_APP_API_URL || '';
-          const encodedFilename = encodeURIComponent(filename);
-
-          return `![${cleanLinkText}](${apiUrl}/api/image/${encodedFilename})`;
-        }
-        
-        // If it's not an image, treat as regular link
-        return `[${cleanLinkText}](#internal-link-${encodeURIComponent(cleanLinkText)})`;
-      });
-      
-      // Then, process regular internal links [[Link Name]]
-      processedContent = processedContent.replace(/\[\[([^\]]+)\]\]/g, (match, linkText) => {
-        const cleanLinkText = linkText.trim();
-
-        // Check if it's an image (has image extension)
-        if (cleanLinkText.match(/\.(png|jpg|jpeg|gif|webp|svg)$/i)) {
-          const filename = cleanLinkText;
-          const apiUrl = process.env.REACT_APP_API_URL || '';
-          const encodedFilename = encodeURIComponent(filename);
-
-          return `![${cleanLinkText}](${apiUrl}/api/image/${encodedFilename})`;
-        }
-        
-        // Create a clickable link that could trigger navigation to another lesson
-        return `[${cleanLinkText}](#internal-link-${encodeURIComponent(cleanLinkText)})`;
-      });
-      
-      return processedContent;
-    };
+  const processedContent = useMemo(() => processObsidianLinks(lesson.content), [lesson.content]);
 
-    return processObsidianLinks(lesson.content);
-  }, [lesson.content]);
+  const remarkPlugins = useMemo<PluggableList>(() => (glossary && glossary.length > 0
+    ? [...REMARK_PLUGINS, [remarkGlossary, { terms: glossary, notePath: lesson.path }]]
+    : REMARK_PLUGINS), [glossary, lesson.path]);
+  const glossaryTerms = useMemo(() => new Map((glossary || []).map(term => [term.path, term])), [glossary]);
+
+  // Table of contents: same AST walk as remarkHeadingIds, so ids match the rendered headings
+  const tocItems = useMemo(() => extractToc(processedContent), [processedContent]);
+  const tocIds = useMemo(() => tocItems.map(item => item.id), [tocItems]);
+  const activeHeadingId = useScrollSpy(lessonViewerRef, tocIds);
+
+  const handleTocSelect = useCallback((id: string) => {
+    document.getElementById(id)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    setTocOpen(false);
+  }, []);
+
+  useEffect(() => {
+    setTocOpen(false);
+  }, [lesson.path]);
 
   // Determine if this is a sub-file (checklist, settings, etc.) and find parent lesson
   const isSubFile = useMemo(() => {
@@ -188,26 +263,59 @@ const LessonViewer: React.FC<LessonViewerProps> = React.memo(({ lesson, onNaviga
     return possibleMainFiles[0];
   }, [isSubFile, lesson.path]);
 
-  const handleInternalLink = useCallback(async (href: string) => {
-    if (href.startsWith('#internal-link-')) {
-      const linkText = decodeURIComponent(href.replace('#internal-link-', ''));
-      
-      try {
-        const apiUrl = process.env.REACT_APP_API_URL || '';
-        const response = await fetch(`${apiUrl}/api/lessons/resolve?name=${encodeURIComponent(linkText)}`);
-        const data = await response.json();
-        
-        if (data.found) {
-          handleNavigateToLesson(data.path);
-        } else {
-          // Could show a toast or notification here
-          console.warn('Internal link not found:', linkText);
-        }
-      } catch (error) {
-        console.error('Failed to resolve internal link:', error);
+  // Open a wikilink reference (Note, Note#Heading, Note#^block or #Heading)
+  const openReference = useCallback(async (reference: string) => {
+    const link = parseWikilink(reference);
+    const section = link.blockId ? blockAnchorId(link.blockId) : link.heading;
+
+    if (!link.target) {
+      if (section) {
+        const target = document.getElementById(section) || document.getElementById(slugifyHeading(section));
+        target?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+      }
+      return;
+    }
+
+    try {
+      const resolvedPath = await lessonService.resolveLessonPath(link.target);
+
+      if (resolvedPath) {
+        onNavigateToLesson?.(resolvedPath, undefined, section);
+      } else {
+        // Could show a toast or notification here
+        console.warn('Internal link not found:', link.target);
       }
+    } catch (error) {
+      console.error('Failed to resolve internal link:', error);
     }
-  }, [handleNavigateToLesson]);
+  }, [onNavigateToLesson]);
+
+  const handleInternalLink = useCallback((href: string) => {
+    const prefix = href.startsWith(EMBED_LINK_PREFIX) ? EMBED_LINK_PREFIX : INTERNAL_LINK_PREFIX;
+    openReference(decodeURIComponent(href.slice(prefix.length)));
+  }, [openReference]);
+
+  // Copy a t.me deep link to this lesson. A slug too long for a start parameter falls back
+  // to the lesson id, and to the web URL when there is neither a short link nor a bot.
+  const handleCopyShareLink = useCallback(async () => {
+    const slug = (lesson.path.split('/').pop() || lesson.path).replace(/\.md$/, '');
+    const shareLink = buildStartAppLink({ target: { kind: 'slug', value: slug } }) ||
+      (lesson.id && buildStartAppLink({ target: { kind: 'id', value: lesson.id } })) ||
+      `${window.location.origin}${buildRouteUrl({ name: 'lesson', path: lesson.path })}`;
+
+    try {
+      await copyText(shareLink);
+      setLinkCopied(true);
+    } catch (error) {
+      console.error('Failed to copy share link:', error);
+    }
+  }, [lesson.path, lesson.id]);
+
+  useEffect(() => {
+    if (!linkCopied) return;
+    const timer = setTimeout(() => setLinkCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [linkCopied]);
 
   // Set up scroll tracking
   useEffect(() => {
@@ -231,8 +339,34 @@ const LessonViewer: React.FC<LessonViewerProps> = React.memo(({ lesson, onNaviga
 
   // Memoized markdown components
   const markdownComponents = useMemo(() => ({
+    pre({ children, node, ...props }: any) {
+      // Widgets render their own container, not a code block
+      const language = /language-([\w-]+)/.exec(node?.children?.[0]?.properties?.className?.join(' ') || '');
+      if (language && WIDGET_LANGUAGES.has(language[1])) {
+        return <>{children}</>;
+      }
+      return <pre {...props}>{children}</pre>;
+    },
     code({ className, children, ...props }: any) {
-      const match = /language-(\w+)/.exec(className || '');
+      const match = /language-([\w-]+)/.exec(className || '');
+      if (match?.[1] === 'quiz') {
+        return <QuizBlock source={String(children)} onAnswer={recordAnswer} />;
+      }
+      if (match?.[1] === 'cards') {
+        return <CardsBlock source={String(children)} />;
+      }
+      if (match?.[1] === 'calc-position') {
+        return <PositionCalculator source={String(children)} />;
+      }
+      if (match?.[1] === 'fib') {
+        return <FibCalculator source={String(children)} />;
+      }
+      if (match?.[1] === 'chart') {
+        return <ChartBlock source={String(children)} palette={chartPalette} lessonPath={lesson.path} />;
+      }
+      if (match?.[1] === 'replay') {
+        return <ReplayBlock source={String(children)} lessonPath={lesson.path} onStart={onStartReplay} />;
+      }
       return match ? (
         <SyntaxHighlighter
           style={oneDark as any}
@@ -248,7 +382,27 @@ const LessonViewer: React.FC<LessonViewerProps> = React.memo(({ lesson, onNaviga
       );
     },
     a({ href, children, ...props }: any) {
-      if (href?.startsWith('#internal-link-')) {
+      if (href?.startsWith(GLOSSARY_LINK_PREFIX)) {
+        const term = glossaryTerms.get(decodeURIComponent(href.slice(GLOSSARY_LINK_PREFIX.length)));
+        return term ? <GlossaryTerm term={term} onOpenNote={handleNavigateToLesson}>{children}</GlossaryTerm> : <>{children}</>;
+      }
+      if (href?.startsWith(TAG_LINK_PREFIX)) {
+        const tag = decodeURIComponent(href.slice(TAG_LINK_PREFIX.length));
+        return (
+          <a
+            href={href}
+            {...props}
+            onClick={(e) => {
+              e.preventDefault();
+              onTagSelect?.(tag);
+            }}
+          >
+            {children}
+          </a>
+        );
+      }
+      // Embeds that share a paragraph with other text stay plain links
+      if (href?.startsWith(INTERNAL_LINK_PREFIX) || href?.startsWith(EMBED_LINK_PREFIX)) {
         return (
           <a
             href={href}
@@ -292,6 +446,23 @@ const LessonViewer: React.FC<LessonViewerProps> = React.memo(({ lesson, onNaviga
     h6({ children, ...props }: any) {
       return <h6 className="lesson-h6" {...props}>{children}</h6>;
     },
+    div({ children, node, ...props }: any) {
+      if (props['data-embed']) {
+        return <NoteEmbed reference={props['data-embed']} />;
+      }
+      if (props['data-callout']) {
+        return (
+          <Callout
+            type={props['data-callout']}
+            fold={props['data-callout-fold']}
+            title={props['data-callout-title']}
+          >
+            {children}
+          </Callout>
+        );
+      }
+      return <div {...props}>{children}</div>;
+    },
     blockquote({ children, ...props }: any) {
       return <blockquote className="lesson-blockquote" {...props}>{children}</blockquote>;
     },
@@ -344,20 +515,55 @@ const LessonViewer: React.FC<LessonViewerProps> = React.memo(({ lesson, onNaviga
     br({ ...props }: any) {
       return <br className="lesson-br" {...props} />;
     },
-  }), [handleInternalLink]);
+  }), [handleInternalLink, onTagSelect, recordAnswer, chartPalette, lesson.path, onStartReplay, glossaryTerms, handleNavigateToLesson]);
+
+  // Transcluded notes render through the same markdown pipeline, one level deeper.
+  // The ancestor chain is memoised on its own: embeds reload whenever it changes.
+  const embedAncestors = useMemo(() => [lesson.path], [lesson.path]);
+  const embedContext = useMemo(() => ({
+    ancestors: embedAncestors,
+    renderContent: (content: string, notePath: string) => (
+      <MarkdownImageProcessor
+        content={processObsidianLinks(content, notePath)}
+        components={markdownComponents}
+        remarkPlugins={EMBED_REMARK_PLUGINS}
+        minGroupSize={2}
+        collageMaxHeight={400}
+        showCaptions={false}
+      />
+    ),
+    openReference,
+    isLocked: isLessonLocked || isNeverLocked
+  }), [embedAncestors, markdownComponents, openReference, isLessonLocked]);
 
   return (
     <div className="lesson-viewer" ref={lessonViewerRef}>
-      <div className="lesson-content">
-        <MarkdownImageProcessor
-          content={processedContent}
-          components={markdownComponents}
-          minGroupSize={2}
-          collageMaxHeight={400}
-          showCaptions={false}
-        />
+      {lesson.preview && !lesson.content.trim() && (
+        <h1 className="lesson-h1">{lessonTitle}</h1>
+      )}
+      <div className={`lesson-content ${lesson.preview ? 'preview' : ''}`} ref={lessonContentRef}>
+        <NoteEmbedContext.Provider value={embedContext}>
+          <MarkdownImageProcessor
+            content={processedContent}
+            components={markdownComponents}
+            remarkPlugins={remarkPlugins}
+            minGroupSize={2}
+            collageMaxHeight={400}
+            showCaptions={false}
+          />
+        </NoteEmbedContext.Provider>
+        {!lesson.preview && (
+          <LessonAnnotations containerRef={lessonContentRef} lessonPath={lesson.path} lessonTitle={lessonTitle} />
+        )}
       </div>
 
+      {!lesson.preview && connections && (
+        <LessonConnections connections={connections} onSelect={handleNavigateToLesson} />
+      )}
+
+      {lesson.preview && onSubscriptionVerified && (
+        <LessonPaywall lesson={lesson} onSubscriptionVerified={onSubscriptionVerified} />
+      )}
 
       {/* Back to Main Lesson Button (for sub-files like checklists) */}
       {isSubFile && parentLessonPath && (
@@ -394,6 +600,35 @@ const LessonViewer: React.FC<LessonViewerProps> = React.memo(({ lesson, onNaviga
         )}
       </div>
 
+      {/* Table of Contents */}
+      {tocItems.length > 1 && !lesson.preview && (
+        <>
+          <button
+            className={`floating-toc-btn ${tocOpen ? 'active' : ''}`}
+            onClick={() => setTocOpen(open => !open)}
+            title="Содержание"
+          >
+            <List size={20} />
+          </button>
+          <TableOfContents
+            items={tocItems}
+            activeId={activeHeadingId}
+            isOpen={tocOpen}
+            onClose={() => setTocOpen(false)}
+            onSelect={handleTocSelect}
+          />
+        </>
+      )}
+
+      {/* Copy Share Link */}
+      <button
+        className={`floating-share-btn ${linkCopied ? 'copied' : ''}`}
+        onClick={handleCopyShareLink}
+        title={linkCopied ? 'Ссылка скопирована' : 'Скопировать ссылку на урок'}
+      >
+        {linkCopied ? <Check size={20} /> : <Link2 size={20} />}
+      </button>
+
       {/* Floating Sidebar Toggle */}
       {onSidebarToggle && (
         <button className="floating-sidebar-toggle" onClick={onSidebarToggle}>
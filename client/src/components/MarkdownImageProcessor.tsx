@@ -1,5 +1,5 @@
 import React, { useMemo } from 'react';
-import ReactMarkdown from 'react-markdown';
+import ReactMarkdown, { Options } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import ImageCollage from './ImageCollage';
 import { findImageGroups } from '../utils/imageCollageUtils';
@@ -11,6 +11,8 @@ interface MarkdownImageProcessorProps {
   collageMaxHeight?: number;
   showCaptions?: boolean;
   basePath?: string;
+  /** Extra remark plugins, run after remark-gfm */
+  remarkPlugins?: Options['remarkPlugins'];
 }
 
 const MarkdownImageProcessor: React.FC<MarkdownImageProcessorProps> = ({
@@ -19,7 +21,8 @@ const MarkdownImageProcessor: React.FC<MarkdownImageProcessorProps> = ({
   minGroupSize = 2,
   collageMaxHeight = 400,
   showCaptions = false,
-  basePath = ''
+  basePath = '',
+  remarkPlugins = []
 }) => {
   
   const { processedContent, imageGroupsData } = useMemo(() => {
@@ -113,7 +116,7 @@ const MarkdownImageProcessor: React.FC<MarkdownImageProcessorProps> = ({
 
   return (
     <ReactMarkdown
-      remarkPlugins={[remarkGfm]}
+      remarkPlugins={[remarkGfm, ...(remarkPlugins || [])]}
       components={enhancedComponents}
     >
       {processedContent}
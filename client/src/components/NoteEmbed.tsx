@@ -0,0 +1,169 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ExternalLink, FileText, Lock } from 'lucide-react';
+import { lessonService } from '../services/lessonService';
+import { getErrorMessage } from '../services/apiClient';
+import { extractNoteSection, formatWikilinkReference, getWikilinkLabel, parseWikilink } from '../utils/wikilink';
+
+// Embeds nested deeper than this are shown as plain links
+const MAX_EMBED_DEPTH = 3;
+
+interface NoteEmbedContextValue {
+  /** Notes (and note sections) already open on the embed chain, outermost first; must be memoised */
+  ancestors: string[];
+  /** Render markdown of an embedded note; `notePath` resolves its same-note links */
+  renderContent: (content: string, notePath: string) => React.ReactNode;
+  /** Navigate to the embedded note */
+  openReference: (reference: string) => void;
+  /** Whether the reader's subscription covers a note; locked notes are never transcluded */
+  isLocked: (notePath: string) => boolean;
+}
+
+export const NoteEmbedContext = createContext<NoteEmbedContextValue>({
+  ancestors: [],
+  renderContent: () => null,
+  openReference: () => {},
+  isLocked: () => false
+});
+
+type EmbedState =
+  | { status: 'loading' }
+  | { status: 'ready'; key: string; path: string; content: string }
+  | { status: 'cycle' | 'missing' | 'locked' }
+  | { status: 'error'; message: string };
+
+interface NoteEmbedProps {
+  /** Link text between ![[ and ]] */
+  reference: string;
+}
+
+const NoteEmbed: React.FC<NoteEmbedProps> = ({ reference }) => {
+  const context = useContext(NoteEmbedContext);
+  const { ancestors, renderContent, openReference, isLocked } = context;
+  const link = useMemo(() => parseWikilink(reference), [reference]);
+  const [state, setState] = useState<EmbedState>({ status: 'loading' });
+  const [collapsed, setCollapsed] = useState(false);
+  const tooDeep = ancestors.length > MAX_EMBED_DEPTH;
+
+  useEffect(() => {
+    if (tooDeep) return;
+    let cancelled = false;
+    setState({ status: 'loading' });
+
+    const load = async () => {
+      try {
+        // [[#Heading]] embeds a section of the note it is written in
+        const path = link.target
+          ? await lessonService.resolveLessonPath(link.target)
+          : ancestors[ancestors.length - 1]?.split('#')[0] || null;
+        if (cancelled) return;
+        if (!path) {
+          setState({ status: 'missing' });
+          return;
+        }
+
+        const key = link.heading || link.blockId ? `${path}#${link.heading || `^${link.blockId}`}` : path;
+        if (ancestors.includes(key)) {
+          setState({ status: 'cycle' });
+          return;
+        }
+
+        // Checked before the fetch: a copy cached under a lapsed subscription must not leak
+        if (isLocked(path)) {
+          setState({ status: 'locked' });
+          return;
+        }
+
+        const lesson = await lessonService.fetchLessonContent(path);
+        if (cancelled) return;
+        const content = extractNoteSection(lesson.content, link);
+        setState(content === null ? { status: 'missing' } : { status: 'ready', key, path, content });
+      } catch (error) {
+        if (!cancelled) {
+          setState({ status: 'error', message: getErrorMessage(error, 'Не удалось загрузить заметку') });
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [link, ancestors, tooDeep, isLocked]);
+
+  // Kept referentially stable so nested embeds only reload when the chain really changes
+  const childAncestors = useMemo(() => (
+    state.status === 'ready' ? [...ancestors, state.key] : ancestors
+  ), [ancestors, state]);
+
+  const childContext = useMemo(() => (
+    { ...context, ancestors: childAncestors }
+  ), [context, childAncestors]);
+
+  const label = getWikilinkLabel(link);
+
+  if (tooDeep) {
+    return (
+      <button className="internal-link" onClick={() => openReference(formatWikilinkReference(link))}>
+        {label}
+      </button>
+    );
+  }
+
+  const renderBody = () => {
+    switch (state.status) {
+      case 'loading':
+        return <div className="note-embed-status">Загрузка...</div>;
+      case 'cycle':
+        return <div className="note-embed-status">Заметка уже встроена выше — повторное встраивание пропущено</div>;
+      case 'missing':
+        return <div className="note-embed-status">Заметка не найдена</div>;
+      case 'locked':
+        // Opening the note shows its paywall preview with the subscription check
+        return (
+          <div className="note-embed-status note-embed-locked">
+            <Lock size={14} />
+            <span>Заметка доступна по подписке.</span>
+            <button className="note-embed-unlock" onClick={() => openReference(formatWikilinkReference(link))}>
+              Оформить доступ
+            </button>
+          </div>
+        );
+      case 'error':
+        return <div className="note-embed-status error">{state.message}</div>;
+      case 'ready':
+        return (
+          <NoteEmbedContext.Provider value={childContext}>
+            {renderContent(state.content, state.path)}
+          </NoteEmbedContext.Provider>
+        );
+    }
+  };
+
+  return (
+    <div className={`note-embed ${collapsed ? 'collapsed' : ''}`}>
+      <div className="note-embed-header">
+        <button
+          className="note-embed-toggle"
+          onClick={() => setCollapsed(value => !value)}
+          aria-expanded={!collapsed}
+        >
+          <ChevronDown size={16} className="note-embed-fold-icon" />
+          <FileText size={16} />
+          <span className="note-embed-title">{label}</span>
+        </button>
+        {link.target && (
+          <button
+            className="note-embed-open"
+            onClick={() => openReference(formatWikilinkReference(link))}
+            title="Открыть заметку"
+          >
+            <ExternalLink size={16} />
+          </button>
+        )}
+      </div>
+      {!collapsed && <div className="note-embed-body">{renderBody()}</div>}
+    </div>
+  );
+};
+
+export default NoteEmbed;
@@ -0,0 +1,85 @@
+import React, { useMemo } from 'react';
+import { ArrowLeft, Trash2 } from 'lucide-react';
+import { useAnnotations } from '../hooks/useAnnotations';
+import { Annotation } from '../utils/annotations';
+
+interface NotesScreenProps {
+  onOpenLesson: (lessonPath: string) => void;
+  onClose: () => void;
+}
+
+const getLessonName = (path: string) => (path.split('/').pop() || path).replace(/\.md$/, '');
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString('ru-RU');
+
+/**
+ * The student's highlights and notes, grouped by lesson, most recently annotated lessons first
+ */
+const NotesScreen: React.FC<NotesScreenProps> = ({ onOpenLesson, onClose }) => {
+  const { loading, annotations, deleteAnnotation } = useAnnotations();
+
+  // Annotations are sorted newest first, so lessons come out in the same order
+  const lessons = useMemo(() => {
+    const result: Array<{ path: string; annotations: Annotation[] }> = [];
+    annotations.forEach(annotation => {
+      const group = result.find(item => item.path === annotation.lessonPath);
+      if (group) {
+        group.annotations.push(annotation);
+      } else {
+        result.push({ path: annotation.lessonPath, annotations: [annotation] });
+      }
+    });
+    return result;
+  }, [annotations]);
+
+  const handleDelete = (annotation: Annotation) => {
+    if (window.confirm('Удалить выделение?')) {
+      deleteAnnotation(annotation.id);
+    }
+  };
+
+  const renderBody = () => {
+    if (loading) return <div className="review-status">Загрузка заметок...</div>;
+    if (lessons.length === 0) {
+      return (
+        <div className="review-done">
+          <h3>Заметок пока нет</h3>
+          <p>Выделите текст в уроке, чтобы отметить его цветом или добавить заметку.</p>
+        </div>
+      );
+    }
+    return lessons.map(lesson => (
+      <section key={lesson.path} className="notes-lesson">
+        <button className="journal-lesson-link notes-lesson-title" onClick={() => onOpenLesson(lesson.path)}>
+          {getLessonName(lesson.path)}
+        </button>
+        {lesson.annotations.map(annotation => (
+          <div key={annotation.id} className={`notes-item ${annotation.color}`}>
+            <blockquote>{annotation.selector.exact}</blockquote>
+            {annotation.note && <p className="notes-item-note">{annotation.note}</p>}
+            <div className="notes-item-footer">
+              <span>{formatDate(annotation.createdAt)}</span>
+              <button onClick={() => handleDelete(annotation)} title="Удалить">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </section>
+    ));
+  };
+
+  return (
+    <div className="replay-screen notes-screen">
+      <div className="graph-toolbar">
+        <button className="graph-back-btn" onClick={onClose} title="Назад">
+          <ArrowLeft size={20} />
+        </button>
+        <h2>Мои заметки</h2>
+      </div>
+
+      <div className="replay-body">{renderBody()}</div>
+    </div>
+  );
+};
+
+export default NotesScreen;
@@ -0,0 +1,185 @@
+import React from 'react';
+import { ArrowLeft, BookOpen, Timer } from 'lucide-react';
+import { LessonStructure } from '../types';
+import { ChartPalette } from '../hooks/useThemeManager';
+import { usePatternDrill } from '../hooks/usePatternDrill';
+import { CANDLE_PATTERNS, getPattern } from '../utils/candlePatterns';
+import { DRILL_CONFIG } from '../constants/config';
+import CandlestickChart from './CandlestickChart';
+
+interface PatternDrillScreenProps {
+  structure: LessonStructure[];
+  palette: ChartPalette;
+  onOpenLesson: (lessonPath: string) => void;
+  onClose: () => void;
+}
+
+const getLessonName = (path: string) => (path.split('/').pop() || path).replace(/\.md$/, '');
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Timed pattern recognition: name the pattern on the last candles of each chart.
+ * Accuracy is kept per pattern, and weak ones point back to their lesson.
+ */
+const PatternDrillScreen: React.FC<PatternDrillScreenProps> = ({ structure, palette, onOpenLesson, onClose }) => {
+  const {
+    stats,
+    weakPatterns,
+    patternLessons,
+    started,
+    finished,
+    reviewing,
+    question,
+    lastAnswer,
+    questionNumber,
+    totalQuestions,
+    correctCount,
+    timeLeft,
+    startRound,
+    submit,
+    next
+  } = usePatternDrill(structure);
+
+  const renderQuestion = () => {
+    if (!question) return null;
+    return (
+      <>
+        <div className="drill-progress">
+          <span>Вопрос {questionNumber} из {totalQuestions}</span>
+          <span className={`drill-timer ${!reviewing && timeLeft <= 5 ? 'urgent' : ''}`}>
+            <Timer size={16} /> {reviewing ? '—' : `${timeLeft} с`}
+          </span>
+        </div>
+        <div className="drill-timer-bar">
+          <div style={{ width: `${reviewing ? 0 : (timeLeft / DRILL_CONFIG.QUESTION_TIME) * 100}%` }} />
+        </div>
+
+        <CandlestickChart
+          key={questionNumber}
+          candles={question.candles}
+          palette={palette}
+          height={280}
+          initialVisible={question.candles.length}
+          interactive={false}
+        />
+        <p className="drill-hint">Какой паттерн образуют последние свечи?</p>
+
+        <div className="drill-options">
+          {question.options.map(option => {
+            const state = !lastAnswer ? ''
+              : option === question.pattern ? 'correct'
+              : option === lastAnswer.answer ? 'wrong' : '';
+            return (
+              <button
+                key={option}
+                className={`drill-option ${state}`}
+                onClick={() => submit(option)}
+                disabled={reviewing}
+              >
+                {getPattern(option).name}
+              </button>
+            );
+          })}
+        </div>
+
+        {lastAnswer && (
+          <div className={`drill-feedback ${lastAnswer.correct ? 'positive' : 'negative'}`}>
+            <span>
+              {lastAnswer.correct ? 'Верно!'
+                : lastAnswer.answer === null ? `Время вышло. Это ${getPattern(question.pattern).name.toLowerCase()}.`
+                : `Неверно. Это ${getPattern(question.pattern).name.toLowerCase()}.`}
+            </span>
+            <button className="review-primary-btn" onClick={next}>
+              {finished ? 'Итоги' : 'Дальше'}
+            </button>
+          </div>
+        )}
+      </>
+    );
+  };
+
+  const renderOverview = () => (
+    <>
+      {finished ? (
+        <div className="review-done">
+          <h3>Раунд завершён: {correctCount} из {totalQuestions}</h3>
+          <button className="review-primary-btn" onClick={startRound}>Ещё раунд</button>
+        </div>
+      ) : (
+        <div className="review-done">
+          <h3>Тренировка паттернов</h3>
+          <p>
+            {DRILL_CONFIG.QUESTIONS_PER_ROUND} графиков, {DRILL_CONFIG.QUESTION_TIME} секунд на каждый.
+            Назовите паттерн на последних свечах.
+          </p>
+          <button className="review-primary-btn" onClick={startRound}>Начать</button>
+        </div>
+      )}
+
+      {weakPatterns.length > 0 && (
+        <div className="drill-weak">
+          <h4>Стоит повторить</h4>
+          {weakPatterns.map(weak => (
+            <div key={weak.pattern} className="drill-weak-item">
+              <span>{getPattern(weak.pattern).name}</span>
+              <span className="negative">{formatPercent(weak.accuracy)}</span>
+              {weak.lessonPath && (
+                <button className="journal-lesson-link" onClick={() => onOpenLesson(weak.lessonPath as string)}>
+                  <BookOpen size={14} /> {getLessonName(weak.lessonPath)}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <table className="replay-trades drill-stats">
+        <thead>
+          <tr>
+            <th>Паттерн</th>
+            <th>Ответов</th>
+            <th>Точность</th>
+            <th>Урок</th>
+          </tr>
+        </thead>
+        <tbody>
+          {CANDLE_PATTERNS.map(pattern => {
+            const patternStats = stats[pattern.id];
+            const lessonPath = patternLessons[pattern.id];
+            return (
+              <tr key={pattern.id}>
+                <td>{pattern.name}</td>
+                <td>{patternStats?.attempts || 0}</td>
+                <td>{patternStats?.attempts ? formatPercent(patternStats.correct / patternStats.attempts) : '—'}</td>
+                <td>
+                  {lessonPath ? (
+                    <button className="journal-lesson-link" onClick={() => onOpenLesson(lessonPath)}>
+                      {getLessonName(lessonPath)}
+                    </button>
+                  ) : '—'}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </>
+  );
+
+  return (
+    <div className="replay-screen drill-screen">
+      <div className="graph-toolbar">
+        <button className="graph-back-btn" onClick={onClose} title="Назад">
+          <ArrowLeft size={20} />
+        </button>
+        <h2>Тренировка паттернов</h2>
+      </div>
+
+      <div className="replay-body">
+        {started && (reviewing || !finished) ? renderQuestion() : renderOverview()}
+      </div>
+    </div>
+  );
+};
+
+export default PatternDrillScreen;
@@ -0,0 +1,129 @@
+import React, { useMemo, useState } from 'react';
+import { Calculator, RotateCcw } from 'lucide-react';
+import {
+  calculatePosition,
+  DEFAULT_POSITION_INPUTS,
+  parsePositionDefaults,
+  PositionInputs
+} from '../utils/positionSize';
+import { parseNumber } from '../utils/numberInput';
+
+interface PositionCalculatorProps {
+  /** Body of a ```calc-position block with the lesson's starting values */
+  source?: string;
+  /** Hide the title when the container already has one */
+  showTitle?: boolean;
+}
+
+type FieldValues = Record<keyof PositionInputs, string>;
+
+const FIELDS: Array<{ key: keyof PositionInputs; label: string; optional?: boolean }> = [
+  { key: 'accountSize', label: 'Депозит' },
+  { key: 'riskPercent', label: 'Риск, %' },
+  { key: 'entry', label: 'Вход' },
+  { key: 'stop', label: 'Стоп-лосс' },
+  { key: 'takeProfit', label: 'Тейк-профит', optional: true },
+  { key: 'lotSize', label: 'Размер лота/контракта' }
+];
+
+const toFieldValues = (inputs: Partial<PositionInputs>): FieldValues => {
+  const values = {} as FieldValues;
+  FIELDS.forEach(({ key }) => {
+    const value = inputs[key];
+    values[key] = value === undefined || value === 0 ? '' : String(value);
+  });
+  return values;
+};
+
+const formatNumber = (value: number, maximumFractionDigits: number = 2) =>
+  value.toLocaleString('ru-RU', { maximumFractionDigits });
+
+/**
+ * Position size and risk calculator: ```calc-position blocks and the FAB menu
+ */
+const PositionCalculator: React.FC<PositionCalculatorProps> = ({ source = '', showTitle = true }) => {
+  const initialValues = useMemo(
+    () => toFieldValues({ ...DEFAULT_POSITION_INPUTS, ...parsePositionDefaults(source) }),
+    [source]
+  );
+  const [values, setValues] = useState<FieldValues>(initialValues);
+
+  const result = useMemo(() => {
+    const inputs = { ...DEFAULT_POSITION_INPUTS };
+    FIELDS.forEach(({ key, optional }) => {
+      const value = parseNumber(values[key]);
+      if (value !== null) inputs[key] = value;
+      else if (!optional) inputs[key] = 0;
+    });
+    return calculatePosition(inputs);
+  }, [values]);
+
+  const handleChange = (key: keyof PositionInputs, value: string) => {
+    setValues(current => ({ ...current, [key]: value }));
+  };
+
+  return (
+    <div className="calc-position">
+      {showTitle && (
+        <div className="calc-position-title">
+          <Calculator size={18} />
+          <span>Калькулятор позиции</span>
+          <button
+            className="calc-position-reset"
+            onClick={() => setValues(initialValues)}
+            title="Сбросить"
+          >
+            <RotateCcw size={14} />
+          </button>
+        </div>
+      )}
+
+      <div className="calc-position-fields">
+        {FIELDS.map(({ key, label, optional }) => (
+          <label key={key} className="calc-position-field">
+            <span>{label}{optional && <em> (необяз.)</em>}</span>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={values[key]}
+              onChange={event => handleChange(key, event.target.value)}
+            />
+          </label>
+        ))}
+      </div>
+
+      {'error' in result ? (
+        <div className="calc-position-error">{result.error}</div>
+      ) : (
+        <div className="calc-position-results">
+          <div className="calc-position-result main">
+            <span>Размер позиции</span>
+            <strong>{formatNumber(result.lots, 4)} лот.</strong>
+            <small>
+              {formatNumber(result.units, 4)} ед. · {formatNumber(result.positionValue)} ·{' '}
+              {result.direction === 'long' ? 'лонг' : 'шорт'}
+            </small>
+          </div>
+          <div className="calc-position-result loss">
+            <span>Убыток по стопу</span>
+            <strong>−{formatNumber(result.potentialLoss)}</strong>
+          </div>
+          {result.potentialProfit !== undefined && (
+            <div className="calc-position-result profit">
+              <span>Прибыль по тейку</span>
+              <strong>+{formatNumber(result.potentialProfit)}</strong>
+            </div>
+          )}
+          {result.rewardRisk !== undefined && (
+            <div className="calc-position-result">
+              <span>R:R</span>
+              <strong>1 : {formatNumber(result.rewardRisk)}</strong>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PositionCalculator;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Calculator, X } from 'lucide-react';
+import PositionCalculator from './PositionCalculator';
+
+interface PositionCalculatorModalProps {
+  onClose: () => void;
+}
+
+/**
+ * The position calculator on its own, opened from the FAB menu
+ */
+const PositionCalculatorModal: React.FC<PositionCalculatorModalProps> = ({ onClose }) => (
+  <div className="user-profile-overlay" onClick={onClose}>
+    <div className="user-profile-modal calc-position-modal" onClick={event => event.stopPropagation()}>
+      <div className="profile-header">
+        <div className="profile-title">
+          <Calculator size={24} />
+          <h2>Калькулятор позиции</h2>
+        </div>
+        <button className="close-button" onClick={onClose} title="Закрыть">
+          <X size={20} />
+        </button>
+      </div>
+      <div className="calc-position-modal-body">
+        <PositionCalculator showTitle={false} />
+      </div>
+    </div>
+  </div>
+);
+
+export default PositionCalculatorModal;
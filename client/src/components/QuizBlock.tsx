@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Check, HelpCircle, RotateCcw, X } from 'lucide-react';
+import { getInitialOrder, isAnswerCorrect, parseQuiz, QuizAnswer, QuizQuestion } from '../utils/quiz';
+
+export type QuizAnswerHandler = (question: QuizQuestion, answer: QuizAnswer, correct: boolean) => void;
+
+interface QuizQuestionViewProps {
+  question: QuizQuestion;
+  onAnswer?: QuizAnswerHandler;
+}
+
+const QuizQuestionView: React.FC<QuizQuestionViewProps> = ({ question, onAnswer }) => {
+  const initialAnswer = useMemo(() => (question.type === 'order' ? getInitialOrder(question) : []), [question]);
+  const [answer, setAnswer] = useState<QuizAnswer>(initialAnswer);
+  const [result, setResult] = useState<boolean | null>(null);
+  const checked = result !== null;
+
+  const toggleOption = (index: number) => {
+    if (checked) return;
+    if (question.type === 'single') {
+      setAnswer([index]);
+    } else {
+      setAnswer(current => current.includes(index) ? current.filter(item => item !== index) : [...current, index]);
+    }
+  };
+
+  const move = (position: number, delta: number) => {
+    const target = position + delta;
+    if (checked || target < 0 || target >= answer.length) return;
+    const next = [...answer];
+    [next[position], next[target]] = [next[target], next[position]];
+    setAnswer(next);
+  };
+
+  const handleCheck = () => {
+    const correct = isAnswerCorrect(question, answer);
+    setResult(correct);
+    onAnswer?.(question, answer, correct);
+  };
+
+  const handleRetry = () => {
+    setAnswer(initialAnswer);
+    setResult(null);
+  };
+
+  const getOptionState = (index: number) => {
+    if (!checked) return answer.includes(index) ? 'selected' : '';
+    if (question.correct.includes(index)) return 'correct';
+    return answer.includes(index) ? 'wrong' : '';
+  };
+
+  return (
+    <div className="quiz-question">
+      <div className="quiz-question-text">
+        <HelpCircle size={18} />
+        <span>{question.question}</span>
+      </div>
+      {question.type === 'multiple' && <div className="quiz-hint">Выберите все подходящие варианты</div>}
+      {question.type === 'order' && <div className="quiz-hint">Расставьте в правильном порядке</div>}
+
+      {question.type === 'order' ? (
+        <ol className="quiz-order">
+          {answer.map((option, position) => (
+            <li
+              key={option}
+              className={`quiz-order-item ${checked ? (option === position ? 'correct' : 'wrong') : ''}`}
+            >
+              <span>{question.options[option]}</span>
+              {!checked && (
+                <span className="quiz-order-controls">
+                  <button onClick={() => move(position, -1)} disabled={position === 0} title="Выше">
+                    <ArrowUp size={16} />
+                  </button>
+                  <button onClick={() => move(position, 1)} disabled={position === answer.length - 1} title="Ниже">
+                    <ArrowDown size={16} />
+                  </button>
+                </span>
+              )}
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <div className="quiz-options" role={question.type === 'single' ? 'radiogroup' : 'group'}>
+          {question.options.map((option, index) => (
+            <button
+              key={index}
+              className={`quiz-option ${getOptionState(index)}`}
+              onClick={() => toggleOption(index)}
+              role={question.type === 'single' ? 'radio' : 'checkbox'}
+              aria-checked={answer.includes(index)}
+              disabled={checked}
+            >
+              <span className={`quiz-option-marker ${question.type}`} />
+              <span>{option}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {checked ? (
+        <div className={`quiz-result ${result ? 'correct' : 'wrong'}`}>
+          <div className="quiz-result-title">
+            {result ? <Check size={18} /> : <X size={18} />}
+            {result ? 'Верно!' : 'Неверно'}
+          </div>
+          {question.explanation && <p className="quiz-explanation">{question.explanation}</p>}
+          {!result && (
+            <button className="quiz-retry-btn" onClick={handleRetry}>
+              <RotateCcw size={14} />
+              Попробовать снова
+            </button>
+          )}
+        </div>
+      ) : (
+        <button
+          className="quiz-check-btn"
+          onClick={handleCheck}
+          disabled={question.type !== 'order' && answer.length === 0}
+        >
+          Проверить
+        </button>
+      )}
+    </div>
+  );
+};
+
+interface QuizBlockProps {
+  /** Body of the ```quiz fenced block */
+  source: string;
+  onAnswer?: QuizAnswerHandler;
+}
+
+/**
+ * Interactive quiz rendered from a ```quiz block: single choice, multiple choice or ordering
+ */
+const QuizBlock: React.FC<QuizBlockProps> = ({ source, onAnswer }) => {
+  const questions = useMemo(() => parseQuiz(source), [source]);
+
+  if (questions.length === 0) {
+    return <pre className="quiz-invalid">{source}</pre>;
+  }
+
+  return (
+    <div className="quiz-block">
+      {questions.map(question => (
+        <QuizQuestionView key={question.id} question={question} onAnswer={onAnswer} />
+      ))}
+    </div>
+  );
+};
+
+export default QuizBlock;
@@ -0,0 +1,34 @@
+import React, { useMemo } from 'react';
+import { CandlestickChart as ChartIcon, Play } from 'lucide-react';
+import { replayService } from '../services/replayService';
+import { parseReplayBlock, ReplayScenario } from '../utils/replay';
+
+interface ReplayBlockProps {
+  /** Body of a ```replay block */
+  source: string;
+  lessonPath: string;
+  onStart?: (scenario: ReplayScenario) => void;
+}
+
+/**
+ * ```replay block: a card that opens the simulator preloaded with the lesson's scenario
+ */
+const ReplayBlock: React.FC<ReplayBlockProps> = ({ source, lessonPath, onStart }) => {
+  const scenario = useMemo(() => ({ ...parseReplayBlock(source), lessonPath }), [source, lessonPath]);
+  const dataset = useMemo(() => replayService.getScenarioDataset(scenario), [scenario]);
+
+  return (
+    <div className="replay-block">
+      <ChartIcon size={28} />
+      <div className="replay-block-text">
+        <strong>{scenario.title || 'Тренажёр'}</strong>
+        <span>Торговля на истории · {dataset.name}</span>
+      </div>
+      <button className="review-primary-btn" onClick={() => onStart?.(scenario)} disabled={!onStart}>
+        <Play size={16} /> Начать
+      </button>
+    </div>
+  );
+};
+
+export default ReplayBlock;
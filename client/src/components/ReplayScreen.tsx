@@ -0,0 +1,261 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, Flag, Pause, Play, RotateCcw, StepForward } from 'lucide-react';
+import { ChartPalette } from '../hooks/useThemeManager';
+import { useReplaySession } from '../hooks/useReplaySession';
+import { ReplayDataset, replayService } from '../services/replayService';
+import { Candle } from '../utils/ohlc';
+import { ExitReason, getPositionResult, ReplayScenario, suggestOrderLevels, TradeSide } from '../utils/replay';
+import { parseNumber } from '../utils/numberInput';
+import CandlestickChart, { ChartLevelLine } from './CandlestickChart';
+
+interface ReplayScreenProps {
+  /** Scenario from a lesson's ```replay block; null opens the dataset picker */
+  scenario: ReplayScenario | null;
+  palette: ChartPalette;
+  onClose: () => void;
+}
+
+interface ReplaySessionProps {
+  candles: Candle[];
+  dataset: ReplayDataset;
+  scenario: ReplayScenario | null;
+  palette: ChartPalette;
+  onClose: () => void;
+}
+
+const EXIT_LABELS: Record<ExitReason, string> = {
+  stop: 'стоп',
+  target: 'цель',
+  manual: 'вручную',
+  end: 'конец данных'
+};
+
+const formatPrice = (value: number) => value.toLocaleString('ru-RU', { maximumFractionDigits: 4 });
+const formatR = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}R`;
+const formatPnl = (value: number) => `${value > 0 ? '+' : ''}${value.toLocaleString('ru-RU', { maximumFractionDigits: 2 })}`;
+const resultClass = (value: number) => (value > 0 ? 'positive' : value < 0 ? 'negative' : '');
+
+const ReplaySession: React.FC<ReplaySessionProps> = ({ candles, dataset, scenario, palette, onClose }) => {
+  const session = useReplaySession(candles, {
+    datasetId: dataset.id,
+    lessonPath: scenario?.lessonPath,
+    start: scenario?.start
+  });
+  const { position, trades, finished, summary, currentPrice } = session;
+  const [side, setSide] = useState<TradeSide>('long');
+  const [stop, setStop] = useState('');
+  const [target, setTarget] = useState('');
+  const [quantity, setQuantity] = useState('1');
+  const [orderError, setOrderError] = useState<string | null>(null);
+
+  // Empty fields fall back to a stop behind the recent swing and a 2R target
+  const suggestion = useMemo(() => suggestOrderLevels(session.visibleCandles, side), [session.visibleCandles, side]);
+
+  const levels = useMemo<ChartLevelLine[]>(() => {
+    if (!position) return [];
+    const lines: ChartLevelLine[] = [
+      { price: position.entryPrice, label: position.side === 'long' ? 'Покупка' : 'Продажа', color: palette.crosshair, dashed: false },
+      { price: position.stop, label: 'Стоп', color: palette.down }
+    ];
+    if (position.target !== undefined) lines.push({ price: position.target, label: 'Цель', color: palette.up });
+    return lines;
+  }, [position, palette]);
+
+  const handleOpen = () => {
+    const error = session.openPosition({
+      side,
+      stop: parseNumber(stop) ?? suggestion.stop,
+      target: target.trim() ? parseNumber(target) ?? undefined : suggestion.target,
+      quantity: parseNumber(quantity) ?? 0
+    });
+    setOrderError(error);
+    if (!error) {
+      setStop('');
+      setTarget('');
+    }
+  };
+
+  const openResult = position ? getPositionResult(position, currentPrice) : null;
+
+  return (
+    <>
+      <CandlestickChart
+        candles={session.visibleCandles}
+        palette={palette}
+        overlays={scenario?.overlays}
+        levels={levels}
+        height={340}
+      />
+
+      <div className="replay-controls">
+        <button onClick={session.step} disabled={finished} title="Следующая свеча">
+          <StepForward size={18} />
+        </button>
+        <button onClick={() => session.setPlaying(!session.playing)} disabled={finished} title={session.playing ? 'Пауза' : 'Воспроизвести'}>
+          {session.playing ? <Pause size={18} /> : <Play size={18} />}
+        </button>
+        <span className="replay-bar-count">Свеча {session.cursor + 1} из {candles.length}</span>
+        <button className="replay-finish-btn" onClick={session.endSession} disabled={finished}>
+          <Flag size={16} /> Завершить
+        </button>
+      </div>
+
+      {finished ? (
+        <div className="replay-summary">
+          <h3>Итоги сессии</h3>
+          <div className="replay-stats">
+            <div><span>Сделок</span><strong>{summary.trades}</strong></div>
+            <div><span>Прибыльных</span><strong>{Math.round(summary.winRate * 100)}%</strong></div>
+            <div><span>Итого</span><strong className={resultClass(summary.totalR)}>{formatR(summary.totalR)}</strong></div>
+            <div><span>Средний</span><strong className={resultClass(summary.averageR)}>{formatR(summary.averageR)}</strong></div>
+            <div><span>P&amp;L</span><strong className={resultClass(summary.pnl)}>{formatPnl(summary.pnl)}</strong></div>
+            <div><span>Лучшая / худшая</span><strong>{formatR(summary.bestR)} / {formatR(summary.worstR)}</strong></div>
+          </div>
+          <div className="replay-summary-actions">
+            <button className="review-primary-btn" onClick={session.restart}>
+              <RotateCcw size={16} /> Заново
+            </button>
+            <button className="replay-secondary-btn" onClick={onClose}>Закрыть</button>
+          </div>
+        </div>
+      ) : position && openResult ? (
+        <div className="replay-position">
+          <div className="replay-position-info">
+            <strong className={position.side}>{position.side === 'long' ? 'Лонг' : 'Шорт'} × {position.quantity}</strong>
+            <span>Вход {formatPrice(position.entryPrice)}</span>
+            <span>Стоп {formatPrice(position.stop)}</span>
+            {position.target !== undefined && <span>Цель {formatPrice(position.target)}</span>}
+          </div>
+          <div className={`replay-position-result ${resultClass(openResult.pnl)}`}>
+            {formatPnl(openResult.pnl)} · {formatR(openResult.rMultiple)}
+          </div>
+          <button className="replay-secondary-btn" onClick={session.closeManually}>Закрыть по рынку</button>
+        </div>
+      ) : (
+        <div className="replay-order">
+          <div className="fib-calc-direction">
+            <button className={side === 'long' ? 'active' : ''} onClick={() => setSide('long')}>Лонг</button>
+            <button className={side === 'short' ? 'active' : ''} onClick={() => setSide('short')}>Шорт</button>
+          </div>
+          <label>
+            <span>Стоп</span>
+            <input type="text" inputMode="decimal" value={stop} placeholder={String(suggestion.stop)} onChange={event => setStop(event.target.value)} />
+          </label>
+          <label>
+            <span>Цель</span>
+            <input type="text" inputMode="decimal" value={target} placeholder={String(suggestion.target)} onChange={event => setTarget(event.target.value)} />
+          </label>
+          <label>
+            <span>Объём</span>
+            <input type="text" inputMode="decimal" value={quantity} onChange={event => setQuantity(event.target.value)} />
+          </label>
+          <button className="review-primary-btn" onClick={handleOpen}>
+            Открыть по {formatPrice(currentPrice)}
+          </button>
+          {orderError && <div className="calc-position-error">{orderError}</div>}
+        </div>
+      )}
+
+      {trades.length > 0 && (
+        <table className="replay-trades">
+          <tbody>
+            {trades.map((trade, index) => (
+              <tr key={index}>
+                <td>{index + 1}</td>
+                <td className={trade.side}>{trade.side === 'long' ? 'Лонг' : 'Шорт'}</td>
+                <td>{formatPrice(trade.entryPrice)} → {formatPrice(trade.exitPrice)}</td>
+                <td>{EXIT_LABELS[trade.exitReason]}</td>
+                <td className={resultClass(trade.rMultiple)}>{formatR(trade.rMultiple)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </>
+  );
+};
+
+/**
+ * "Тренажёр": replays a dataset bar by bar for paper trading with stops and targets
+ */
+const ReplayScreen: React.FC<ReplayScreenProps> = ({ scenario, palette, onClose }) => {
+  const [datasets, setDatasets] = useState<ReplayDataset[]>([]);
+  const [dataset, setDataset] = useState<ReplayDataset | null>(() => (scenario ? replayService.getScenarioDataset(scenario) : null));
+  const [loaded, setLoaded] = useState<{ datasetId: string; candles: Candle[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    replayService.getDatasets().then(list => {
+      if (cancelled) return;
+      setDatasets(list);
+      setDataset(current => current || list[0] || null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!dataset) return;
+    let cancelled = false;
+    setError(null);
+    replayService.loadCandles(dataset, scenario?.lessonPath)
+      .then(data => {
+        if (cancelled) return;
+        if (data.length < 2) setError('В наборе данных слишком мало свечей');
+        else setLoaded({ datasetId: dataset.id, candles: data });
+      })
+      .catch(loadError => {
+        console.warn('Failed to load replay dataset:', loadError);
+        if (!cancelled) setError('Не удалось загрузить данные');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [dataset, scenario]);
+
+  const handleDatasetChange = (id: string) => {
+    setDataset(datasets.find(item => item.id === id) || null);
+  };
+
+  return (
+    <div className="replay-screen">
+      <div className="graph-toolbar">
+        <button className="graph-back-btn" onClick={onClose} title="Назад">
+          <ArrowLeft size={20} />
+        </button>
+        <h2>{scenario?.title || 'Тренажёр'}</h2>
+        {datasets.length > 0 && (
+          <select value={dataset?.id || ''} onChange={event => handleDatasetChange(event.target.value)}>
+            {dataset && !datasets.some(item => item.id === dataset.id) && (
+              <option value={dataset.id}>{dataset.name}</option>
+            )}
+            {datasets.map(item => (
+              <option key={item.id} value={item.id}>{item.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="replay-body">
+        {error ? (
+          <div className="candle-chart-empty">{error}</div>
+        ) : !dataset || loaded?.datasetId !== dataset.id ? (
+          <div className="candle-chart-empty">Загрузка данных...</div>
+        ) : (
+          <ReplaySession
+            key={dataset.id}
+            candles={loaded.candles}
+            dataset={dataset}
+            scenario={scenario}
+            palette={palette}
+            onClose={onClose}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReplayScreen;
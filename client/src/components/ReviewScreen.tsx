@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, BookOpen, PartyPopper } from 'lucide-react';
+import { Flashcard } from '../utils/flashcards';
+import { ReviewGrade } from '../utils/spacedRepetition';
+
+interface ReviewScreenProps {
+  /** null while the deck is still loading */
+  cards: Flashcard[] | null;
+  onGrade: (cardId: string, grade: ReviewGrade) => void;
+  onOpenLesson: (lessonPath: string) => void;
+  onClose: () => void;
+}
+
+const GRADES: Array<{ grade: ReviewGrade; label: string; className: string }> = [
+  { grade: 1, label: 'Снова', className: 'again' },
+  { grade: 3, label: 'Трудно', className: 'hard' },
+  { grade: 4, label: 'Хорошо', className: 'good' },
+  { grade: 5, label: 'Легко', className: 'easy' }
+];
+
+const getLessonName = (lessonPath: string) => (lessonPath.split('/').pop() || lessonPath).replace(/\.md$/, '');
+
+/**
+ * "Повторение": today's due flashcards one at a time, graded SM-2 style.
+ * Cards answered "Снова" come back at the end of the session.
+ */
+const ReviewScreen: React.FC<ReviewScreenProps> = ({ cards, onGrade, onOpenLesson, onClose }) => {
+  const [queue, setQueue] = useState<Flashcard[] | null>(null);
+  const [reviewed, setReviewed] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+
+  // The session works on a snapshot; grading changes the due list underneath
+  useEffect(() => {
+    if (cards && queue === null) setQueue(cards);
+  }, [cards, queue]);
+
+  const card = queue?.[0];
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!card) return;
+    onGrade(card.id, grade);
+    setQueue(current => {
+      const rest = (current || []).slice(1);
+      return grade < 3 ? [...rest, card] : rest;
+    });
+    if (grade >= 3) setReviewed(count => count + 1);
+    setRevealed(false);
+  };
+
+  const renderBody = () => {
+    if (queue === null) {
+      return <div className="review-status">Собираем карточки...</div>;
+    }
+    if (!card) {
+      return (
+        <div className="review-done">
+          <PartyPopper size={40} />
+          <h3>{reviewed > 0 ? 'На сегодня всё!' : 'Нет карточек для повторения'}</h3>
+          <p>
+            {reviewed > 0
+              ? `Повторено карточек: ${reviewed}. Возвращайтесь завтра.`
+              : 'Карточки появляются из уроков, которые вы уже открывали.'}
+          </p>
+          <button className="review-primary-btn" onClick={onClose}>Готово</button>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        <div className="review-progress">
+          Осталось: {queue.length}
+        </div>
+        <div className={`review-card ${revealed ? 'revealed' : ''}`} onClick={() => setRevealed(true)}>
+          <div className="review-card-front">{card.front}</div>
+          {revealed && <div className="review-card-back">{card.back}</div>}
+          <button
+            className="review-card-source"
+            onClick={(event) => {
+              event.stopPropagation();
+              onOpenLesson(card.lessonPath);
+            }}
+          >
+            <BookOpen size={14} />
+            {getLessonName(card.lessonPath)}
+          </button>
+        </div>
+        {revealed ? (
+          <div className="review-grades">
+            {GRADES.map(({ grade, label, className }) => (
+              <button key={grade} className={`review-grade-btn ${className}`} onClick={() => handleGrade(grade)}>
+                {label}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <button className="review-primary-btn" onClick={() => setRevealed(true)}>
+            Показать ответ
+          </button>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="review-screen">
+      <div className="review-header">
+        <button className="review-back-btn" onClick={onClose} title="Назад">
+          <ArrowLeft size={20} />
+        </button>
+        <h2>Повторение</h2>
+      </div>
+      <div className="review-body">{renderBody()}</div>
+    </div>
+  );
+};
+
+export default ReviewScreen;
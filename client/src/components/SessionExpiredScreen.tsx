@@ -0,0 +1,33 @@
+import React from 'react';
+
+interface SessionExpiredScreenProps {
+  onRetry: () => void;
+}
+
+const SessionExpiredScreen: React.FC<SessionExpiredScreenProps> = ({ onRetry }) => {
+  const handleReopen = () => {
+    // Fresh signed initData only comes with a new launch of the Mini App
+    if (window.Telegram?.WebApp?.close) {
+      window.Telegram.WebApp.close();
+    } else {
+      window.location.reload();
+    }
+  };
+
+  return (
+    <div className="error-container">
+      <div className="error-message">
+        <h2>Сессия истекла</h2>
+        <p>Не удалось подтвердить вашу авторизацию в Telegram. Откройте приложение заново.</p>
+        <button onClick={handleReopen} className="retry-button">
+          Перезапустить приложение
+        </button>
+        <button onClick={onRetry} className="retry-button secondary">
+          Попробовать снова
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SessionExpiredScreen;
@@ -1,17 +1,45 @@
 import React, { useState, useEffect, memo, useCallback, useMemo } from 'react';
-import { ChevronRight, ChevronDown, Search, Menu, X, File, Folder } from 'lucide-react';
-import { LessonStructure, SearchResult } from '../types';
+import { ChevronRight, ChevronDown, Search, Menu, X, File, Folder, Download, CheckCircle, Lock } from 'lucide-react';
+import { AccessLevel, LessonStructure, SearchResult } from '../types';
+import { LessonProgress } from '../services/progressService';
+import { useOfflineDownload, FolderDownloadState } from '../hooks/useOfflineDownload';
+import { getFolderProgress, isLessonCompleted } from '../utils/lessonTree';
 
 interface SidebarProps {
   structure: LessonStructure[];
   isOpen: boolean;
   onToggle: () => void;
   onLessonSelect: (lessonPath: string) => void;
-  onSearch: (query: string) => Promise<SearchResult[]>;
-  isSubscribed: boolean;
-  onSubscriptionRequired: () => void;
+  onSearch: (query: string, signal?: AbortSignal) => Promise<SearchResult[]>;
+  searchQuery: string;
+  onSearchQueryChange: (query: string) => void;
+  isLessonLocked: (lessonPath: string, access?: AccessLevel) => boolean;
+  lessonProgress: Record<string, LessonProgress>;
+  newLessonPaths: Set<string>;
 }
 
+// Partial completion ring for lessons that were started but not finished
+const ProgressRing: React.FC<{ value: number }> = ({ value }) => {
+  const radius = 6;
+  const circumference = 2 * Math.PI * radius;
+  const clamped = Math.min(Math.max(value, 0), 100);
+
+  return (
+    <svg className="lesson-progress-ring" viewBox="0 0 16 16" aria-label={`${Math.round(clamped)}%`}>
+      <circle cx="8" cy="8" r={radius} className="lesson-progress-ring-track" />
+      <circle
+        cx="8"
+        cy="8"
+        r={radius}
+        className="lesson-progress-ring-fill"
+        strokeDasharray={circumference}
+        strokeDashoffset={circumference * (1 - clamped / 100)}
+        transform="rotate(-90 8 8)"
+      />
+    </svg>
+  );
+};
+
 // Memoized components for performance
 interface FolderItemProps {
   item: LessonStructure;
@@ -19,10 +47,21 @@ interface FolderItemProps {
   isExpanded: boolean;
   onToggle: (id: string) => void;
   renderChildren: (item: LessonStructure, level: number) => React.ReactNode;
+  downloadState?: FolderDownloadState;
+  onDownload: (item: LessonStructure) => void;
+  completedCount: number;
+  lessonCount: number;
 }
 
-const FolderItem = memo<FolderItemProps>(({ item, level, isExpanded, onToggle, renderChildren }) => {
+const FolderItem = memo<FolderItemProps>(({ item, level, isExpanded, onToggle, renderChildren, downloadState, onDownload, completedCount, lessonCount }) => {
   const paddingLeft = `${level * 20 + 12}px`;
+  const isDownloading = downloadState?.status === 'downloading';
+  const isDownloaded = downloadState?.status === 'done' && downloadState.failed === 0;
+
+  const handleDownloadClick = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    onDownload(item);
+  }, [item, onDownload]);
 
   return (
     <div className="folder-item">
@@ -40,7 +79,47 @@ const FolderItem = memo<FolderItemProps>(({ item, level, isExpanded, onToggle, r
         </div>
         <Folder size={16} />
         <span className="folder-name">{item.name}</span>
+        {lessonCount > 0 && (
+          <span
+            className={`folder-progress-count ${completedCount === lessonCount ? 'complete' : ''}`}
+            title={`Пройдено ${completedCount} из ${lessonCount}`}
+          >
+            {completedCount}/{lessonCount}
+          </span>
+        )}
+        <button
+          className={`folder-download-btn ${isDownloaded ? 'downloaded' : ''}`}
+          onClick={handleDownloadClick}
+          disabled={isDownloading}
+          title={
+            isDownloaded
+              ? 'Доступно офлайн'
+              : downloadState?.status === 'done'
+              ? `Скачано ${downloadState.completed} из ${downloadState.total}, нажмите, чтобы повторить`
+              : 'Скачать папку для чтения офлайн'
+          }
+        >
+          {isDownloading ? (
+            <span className="folder-download-progress">
+              {downloadState.completed + downloadState.failed}/{downloadState.total}
+            </span>
+          ) : isDownloaded ? (
+            <CheckCircle size={16} />
+          ) : (
+            <Download size={16} />
+          )}
+        </button>
       </div>
+      {isDownloading && (
+        <div className="folder-download-bar" style={{ marginLeft: paddingLeft }}>
+          <div
+            className="folder-download-bar-fill"
+            style={{
+              width: `${((downloadState.completed + downloadState.failed) / Math.max(downloadState.total, 1)) * 100}%`
+            }}
+          />
+        </div>
+      )}
       {isExpanded && item.children && (
         <div className="folder-children">
           {item.children.map(child => renderChildren(child, level + 1))}
@@ -55,33 +134,36 @@ FolderItem.displayName = 'FolderItem';
 interface LessonItemProps {
   item: LessonStructure;
   level: number;
-  isSubscribed: boolean;
+  isLocked: boolean;
+  progress?: LessonProgress;
+  isNew: boolean;
   onLessonSelect: (path: string) => void;
-  onSubscriptionRequired: () => void;
 }
 
-const LessonItem = memo<LessonItemProps>(({ item, level, isSubscribed, onLessonSelect, onSubscriptionRequired }) => {
+const LessonItem = memo<LessonItemProps>(({ item, level, isLocked, progress, isNew, onLessonSelect }) => {
   const paddingLeft = `${level * 20 + 12}px`;
 
   const handleClick = useCallback(() => {
-    const isPremiumLesson = item.path.includes('Средний уровень (Подписка)') || item.path.includes('🎓');
-    
-    if (isPremiumLesson && !isSubscribed) {
-      onSubscriptionRequired();
-      return;
-    }
-    
     onLessonSelect(item.path);
-  }, [item.path, isSubscribed, onLessonSelect, onSubscriptionRequired]);
+  }, [item.path, onLessonSelect]);
 
   return (
     <div
-      className="lesson-item"
+      className={`lesson-item ${isLocked ? 'locked' : ''}`}
       style={{ paddingLeft }}
       onClick={handleClick}
     >
-      <File size={16} />
+      {isLocked ? (
+        <Lock size={16} className="lesson-status-icon locked" />
+      ) : isLessonCompleted(progress) ? (
+        <CheckCircle size={16} className="lesson-status-icon completed" />
+      ) : progress && progress.completionScore > 0 ? (
+        <ProgressRing value={progress.completionScore} />
+      ) : (
+        <File size={16} />
+      )}
       <span className="lesson-name">{item.name}</span>
+      {isNew && <span className="lesson-new-badge">NEW</span>}
     </div>
   );
 });
@@ -94,13 +176,16 @@ const Sidebar: React.FC<SidebarProps> = memo(({
   onToggle,
   onLessonSelect,
   onSearch,
-  isSubscribed,
-  onSubscriptionRequired
+  searchQuery,
+  onSearchQueryChange,
+  isLessonLocked,
+  lessonProgress,
+  newLessonPaths
 }) => {
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
-  const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
+  const { downloads, downloadFolder } = useOfflineDownload();
 
   // Memoize the structure rendering to avoid unnecessary re-renders
   const memoizedStructure = useMemo(() => structure, [structure]);
@@ -111,7 +196,7 @@ const Sidebar: React.FC<SidebarProps> = memo(({
       if (searchQuery.trim()) {
         setIsSearching(true);
         try {
-          const results = await onSearch(searchQuery);
+          const results = await onSearch(searchQuery, abortController.signal);
           if (!abortController.signal.aborted) {
             setSearchResults(results);
           }
@@ -153,6 +238,7 @@ const Sidebar: React.FC<SidebarProps> = memo(({
     const isExpanded = expandedFolders.has(item.id);
 
     if (item.type === 'folder') {
+      const folderProgress = getFolderProgress(item, lessonProgress);
       return (
         <FolderItem
           key={item.id}
@@ -161,6 +247,10 @@ const Sidebar: React.FC<SidebarProps> = memo(({
           isExpanded={isExpanded}
           onToggle={toggleFolder}
           renderChildren={renderStructureItem}
+          downloadState={downloads[item.id]}
+          onDownload={downloadFolder}
+          completedCount={folderProgress.completed}
+          lessonCount={folderProgress.total}
         />
       );
     }
@@ -170,12 +260,13 @@ const Sidebar: React.FC<SidebarProps> = memo(({
         key={item.id}
         item={item}
         level={level}
-        isSubscribed={isSubscribed}
+        isLocked={isLessonLocked(item.path, item.access)}
+        progress={lessonProgress[item.path]}
+        isNew={newLessonPaths.has(item.path)}
         onLessonSelect={onLessonSelect}
-        onSubscriptionRequired={onSubscriptionRequired}
       />
     );
-  }, [expandedFolders, toggleFolder, isSubscribed, onLessonSelect, onSubscriptionRequired]);
+  }, [expandedFolders, toggleFolder, downloads, downloadFolder, lessonProgress, isLessonLocked, newLessonPaths, onLessonSelect]);
 
   const renderSearchResults = useCallback(() => {
     if (isSearching) {
@@ -192,24 +283,24 @@ const Sidebar: React.FC<SidebarProps> = memo(({
         className={`search-result ${result.type}`}
         onClick={() => {
           if (result.type === 'lesson') {
-            const isPremiumLesson = result.path.includes('Средний уровень (Подписка)') || result.path.includes('🎓');
-            
-            if (isPremiumLesson && !isSubscribed) {
-              onSubscriptionRequired();
-              return;
-            }
-            
-            onLessonSelect(result.path);
-            setSearchQuery('');
+            // Leave the search route before the lesson route is pushed
+            onSearchQueryChange('');
             setSearchResults([]);
+            onLessonSelect(result.path);
           }
         }}
       >
-        {result.type === 'lesson' ? <File size={16} /> : <Folder size={16} />}
+        {result.type !== 'lesson' ? (
+          <Folder size={16} />
+        ) : isLessonLocked(result.path, result.access) ? (
+          <Lock size={16} className="lesson-status-icon locked" />
+        ) : (
+          <File size={16} />
+        )}
         <span>{result.name}</span>
       </div>
     ));
-  }, [isSearching, searchResults, searchQuery, isSubscribed, onLessonSelect, onSubscriptionRequired]);
+  }, [isSearching, searchResults, searchQuery, isLessonLocked, onLessonSelect, onSearchQueryChange]);
 
   return (
     <>
@@ -233,7 +324,7 @@ const Sidebar: React.FC<SidebarProps> = memo(({
               type="text"
               placeholder="Search lessons..."
               value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              onChange={(e) => onSearchQueryChange(e.target.value)}
               className="search-input"
             />
           </div>
@@ -1,13 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { ExternalLink, CheckCircle, UserCheck } from 'lucide-react';
+import { apiClient, getErrorMessage, NetworkError } from '../services/apiClient';
+import { authSession } from '../services/authSession';
 import './SubscriptionCheck.css';
 
+interface SubscriptionVerifyResponse {
+  verified: boolean;
+  message?: string;
+  error?: string;
+}
+
 interface SubscriptionCheckProps {
   onSubscriptionVerified: () => void;
   onBack?: () => void;
+  /** Render as a panel inside the lesson (paywall preview) instead of a full screen */
+  inline?: boolean;
 }
 
-const SubscriptionCheck: React.FC<SubscriptionCheckProps> = ({ onSubscriptionVerified, onBack }) => {
+const SubscriptionCheck: React.FC<SubscriptionCheckProps> = ({ onSubscriptionVerified, onBack, inline = false }) => {
   const [isChecking, setIsChecking] = useState(false);
   const [step, setStep] = useState<'initial' | 'redirected' | 'verified'>('initial');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -72,40 +82,17 @@ const SubscriptionCheck: React.FC<SubscriptionCheckProps> = ({ onSubscriptionVer
     setErrorMessage(null);
     
     try {
-      let telegramUserId = window.Telegram?.WebApp?.initDataUnsafe?.user?.id;
-      
-      console.log('DEBUG: Telegram User ID:', telegramUserId);
       console.log('DEBUG: Telegram WebApp available:', !!window.Telegram?.WebApp);
       
-      if (!telegramUserId) {
+      if (!authSession.canAuthenticate()) {
         setErrorMessage('Не удалось получить данные пользователя Telegram. Попробуйте перезагрузить приложение.');
         return;
       }
       
       // Отправляем запрос на сервер для проверки подписки
-      const apiUrl = process.env.REACT_APP_API_URL || '';
-      
-      const requestBody = {
-        telegram_user_id: telegramUserId
-      };
-      
-      const response = await fetch(`${apiUrl}/api/subscription/verify`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody)
-      });
-      
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const result = await response.json();
+      const result = await apiClient.post<SubscriptionVerifyResponse>('/api/subscription/verify');
       
       console.log('DEBUG: API Response:', result);
-      console.log('DEBUG: Response status:', response.status);
       
       if (result.verified) {
         // Пользователь подписан
@@ -136,7 +123,9 @@ const SubscriptionCheck: React.FC<SubscriptionCheckProps> = ({ onSubscriptionVer
       localStorage.removeItem('telegram_subscription_verified');
       
       
-      setErrorMessage('Произошла ошибка при проверке подписки. Проверьте подключение к интернету и попробуйте снова.');
+      setErrorMessage(error instanceof NetworkError
+        ? getErrorMessage(error)
+        : 'Произошла ошибка при проверке подписки. Проверьте подключение к интернету и попробуйте снова.');
       setStep('initial');
     } finally {
       setIsChecking(false);
@@ -145,7 +134,7 @@ const SubscriptionCheck: React.FC<SubscriptionCheckProps> = ({ onSubscriptionVer
 
   if (step === 'verified') {
     return (
-      <div className="subscription-success">
+      <div className={`subscription-success ${inline ? 'inline' : ''}`}>
         <CheckCircle className="success-icon" />
         <h3>Подписка подтверждена!</h3>
         <p>Спасибо за подписку на {TELEGRAM_CHANNEL_USERNAME}</p>
@@ -154,11 +143,11 @@ const SubscriptionCheck: React.FC<SubscriptionCheckProps> = ({ onSubscriptionVer
   }
 
   return (
-    <div className="subscription-check">
+    <div className={`subscription-check ${inline ? 'inline' : ''}`}>
       <div className="subscription-content">
         <div className="subscription-header">
           <UserCheck className="subscription-icon" />
-          <h2>Подпишитесь на наш канал</h2>
+          <h2>{inline ? 'Продолжение урока — для подписчиков' : 'Подпишитесь на наш канал'}</h2>
         </div>
         
         <div className="subscription-body">
@@ -0,0 +1,49 @@
+import React, { memo } from 'react';
+import { X } from 'lucide-react';
+import { TocItem } from '../types';
+
+interface TableOfContentsProps {
+  items: TocItem[];
+  activeId: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onSelect: (id: string) => void;
+}
+
+/**
+ * Collapsible drawer listing the lesson's headings, current section highlighted
+ */
+const TableOfContents: React.FC<TableOfContentsProps> = memo(({ items, activeId, isOpen, onClose, onSelect }) => {
+  const minLevel = Math.min(...items.map(item => item.level));
+
+  return (
+    <>
+      {isOpen && <div className="toc-overlay" onClick={onClose} />}
+      <nav className={`toc-drawer ${isOpen ? 'open' : ''}`} aria-hidden={!isOpen}>
+        <div className="toc-header">
+          <h3>Содержание</h3>
+          <button className="toc-close-btn" onClick={onClose} title="Закрыть">
+            <X size={18} />
+          </button>
+        </div>
+        <ul className="toc-list">
+          {items.map(item => (
+            <li key={item.id}>
+              <button
+                className={`toc-item ${item.id === activeId ? 'active' : ''}`}
+                style={{ paddingLeft: `${(item.level - minLevel) * 14 + 12}px` }}
+                onClick={() => onSelect(item.id)}
+              >
+                {item.text}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </nav>
+    </>
+  );
+});
+
+TableOfContents.displayName = 'TableOfContents';
+
+export default TableOfContents;
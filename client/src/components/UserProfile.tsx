@@ -1,5 +1,5 @@
-import React, { Suspense } from 'react';
-import { X, User } from 'lucide-react';
+import React, { Suspense, useEffect, useState } from 'react';
+import { X, User, HardDrive } from 'lucide-react';
 
 // Lazy load the progress dashboard
 const ProgressDashboard = React.lazy(() => import('./ProgressDashboardSimple'));
@@ -14,7 +14,37 @@ interface UserProfileProps {
   };
 }
 
+interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} Б`;
+  const units = ['КБ', 'МБ', 'ГБ'];
+  let value = bytes / 1024;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+  return `${value.toFixed(1)} ${units[unitIndex]}`;
+};
+
 const UserProfile: React.FC<UserProfileProps> = ({ onClose, telegramUser }) => {
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+
+  // Offline storage readout (lesson cache, app shell)
+  useEffect(() => {
+    if (!navigator.storage?.estimate) return;
+
+    navigator.storage.estimate()
+      .then(estimate => {
+        setStorageUsage({ usage: estimate.usage || 0, quota: estimate.quota || 0 });
+      })
+      .catch(error => console.warn('Failed to estimate storage usage:', error));
+  }, []);
+
   const displayName = telegramUser?.username 
     ? `@${telegramUser.username}`
     : telegramUser?.first_name
@@ -51,6 +81,28 @@ const UserProfile: React.FC<UserProfileProps> = ({ onClose, telegramUser }) => {
             </div>
           </div>
 
+          {/* Offline Storage */}
+          {storageUsage && (
+            <div className="storage-usage-section">
+              <div className="storage-usage-header">
+                <HardDrive size={16} />
+                <span>Офлайн-хранилище</span>
+                <span className="storage-usage-value">
+                  {formatBytes(storageUsage.usage)}
+                  {storageUsage.quota > 0 && ` из ${formatBytes(storageUsage.quota)}`}
+                </span>
+              </div>
+              {storageUsage.quota > 0 && (
+                <div className="storage-usage-bar">
+                  <div
+                    className="storage-usage-bar-fill"
+                    style={{ width: `${Math.min((storageUsage.usage / storageUsage.quota) * 100, 100)}%` }}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Progress Dashboard */}
           <div className="progress-section">
             <Suspense fallback={
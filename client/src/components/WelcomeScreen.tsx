@@ -1,16 +1,22 @@
 import React, { useEffect, useState } from 'react';
 import { useLastReadLesson } from '../hooks/useLastReadLesson';
+import { ScrollAnchor } from '../types';
 
 interface WelcomeScreenProps {
   welcomeAnimationsEnabled: boolean;
   onOpenSidebar: () => void;
-  onContinueLearning?: (lessonPath: string, scrollPosition: number) => void;
+  onContinueLearning?: (lessonPath: string, scrollAnchor?: ScrollAnchor) => void;
+  /** Flashcards due for review today */
+  dueCardCount?: number;
+  onStartReview?: () => void;
 }
 
 const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ 
   welcomeAnimationsEnabled, 
   onOpenSidebar,
-  onContinueLearning
+  onContinueLearning,
+  dueCardCount = 0,
+  onStartReview
 }) => {
   const [isVisible, setIsVisible] = useState(!welcomeAnimationsEnabled);
   const [showContent, setShowContent] = useState(!welcomeAnimationsEnabled);
@@ -38,7 +44,7 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({
 
   const handleContinueLearning = () => {
     if (lastReadLesson && onContinueLearning) {
-      onContinueLearning(lastReadLesson.path, lastReadLesson.scrollPosition);
+      onContinueLearning(lastReadLesson.path, lastReadLesson.scrollAnchor);
     }
   };
 
@@ -117,7 +123,12 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({
           <span className="button-icon">→</span>
           <div className="button-ripple"></div>
         </button>
-        
+
+        {dueCardCount > 0 && onStartReview && (
+          <button className="start-review-btn" onClick={onStartReview}>
+            Повторение · {dueCardCount}
+          </button>
+        )}
 
       </div>
     </div>
@@ -10,7 +10,8 @@ export const API_CONFIG = {
 export const TELEGRAM_CONFIG = {
   CHANNEL_URL: 'https://t.me/DailyTradiBlog',
   CHANNEL_USERNAME: '@H.E.A.R.T.',
-  AUTHORIZED_USER_IDS: ['781182099', '5974666109'],
+  BOT_USERNAME: process.env.REACT_APP_TELEGRAM_BOT_USERNAME || '',
+  MINI_APP_NAME: process.env.REACT_APP_TELEGRAM_APP_NAME || '',
 } as const;
 
 export const CACHE_CONFIG = {
@@ -26,6 +27,27 @@ export const UI_CONFIG = {
   WELCOME_ANIMATION_DELAY: 100, // milliseconds
 } as const;
 
+export const PREVIEW_CONFIG = {
+  PARAGRAPH_COUNT: 3, // paragraphs of a locked lesson shown before the paywall
+} as const;
+
+export const FLASHCARD_CONFIG = {
+  NEW_CARDS_PER_DAY: 20, // cards never reviewed before, introduced per day
+} as const;
+
+export const REPLAY_CONFIG = {
+  DEFAULT_START: 60, // bars visible before a replay begins
+  PLAY_INTERVAL: 700, // milliseconds per bar when playing
+} as const;
+
+export const DRILL_CONFIG = {
+  QUESTIONS_PER_ROUND: 10,
+  QUESTION_TIME: 15, // seconds per snippet
+  ANSWER_OPTIONS: 4,
+  WEAK_MIN_ATTEMPTS: 3, // answers needed before a pattern can count as weak
+  WEAK_ACCURACY: 0.6,
+} as const;
+
 export const THEME_CONFIG = {
   DEFAULT_THEME: 'dark' as const,
   TELEGRAM_HEADER_COLOR: '#1e1e1e',
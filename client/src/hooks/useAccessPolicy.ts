@@ -0,0 +1,37 @@
+import { useMemo, useCallback } from 'react';
+import { AccessLevel, LessonStructure } from '../types';
+import { buildAccessIndex, canAccessLevel, resolveAccessLevel } from '../utils/accessPolicy';
+import { lessonService } from '../services/lessonService';
+
+/**
+ * Locking decisions for the tree, search, navigation and internal links
+ */
+export const useAccessPolicy = (structure: LessonStructure[], isSubscribed: boolean, tiers: string[]) => {
+  const accessIndex = useMemo(() => buildAccessIndex(structure), [structure]);
+
+  const getAccessLevel = useCallback((path: string, explicit?: AccessLevel) => {
+    return resolveAccessLevel(path, accessIndex, explicit);
+  }, [accessIndex]);
+
+  const isLevelLocked = useCallback((level: AccessLevel) => {
+    return !canAccessLevel(level, { isSubscribed, tiers });
+  }, [isSubscribed, tiers]);
+
+  const isLessonLocked = useCallback((path: string, explicit?: AccessLevel) => {
+    return isLevelLocked(getAccessLevel(path, explicit));
+  }, [isLevelLocked, getAccessLevel]);
+
+  // Locally locked lessons get a second opinion from the server, which knows about
+  // grants made after the subscription status was loaded
+  const canOpenLesson = useCallback(async (path: string) => {
+    if (!isLessonLocked(path)) return true;
+    return lessonService.checkLessonAccess(path);
+  }, [isLessonLocked]);
+
+  return {
+    getAccessLevel,
+    isLevelLocked,
+    isLessonLocked,
+    canOpenLesson
+  };
+};
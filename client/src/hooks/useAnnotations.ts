@@ -0,0 +1,59 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { annotationService } from '../services/annotationService';
+import { Annotation, HighlightColor, TextQuoteSelector } from '../utils/annotations';
+
+const createAnnotationId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * The student's highlights and notes, for one lesson or (without a path) all of them.
+ * Changes are saved locally and synced.
+ */
+export const useAnnotations = (lessonPath?: string) => {
+  const [allAnnotations, setAllAnnotations] = useState<Record<string, Annotation> | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    annotationService.getAnnotations().then(annotations => {
+      if (!cancelled) setAllAnnotations(annotations);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Newest first
+  const annotations = useMemo(() => Object.values(allAnnotations || {})
+    .filter(annotation => !annotation.deletedAt && (!lessonPath || annotation.lessonPath === lessonPath))
+    .sort((a, b) => b.createdAt - a.createdAt), [allAnnotations, lessonPath]);
+
+  const store = useCallback((annotation: Annotation) => {
+    setAllAnnotations(current => ({ ...current, [annotation.id]: annotation }));
+    annotationService.saveAnnotation(annotation);
+  }, []);
+
+  const addAnnotation = useCallback((path: string, selector: TextQuoteSelector, color: HighlightColor, note = '') => {
+    const now = Date.now();
+    store({ id: createAnnotationId(), lessonPath: path, selector, color, note, createdAt: now, updatedAt: now });
+  }, [store]);
+
+  const updateAnnotation = useCallback((id: string, changes: Partial<Pick<Annotation, 'color' | 'note'>>) => {
+    const existing = allAnnotations?.[id];
+    if (!existing) return;
+    store({ ...existing, ...changes, updatedAt: Date.now() });
+  }, [allAnnotations, store]);
+
+  const deleteAnnotation = useCallback((id: string) => {
+    const existing = allAnnotations?.[id];
+    if (!existing) return;
+    const now = Date.now();
+    store({ ...existing, deletedAt: now, updatedAt: now });
+  }, [allAnnotations, store]);
+
+  return {
+    loading: allAnnotations === null,
+    annotations,
+    addAnnotation,
+    updateAnnotation,
+    deleteAnnotation
+  };
+};
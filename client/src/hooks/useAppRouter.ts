@@ -0,0 +1,47 @@
+import { useState, useCallback, useEffect } from 'react';
+import { AppRoute, parseRoute, buildRouteUrl, isSameRoute } from '../utils/routing';
+
+interface NavigateOptions {
+  replace?: boolean;
+}
+
+const readCurrentRoute = (): AppRoute => {
+  return parseRoute(window.location.pathname, window.location.search);
+};
+
+/**
+ * History API based router: keeps the current route in sync with the address bar
+ * and the browser back/forward buttons.
+ */
+export const useAppRouter = () => {
+  const [route, setRoute] = useState<AppRoute>(readCurrentRoute);
+
+  const navigate = useCallback((nextRoute: AppRoute, options: NavigateOptions = {}) => {
+    const url = buildRouteUrl(nextRoute);
+    // Keep the hash: Telegram stores its launch params there
+    const fullUrl = `${url}${window.location.hash}`;
+
+    if (options.replace) {
+      window.history.replaceState(null, '', fullUrl);
+    } else if (!isSameRoute(nextRoute, readCurrentRoute())) {
+      window.history.pushState(null, '', fullUrl);
+    }
+
+    setRoute(nextRoute);
+  }, []);
+
+  // Sync with browser back/forward
+  useEffect(() => {
+    const handlePopState = () => {
+      setRoute(readCurrentRoute());
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  return {
+    route,
+    navigate
+  };
+};
@@ -0,0 +1,20 @@
+import { useState, useEffect, useCallback } from 'react';
+import { authSession } from '../services/authSession';
+
+/**
+ * Exposes the "session expired" state of the API authentication
+ */
+export const useAuthSession = () => {
+  const [sessionExpired, setSessionExpired] = useState(authSession.isExpired());
+
+  useEffect(() => authSession.subscribe(setSessionExpired), []);
+
+  const resetSession = useCallback(() => {
+    authSession.reset();
+  }, []);
+
+  return {
+    sessionExpired,
+    resetSession
+  };
+};
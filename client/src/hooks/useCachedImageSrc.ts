@@ -0,0 +1,35 @@
+import { useState, useEffect } from 'react';
+import { lessonCache } from '../services/lessonCache';
+
+/**
+ * Resolves an image URL to an object URL from the offline lesson cache when available.
+ * Returns null while the cache lookup is pending, then either the cached or the original URL.
+ */
+export const useCachedImageSrc = (src: string): string | null => {
+  const [resolvedSrc, setResolvedSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    setResolvedSrc(null);
+    lessonCache.getImage(src).then(blob => {
+      if (cancelled) return;
+      if (blob) {
+        objectUrl = URL.createObjectURL(blob);
+        setResolvedSrc(objectUrl);
+      } else {
+        setResolvedSrc(src);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    };
+  }, [src]);
+
+  return resolvedSrc;
+};
@@ -0,0 +1,89 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { AccessLevel, LessonStructure } from '../types';
+import { LessonProgress } from '../services/progressService';
+import { flashcardService } from '../services/flashcardService';
+import { collectLessons, getReadableLessonPaths } from '../utils/lessonTree';
+import { Flashcard } from '../utils/flashcards';
+import { CardReviewState, countIntroducedToday, isCardDue, reviewCard, ReviewGrade } from '../utils/spacedRepetition';
+import { FLASHCARD_CONFIG } from '../constants/config';
+
+/**
+ * Flashcard deck and spaced-repetition state.
+ * Cards come from readable lessons the student has opened; the deck is only read
+ * once `enabled` is set (home or review screen), the review states load right away.
+ */
+export const useFlashcards = (
+  structure: LessonStructure[],
+  isLessonLocked: (path: string, explicit?: AccessLevel) => boolean,
+  lessonProgress: Record<string, LessonProgress>,
+  enabled: boolean
+) => {
+  const [cards, setCards] = useState<Flashcard[] | null>(null);
+  const [reviewStates, setReviewStates] = useState<Record<string, CardReviewState>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    flashcardService.getReviewStates().then(states => {
+      if (!cancelled) setReviewStates(states);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Lessons whose cards are in the deck: opened ones plus any with reviewed cards.
+  // Recomputed with every review, so the list is keyed on its contents to stay stable.
+  const deckKey = useMemo(() => {
+    const reviewedPaths = new Set(Object.keys(reviewStates).map(cardId => cardId.split('#')[0]));
+    return collectLessons(structure)
+      .filter(lesson => !isLessonLocked(lesson.path, lesson.access))
+      .filter(lesson => lessonProgress[lesson.path] || reviewedPaths.has(lesson.path))
+      .map(lesson => lesson.path)
+      .join('\n');
+  }, [structure, isLessonLocked, lessonProgress, reviewStates]);
+  const deckPaths = useMemo(() => (deckKey ? deckKey.split('\n') : []), [deckKey]);
+  const readablePaths = useMemo(() => getReadableLessonPaths(structure, isLessonLocked), [structure, isLessonLocked]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    if (deckPaths.length === 0) {
+      setCards([]);
+      return;
+    }
+
+    let cancelled = false;
+    flashcardService.loadDeck(readablePaths, deckPaths)
+      .then(deck => {
+        if (!cancelled) setCards(deck);
+      })
+      .catch(error => console.warn('Failed to load flashcards:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, readablePaths, deckPaths]);
+
+  // Reviews due today first, then what is left of today's batch of new cards
+  const dueCards = useMemo(() => {
+    if (!cards) return [];
+    const now = Date.now();
+    const due = cards.filter(card => reviewStates[card.id] && isCardDue(reviewStates[card.id], now));
+    const newLeft = Math.max(0, FLASHCARD_CONFIG.NEW_CARDS_PER_DAY - countIntroducedToday(Object.values(reviewStates), now));
+    const fresh = cards.filter(card => !reviewStates[card.id]).slice(0, newLeft);
+    return [...due, ...fresh];
+  }, [cards, reviewStates]);
+
+  // Before the deck is read, the stored states alone give the count of due reviews
+  const dueCount = useMemo(() => {
+    if (cards) return dueCards.length;
+    const now = Date.now();
+    return Object.values(reviewStates).filter(state => isCardDue(state, now)).length;
+  }, [cards, dueCards, reviewStates]);
+
+  const gradeCard = useCallback((cardId: string, grade: ReviewGrade) => {
+    const next = reviewCard(cardId, reviewStates[cardId], grade);
+    setReviewStates(current => ({ ...current, [cardId]: next }));
+    flashcardService.saveReviewState(next);
+  }, [reviewStates]);
+
+  return { cards, dueCards, dueCount, gradeCard };
+};
@@ -0,0 +1,45 @@
+import { useState, useEffect, useMemo } from 'react';
+import { AccessLevel, LessonStructure } from '../types';
+import { glossaryService } from '../services/glossaryService';
+import { collectLessons, getReadableLessonPaths } from '../utils/lessonTree';
+import { GlossaryTerm, isGlossaryPath } from '../utils/glossary';
+
+/**
+ * Glossary terms from the readable notes of the glossary folder.
+ * Read once `enabled` is set (a lesson or the glossary screen is open).
+ */
+export const useGlossary = (
+  structure: LessonStructure[],
+  isLessonLocked: (path: string, explicit?: AccessLevel) => boolean,
+  enabled: boolean
+) => {
+  const [terms, setTerms] = useState<GlossaryTerm[] | null>(null);
+
+  // Keyed on its contents: the structure is rebuilt on refreshes that change no notes
+  const termKey = useMemo(() => collectLessons(structure)
+    .filter(lesson => isGlossaryPath(lesson.path) && !isLessonLocked(lesson.path, lesson.access))
+    .map(lesson => lesson.path)
+    .join('\n'), [structure, isLessonLocked]);
+  const termPaths = useMemo(() => (termKey ? termKey.split('\n') : []), [termKey]);
+  const readablePaths = useMemo(() => getReadableLessonPaths(structure, isLessonLocked), [structure, isLessonLocked]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    if (termPaths.length === 0) {
+      setTerms([]);
+      return;
+    }
+
+    let cancelled = false;
+    glossaryService.getGlossary(readablePaths, termPaths)
+      .then(result => {
+        if (!cancelled) setTerms(result);
+      })
+      .catch(error => console.warn('Failed to load the glossary:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, readablePaths, termPaths]);
+
+  return { terms };
+};
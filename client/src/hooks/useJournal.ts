@@ -0,0 +1,62 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { journalService } from '../services/journalService';
+import { breakdownByConcept, JournalEntry, summarizeJournal } from '../utils/journal';
+
+export type JournalDraft = Omit<JournalEntry, 'id' | 'createdAt' | 'updatedAt' | 'deletedAt'>;
+
+const createEntryId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * The student's trading journal with its stats; changes are saved locally and synced
+ */
+export const useJournal = () => {
+  const [allEntries, setAllEntries] = useState<Record<string, JournalEntry> | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    journalService.getEntries().then(entries => {
+      if (!cancelled) setAllEntries(entries);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Newest trades first
+  const entries = useMemo(() => Object.values(allEntries || {})
+    .filter(entry => !entry.deletedAt)
+    .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt - a.createdAt), [allEntries]);
+
+  const stats = useMemo(() => summarizeJournal(entries), [entries]);
+  const concepts = useMemo(() => breakdownByConcept(entries), [entries]);
+
+  const store = useCallback((entry: JournalEntry) => {
+    setAllEntries(current => ({ ...current, [entry.id]: entry }));
+    journalService.saveEntry(entry);
+  }, []);
+
+  /**
+   * Add a new entry, or update the one with the given id
+   */
+  const saveEntry = useCallback((draft: JournalDraft, id?: string) => {
+    const now = Date.now();
+    const existing = id ? allEntries?.[id] : undefined;
+    store({ ...draft, id: existing?.id || createEntryId(), createdAt: existing?.createdAt || now, updatedAt: now });
+  }, [allEntries, store]);
+
+  const deleteEntry = useCallback((id: string) => {
+    const existing = allEntries?.[id];
+    if (!existing) return;
+    const now = Date.now();
+    store({ ...existing, deletedAt: now, updatedAt: now });
+  }, [allEntries, store]);
+
+  return {
+    loading: allEntries === null,
+    entries,
+    stats,
+    concepts,
+    saveEntry,
+    deleteEntry
+  };
+};
@@ -1,10 +1,13 @@
 import { useState, useEffect } from 'react';
+import { ScrollAnchor } from '../types';
 
 interface LastReadLesson {
   path: string;
   title: string;
   timestamp: number;
-  scrollPosition: number;
+  scrollAnchor?: ScrollAnchor;
+  /** Raw scrollTop saved by older versions */
+  scrollPosition?: number;
 }
 
 export const useLastReadLesson = () => {
@@ -22,6 +25,9 @@ export const useLastReadLesson = () => {
           const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000);
           
           if (lesson.timestamp > thirtyDaysAgo) {
+            if (!lesson.scrollAnchor && lesson.scrollPosition) {
+              lesson.scrollAnchor = { heading: null, offset: lesson.scrollPosition };
+            }
             setLastReadLesson(lesson);
             setIsReturningUser(true);
           } else {
@@ -1,6 +1,8 @@
 import { useState, useCallback, useMemo, useEffect } from 'react';
-import { LessonStructure, Lesson } from '../types';
+import { LessonStructure, Lesson, ScrollAnchor } from '../types';
+import { StartParamTarget } from '../utils/startParam';
 import { lessonService } from '../services/lessonService';
+import { getErrorMessage } from '../services/apiClient';
 import { useLocalStorageBatch } from './useLocalStorageBatch';
 import { fixCorruptedRussianText, sanitizeLessonTitle, cleanupCorruptedLessonData } from '../utils/encodingUtils';
 
@@ -27,7 +29,7 @@ export const useLessonManagement = () => {
   }, []);
 
   // Update last read lesson
-  const updateLastReadLesson = useCallback((path: string, lesson: Lesson, scrollPosition: number) => {
+  const updateLastReadLesson = useCallback((path: string, lesson: Lesson, scrollAnchor: ScrollAnchor) => {
     const rawTitle = lesson.frontmatter?.title || 
                      extractTitleFromContent(lesson.content) ||
                      path.split('/').pop()?.replace('.md', '') || 
@@ -39,7 +41,7 @@ export const useLessonManagement = () => {
       path,
       title,
       timestamp: Date.now(),
-      scrollPosition
+      scrollAnchor
     };
     
     batchedLocalStorageSet('last_read_lesson', lastRead);
@@ -62,13 +64,13 @@ export const useLessonManagement = () => {
         setLoading(false);
       }, 800);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error');
+      setError(getErrorMessage(err));
       setLoading(false);
     }
   }, []);
 
   // Handle lesson selection
-  const handleLessonSelect = useCallback(async (lessonPath: string, scrollToPosition?: number) => {
+  const handleLessonSelect = useCallback(async (lessonPath: string, scrollAnchor?: ScrollAnchor) => {
     try {
       setError(null);
       
@@ -77,15 +79,29 @@ export const useLessonManagement = () => {
         setLessonHistory(prev => [...prev, selectedLesson.path]);
       }
       
-      const lessonData = await lessonService.fetchLessonContent(lessonPath);
+      const lessonData = await lessonService.fetchLessonContent(lessonPath, freshLesson => {
+        // Swap in the revalidated copy only if the reader is still on this lesson
+        setSelectedLesson(current => (current === lessonData ? freshLesson : current));
+      });
       setSelectedLesson(lessonData);
-      updateLastReadLesson(lessonPath, lessonData, scrollToPosition || 0);
+      updateLastReadLesson(lessonPath, lessonData, scrollAnchor || { heading: null, offset: 0 });
       
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load lesson');
+      setError(getErrorMessage(err, 'Failed to load lesson'));
     }
   }, [selectedLesson, updateLastReadLesson]);
 
+  // Open the paywall preview of a locked lesson (not recorded as last read)
+  const handleLessonPreview = useCallback(async (lessonPath: string) => {
+    try {
+      setError(null);
+      const preview = await lessonService.fetchLessonPreview(lessonPath);
+      setSelectedLesson(preview);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load lesson'));
+    }
+  }, []);
+
   // Handle back navigation
   const handleBackNavigation = useCallback(async () => {
     if (lessonHistory.length === 0) return;
@@ -94,20 +110,53 @@ export const useLessonManagement = () => {
     const newHistory = lessonHistory.slice(0, -1);
     
     try {
-      const lessonData = await lessonService.fetchLessonContent(previousLessonPath);
+      const lessonData = await lessonService.fetchLessonContent(previousLessonPath, freshLesson => {
+        setSelectedLesson(current => (current === lessonData ? freshLesson : current));
+      });
       setSelectedLesson(lessonData);
       setLessonHistory(newHistory);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load previous lesson');
+      setError(getErrorMessage(err, 'Failed to load previous lesson'));
     }
   }, [lessonHistory]);
 
+  // Resolve a deep-link target (lesson id or slug) to a lesson path
+  const resolveLessonTarget = useCallback(async (target: StartParamTarget): Promise<string | null> => {
+    const findInStructure = (items: LessonStructure[]): LessonStructure | undefined => {
+      for (const item of items) {
+        if (item.type === 'file') {
+          const baseName = (item.filename || item.name).replace(/\.md$/, '');
+          const matches = target.kind === 'id'
+            ? item.id === target.value
+            : baseName === target.value || item.name === target.value;
+          if (matches) return item;
+        }
+        const found = item.children && findInStructure(item.children);
+        if (found) return found;
+      }
+      return undefined;
+    };
+
+    const item = findInStructure(lessonStructure);
+    if (item) return item.path;
+    if (target.kind === 'id') return null;
+
+    try {
+      return await lessonService.resolveLessonPath(target.value);
+    } catch (err) {
+      console.error('Failed to resolve lesson slug:', err);
+      return null;
+    }
+  }, [lessonStructure]);
+
   // Search lessons
-  const handleSearch = useCallback(async (query: string) => {
+  const handleSearch = useCallback(async (query: string, signal?: AbortSignal) => {
     try {
-      return await lessonService.searchLessons(query);
+      return await lessonService.searchLessons(query, signal);
     } catch (err) {
-      console.error('Search error:', err);
+      if (!signal?.aborted) {
+        console.error('Search error:', err);
+      }
       return [];
     }
   }, []);
@@ -226,8 +275,11 @@ export const useLessonManagement = () => {
     
     // Actions
     handleLessonSelect,
+    handleLessonPreview,
     handleBackNavigation,
+    updateLastReadLesson,
     handleSearch,
+    resolveLessonTarget,
     fetchLessonStructure,
     setSelectedLesson,
     setError
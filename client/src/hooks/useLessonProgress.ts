@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+import { progressService, LessonProgress } from '../services/progressService';
+
+/**
+ * Per-lesson completion for the lesson tree.
+ * Refetched whenever refreshKey changes (e.g. after the reader leaves a lesson).
+ */
+export const useLessonProgress = (refreshKey?: string | null) => {
+  const [progress, setProgress] = useState<Record<string, LessonProgress>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    progressService.getLessonProgress().then(result => {
+      if (!cancelled) setProgress(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  return progress;
+};
@@ -0,0 +1,68 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { AccessLevel, LessonConnections, LessonLink, LessonStructure } from '../types';
+import { collectLessons, getReadableLessonPaths } from '../utils/lessonTree';
+import { getRelatedLessons, LinkGraph } from '../utils/linkGraph';
+import { linkGraphService } from '../services/linkGraphService';
+
+// Let the opened lesson load before the rest of the content is fetched
+const BUILD_DELAY = 2000;
+
+/**
+ * Backlinks and related lessons. The graph is built in the background the first time
+ * `enabled` is set (a lesson is open) and whenever the set of readable lessons changes.
+ */
+export const useLinkGraph = (
+  structure: LessonStructure[],
+  isLessonLocked: (path: string, explicit?: AccessLevel) => boolean,
+  enabled: boolean
+) => {
+  const [graph, setGraph] = useState<LinkGraph | null>(null);
+  const [started, setStarted] = useState(false);
+  const lessons = useMemo(() => collectLessons(structure), [structure]);
+
+  useEffect(() => {
+    if (enabled) setStarted(true);
+  }, [enabled]);
+
+  // Locked lessons cannot be read, so only links out of readable lessons are known
+  const readablePaths = useMemo(() => getReadableLessonPaths(structure, isLessonLocked), [structure, isLessonLocked]);
+
+  useEffect(() => {
+    if (!started || lessons.length === 0) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      linkGraphService.getLinkGraph(lessons.map(lesson => lesson.path), readablePaths)
+        .then(result => {
+          if (!cancelled) setGraph(result);
+        })
+        .catch(error => console.warn('Failed to build the lesson link graph:', error));
+    }, BUILD_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [started, lessons, readablePaths]);
+
+  const toLessonLink = useCallback((path: string): LessonLink | null => {
+    const lesson = lessons.find(item => item.path === path);
+    if (!lesson) return null;
+    return { path, name: lesson.name, locked: isLessonLocked(path, lesson.access) };
+  }, [lessons, isLessonLocked]);
+
+  const getConnections = useCallback((path: string): LessonConnections | null => {
+    if (!graph) return null;
+
+    const toLinks = (paths: string[]) => paths
+      .map(toLessonLink)
+      .filter((link): link is LessonLink => link !== null);
+
+    return {
+      backlinks: toLinks(graph.backlinks[path] || []).sort((a, b) => a.name.localeCompare(b.name)),
+      related: toLinks(getRelatedLessons(graph, path))
+    };
+  }, [graph, toLessonLink]);
+
+  return { graph, getConnections };
+};
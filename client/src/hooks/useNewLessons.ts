@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { LessonStructure } from '../types';
+import { collectLessons } from '../utils/lessonTree';
+
+const LAST_VISIT_KEY = 'lesson_tree_last_visit';
+
+interface LastVisit {
+  timestamp: number;
+  paths: string[];
+}
+
+const loadLastVisit = (): LastVisit | null => {
+  try {
+    const stored = localStorage.getItem(LAST_VISIT_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveVisit = (paths: string[]) => {
+  try {
+    const visit: LastVisit = { timestamp: Date.now(), paths };
+    localStorage.setItem(LAST_VISIT_KEY, JSON.stringify(visit));
+  } catch {
+    // Storage full or unavailable: badges just reset next time
+  }
+};
+
+/**
+ * Lessons added since the user's previous visit.
+ * Uses the API's createdAt when present, otherwise the lesson list remembered from last time.
+ * The previous visit is read once per session and the current one is recorded when the
+ * app is hidden or unmounted, so structure refreshes keep comparing against the same visit.
+ * The very first visit marks nothing as new.
+ */
+export const useNewLessons = (structure: LessonStructure[]) => {
+  const [newLessonPaths, setNewLessonPaths] = useState<Set<string>>(new Set());
+  const lastVisitRef = useRef<LastVisit | null | undefined>(undefined);
+  const currentPathsRef = useRef<string[] | null>(null);
+  const seenPathsRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (structure.length === 0) return;
+
+    if (lastVisitRef.current === undefined) {
+      lastVisitRef.current = loadLastVisit();
+    }
+    const lastVisit = lastVisitRef.current;
+    const lessons = collectLessons(structure);
+    currentPathsRef.current = lessons.map(lesson => lesson.path);
+
+    if (lastVisit) {
+      const knownPaths = new Set(lastVisit.paths);
+      const added = lessons.filter(lesson => {
+        if (seenPathsRef.current.has(lesson.path)) return false;
+        if (lesson.createdAt) {
+          return new Date(lesson.createdAt).getTime() > lastVisit.timestamp;
+        }
+        return !knownPaths.has(lesson.path);
+      });
+      setNewLessonPaths(new Set(added.map(lesson => lesson.path)));
+    }
+  }, [structure]);
+
+  useEffect(() => {
+    const recordVisit = () => {
+      if (currentPathsRef.current) saveVisit(currentPathsRef.current);
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') recordVisit();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      recordVisit();
+    };
+  }, []);
+
+  // Opening a lesson clears its badge
+  const markLessonSeen = useCallback((path: string) => {
+    seenPathsRef.current.add(path);
+    setNewLessonPaths(prev => {
+      if (!prev.has(path)) return prev;
+      const next = new Set(prev);
+      next.delete(path);
+      return next;
+    });
+  }, []);
+
+  return { newLessonPaths, markLessonSeen };
+};
@@ -0,0 +1,61 @@
+import { useState, useCallback, useRef } from 'react';
+import { LessonStructure } from '../types';
+import { lessonService } from '../services/lessonService';
+
+export interface FolderDownloadState {
+  total: number;
+  completed: number;
+  failed: number;
+  status: 'downloading' | 'done';
+}
+
+const collectLessonPaths = (item: LessonStructure): string[] => {
+  if (item.type === 'file') {
+    return [item.path];
+  }
+  return (item.children || []).flatMap(collectLessonPaths);
+};
+
+/**
+ * Prefetches every lesson (and its images) of a folder for offline reading;
+ * downloaded lessons are pinned in the cache and survive LRU eviction
+ */
+export const useOfflineDownload = () => {
+  const [downloads, setDownloads] = useState<Record<string, FolderDownloadState>>({});
+  const activeDownloads = useRef<Set<string>>(new Set());
+
+  const downloadFolder = useCallback(async (folder: LessonStructure) => {
+    if (activeDownloads.current.has(folder.id)) return;
+    activeDownloads.current.add(folder.id);
+
+    const lessonPaths = collectLessonPaths(folder);
+    const state: FolderDownloadState = {
+      total: lessonPaths.length,
+      completed: 0,
+      failed: 0,
+      status: 'downloading'
+    };
+    setDownloads(prev => ({ ...prev, [folder.id]: { ...state } }));
+
+    // Sequential on purpose: keeps the Mini App responsive on slow mobile connections
+    for (const lessonPath of lessonPaths) {
+      try {
+        await lessonService.downloadLessonForOffline(lessonPath);
+        state.completed++;
+      } catch (error) {
+        console.warn('Failed to download lesson for offline:', lessonPath, error);
+        state.failed++;
+      }
+      setDownloads(prev => ({ ...prev, [folder.id]: { ...state } }));
+    }
+
+    state.status = 'done';
+    setDownloads(prev => ({ ...prev, [folder.id]: { ...state } }));
+    activeDownloads.current.delete(folder.id);
+  }, []);
+
+  return {
+    downloads,
+    downloadFolder
+  };
+};
@@ -0,0 +1,178 @@
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { LessonStructure } from '../types';
+import { progressService } from '../services/progressService';
+import { drillService, PatternSnippet, PatternStats } from '../services/drillService';
+import { buildPatternSnippet, CANDLE_PATTERNS, CandlePatternId, detectPatterns } from '../utils/candlePatterns';
+import { collectLessons } from '../utils/lessonTree';
+import { DRILL_CONFIG } from '../constants/config';
+
+export interface DrillQuestion extends PatternSnippet {
+  options: CandlePatternId[];
+}
+
+export interface DrillAnswer {
+  question: DrillQuestion;
+  /** null when the time ran out */
+  answer: CandlePatternId | null;
+  correct: boolean;
+}
+
+export interface WeakPattern {
+  pattern: CandlePatternId;
+  accuracy: number;
+  lessonPath: string | null;
+}
+
+// Lessons about candlestick patterns in general, used when no lesson is about the pattern itself
+const GENERAL_PATTERN_LESSON = /паттерн|свеч|pattern|candl/i;
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const getAccuracy = (stats?: PatternStats) => (stats && stats.attempts > 0 ? stats.correct / stats.attempts : 1);
+
+const buildQuestion = (pattern: CandlePatternId, datasetSnippets: PatternSnippet[]): DrillQuestion => {
+  const fromDatasets = datasetSnippets.filter(snippet => snippet.pattern === pattern);
+  let snippet: PatternSnippet;
+  if (fromDatasets.length > 0 && Math.random() < 0.5) {
+    snippet = fromDatasets[Math.floor(Math.random() * fromDatasets.length)];
+  } else {
+    const candles = buildPatternSnippet(pattern, Math.floor(Math.random() * 100000));
+    const alsoMatches = detectPatterns(candles, candles.length - 1).filter(id => id !== pattern);
+    snippet = { pattern, candles, alsoMatches, source: 'generated' };
+  }
+
+  const distractors = shuffle(CANDLE_PATTERNS
+    .map(item => item.id)
+    .filter(id => id !== pattern && !snippet.alsoMatches.includes(id)))
+    .slice(0, DRILL_CONFIG.ANSWER_OPTIONS - 1);
+  return { ...snippet, options: shuffle([pattern, ...distractors]) };
+};
+
+/**
+ * Timed rounds of "name this pattern". Weak patterns come up more often and point
+ * back to the lesson about them.
+ */
+export const usePatternDrill = (structure: LessonStructure[]) => {
+  const [stats, setStats] = useState(drillService.getStats);
+  const [datasetSnippets, setDatasetSnippets] = useState<PatternSnippet[]>([]);
+  const [questions, setQuestions] = useState<DrillQuestion[]>([]);
+  const [answers, setAnswers] = useState<DrillAnswer[]>([]);
+  // Feedback stays on screen until the student moves on
+  const [reviewing, setReviewing] = useState(false);
+  const [timeLeft, setTimeLeft] = useState<number>(DRILL_CONFIG.QUESTION_TIME);
+  const questionStartedAt = useRef(Date.now());
+
+  useEffect(() => {
+    drillService.getDatasetSnippets()
+      .then(setDatasetSnippets)
+      .catch(error => console.warn('Failed to read pattern datasets:', error));
+  }, []);
+
+  const patternLessons = useMemo(() => {
+    const lessons = collectLessons(structure);
+    const general = lessons.find(lesson => GENERAL_PATTERN_LESSON.test(lesson.name));
+    const result: Partial<Record<CandlePatternId, string>> = {};
+    CANDLE_PATTERNS.forEach(pattern => {
+      const lesson = lessons.find(item => pattern.lessonKeywords.test(item.name)) || general;
+      if (lesson) result[pattern.id] = lesson.path;
+    });
+    return result;
+  }, [structure]);
+
+  const weakPatterns = useMemo<WeakPattern[]>(() => CANDLE_PATTERNS
+    .filter(pattern => {
+      const patternStats = stats[pattern.id];
+      return patternStats && patternStats.attempts >= DRILL_CONFIG.WEAK_MIN_ATTEMPTS &&
+        getAccuracy(patternStats) < DRILL_CONFIG.WEAK_ACCURACY;
+    })
+    .map(pattern => ({
+      pattern: pattern.id,
+      accuracy: getAccuracy(stats[pattern.id]),
+      lessonPath: patternLessons[pattern.id] || null
+    }))
+    .sort((a, b) => a.accuracy - b.accuracy), [stats, patternLessons]);
+
+  const current = questions[answers.length] as DrillQuestion | undefined;
+  const lastAnswer = answers[answers.length - 1];
+  const started = questions.length > 0;
+  const finished = started && answers.length === questions.length;
+
+  const startRound = useCallback(() => {
+    // Weak patterns get extra tickets in the draw
+    const pool = CANDLE_PATTERNS.flatMap(pattern =>
+      weakPatterns.some(weak => weak.pattern === pattern.id) ? [pattern.id, pattern.id, pattern.id] : [pattern.id]);
+    const round = Array.from({ length: DRILL_CONFIG.QUESTIONS_PER_ROUND }, () =>
+      buildQuestion(pool[Math.floor(Math.random() * pool.length)], datasetSnippets));
+    setQuestions(round);
+    setAnswers([]);
+    setReviewing(false);
+    setTimeLeft(DRILL_CONFIG.QUESTION_TIME);
+    questionStartedAt.current = Date.now();
+  }, [weakPatterns, datasetSnippets]);
+
+  const awaiting = Boolean(current) && !reviewing;
+
+  const submit = useCallback((choice: CandlePatternId | null) => {
+    if (!current || reviewing) return;
+    const correct = choice === current.pattern;
+    setAnswers(list => [...list, { question: current, answer: choice, correct }]);
+    setReviewing(true);
+    setStats(drillService.recordAnswer(current.pattern, correct));
+    progressService.trackEvent('pattern_drill_answer', patternLessons[current.pattern] || '', {
+      pattern: current.pattern,
+      answer: choice,
+      correct,
+      timedOut: choice === null,
+      timeMs: Date.now() - questionStartedAt.current,
+      source: current.source
+    });
+  }, [current, reviewing, patternLessons]);
+
+  const next = useCallback(() => {
+    setReviewing(false);
+    setTimeLeft(DRILL_CONFIG.QUESTION_TIME);
+    questionStartedAt.current = Date.now();
+  }, []);
+
+  useEffect(() => {
+    if (!awaiting) return;
+    if (timeLeft <= 0) {
+      submit(null);
+      return;
+    }
+    const timer = setTimeout(() => setTimeLeft(seconds => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [awaiting, timeLeft, submit]);
+
+  // Report the round once its last answer is in
+  const correctCount = answers.filter(item => item.correct).length;
+  useEffect(() => {
+    if (!finished) return;
+    progressService.trackEvent('pattern_drill_round', '', { correct: correctCount, total: questions.length });
+  }, [finished, correctCount, questions.length]);
+
+  return {
+    stats,
+    weakPatterns,
+    patternLessons,
+    started,
+    finished,
+    reviewing,
+    question: reviewing ? lastAnswer?.question : current,
+    lastAnswer: reviewing ? lastAnswer : undefined,
+    questionNumber: reviewing ? answers.length : answers.length + 1,
+    totalQuestions: questions.length,
+    correctCount,
+    timeLeft,
+    startRound,
+    submit,
+    next
+  };
+};
@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Permission, UserCapabilities, UserRole } from '../types';
+import { userService } from '../services/userService';
+
+/**
+ * Server-driven roles and permissions of the current user (from /api/me)
+ */
+export const usePermissions = () => {
+  const [capabilities, setCapabilities] = useState<UserCapabilities | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    userService.fetchCapabilities().then(result => {
+      if (!cancelled) setCapabilities(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const can = useCallback((permission: Permission) => {
+    return capabilities?.permissions.includes(permission) ?? false;
+  }, [capabilities]);
+
+  const hasRole = useCallback((role: UserRole) => {
+    return capabilities?.roles.includes(role) ?? false;
+  }, [capabilities]);
+
+  return {
+    capabilities,
+    loading: capabilities === null,
+    can,
+    hasRole,
+    // Any content-management permission opens the admin panel
+    canAccessAdminPanel: can('upload') || can('delete') || can('manage-users')
+  };
+};
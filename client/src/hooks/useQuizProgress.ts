@@ -0,0 +1,45 @@
+import { useMemo, useRef, useEffect, useCallback } from 'react';
+import { Lesson } from '../types';
+import { progressService } from '../services/progressService';
+import { extractQuizQuestions, QuizAnswer, QuizQuestion } from '../utils/quiz';
+
+/**
+ * Reports quiz answers as `quiz_answer` events and keeps the lesson's quiz score
+ * up to date on the server. The first attempt at each question is what counts.
+ */
+export const useQuizProgress = (lesson: Lesson | null) => {
+  const questions = useMemo(() => (lesson ? extractQuizQuestions(lesson.content) : []), [lesson]);
+  // The same question repeated in two blocks shares its id and is scored once
+  const questionIds = useMemo(() => new Set(questions.map(question => question.id)), [questions]);
+  const firstAttempts = useRef<Map<string, boolean>>(new Map());
+  const attemptCounts = useRef<Map<string, number>>(new Map());
+  const lessonPath = lesson?.path;
+
+  useEffect(() => {
+    firstAttempts.current = new Map();
+    attemptCounts.current = new Map();
+  }, [lessonPath]);
+
+  const recordAnswer = useCallback((question: QuizQuestion, answer: QuizAnswer, correct: boolean) => {
+    if (!lessonPath) return;
+
+    const attempt = (attemptCounts.current.get(question.id) || 0) + 1;
+    attemptCounts.current.set(question.id, attempt);
+    progressService.trackEvent('quiz_answer', lessonPath, {
+      questionId: question.id,
+      questionType: question.type,
+      answer,
+      correct,
+      attempt
+    });
+
+    // Quizzes of embedded notes are tracked but belong to their own lesson's score
+    if (!questionIds.has(question.id) || firstAttempts.current.has(question.id)) return;
+
+    firstAttempts.current.set(question.id, correct);
+    const correctCount = Array.from(firstAttempts.current.values()).filter(Boolean).length;
+    progressService.updateQuizScore(lessonPath, correctCount / questionIds.size, firstAttempts.current.size, questionIds.size);
+  }, [lessonPath, questionIds]);
+
+  return { recordAnswer };
+};
@@ -0,0 +1,149 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { progressService } from '../services/progressService';
+import { Candle } from '../utils/ohlc';
+import {
+  checkExit, closePosition, ExitReason, ReplayPosition, ReplayTrade, summarizeTrades, TradeSide, validateOrder
+} from '../utils/replay';
+import { REPLAY_CONFIG } from '../constants/config';
+
+interface ReplayState {
+  /** Index of the last revealed bar */
+  cursor: number;
+  position: ReplayPosition | null;
+  trades: ReplayTrade[];
+  finished: boolean;
+}
+
+export interface ReplayOrder {
+  side: TradeSide;
+  stop: number;
+  target?: number;
+  quantity: number;
+}
+
+const getStartIndex = (candles: Candle[], start?: number) =>
+  Math.min(Math.max((start ?? REPLAY_CONFIG.DEFAULT_START) - 1, 0), Math.max(candles.length - 2, 0));
+
+/**
+ * Bar-by-bar replay of a dataset with one paper position at a time.
+ * Closed trades are reported as `replay_trade` events, the finished session as `replay_session`.
+ */
+export const useReplaySession = (
+  candles: Candle[],
+  { datasetId, lessonPath = '', start }: { datasetId: string; lessonPath?: string; start?: number }
+) => {
+  const initialState = useCallback((): ReplayState => ({
+    cursor: getStartIndex(candles, start),
+    position: null,
+    trades: [],
+    finished: false
+  }), [candles, start]);
+
+  const [state, setState] = useState<ReplayState>(initialState);
+  const [playing, setPlaying] = useState(false);
+
+  // A new dataset starts a new session
+  useEffect(() => {
+    setState(initialState());
+    setPlaying(false);
+  }, [initialState]);
+
+  const reportTrade = useCallback((trade: ReplayTrade) => {
+    progressService.trackEvent('replay_trade', lessonPath, {
+      datasetId,
+      side: trade.side,
+      entryPrice: trade.entryPrice,
+      exitPrice: trade.exitPrice,
+      exitReason: trade.exitReason,
+      rMultiple: trade.rMultiple,
+      pnl: trade.pnl,
+      bars: trade.exitIndex - trade.entryIndex
+    });
+  }, [datasetId, lessonPath]);
+
+  const finish = useCallback((current: ReplayState, reason: ExitReason): ReplayState => {
+    const trades = current.position
+      ? [...current.trades, closePosition(current.position, current.cursor, candles[current.cursor].close, reason)]
+      : current.trades;
+    if (current.position) reportTrade(trades[trades.length - 1]);
+    progressService.trackEvent('replay_session', lessonPath, {
+      datasetId,
+      bars: current.cursor - getStartIndex(candles, start) + 1,
+      ...summarizeTrades(trades)
+    });
+    setPlaying(false);
+    return { ...current, position: null, trades, finished: true };
+  }, [candles, start, datasetId, lessonPath, reportTrade]);
+
+  const step = useCallback(() => {
+    if (state.finished || candles.length === 0) return;
+
+    const cursor = state.cursor + 1;
+    let next: ReplayState = { ...state, cursor };
+    const exit = state.position ? checkExit(state.position, candles[cursor]) : null;
+    if (state.position && exit) {
+      const trade = closePosition(state.position, cursor, exit.price, exit.reason);
+      reportTrade(trade);
+      next = { ...next, position: null, trades: [...state.trades, trade] };
+    }
+    if (cursor >= candles.length - 1) next = finish(next, 'end');
+    setState(next);
+  }, [state, candles, reportTrade, finish]);
+
+  useEffect(() => {
+    if (!playing || state.finished) return;
+    const timer = setTimeout(step, REPLAY_CONFIG.PLAY_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [playing, state.finished, step]);
+
+  const currentPrice = candles[state.cursor]?.close ?? 0;
+
+  /**
+   * Open a position at the close of the current bar; returns an error message if the order is invalid
+   */
+  const openPosition = useCallback((order: ReplayOrder): string | null => {
+    if (state.finished || state.position) return 'Позиция уже открыта';
+    if (!(order.quantity > 0)) return 'Объём должен быть больше нуля';
+    const error = validateOrder(order.side, currentPrice, order.stop, order.target);
+    if (error) return error;
+
+    setState({
+      ...state,
+      position: { ...order, entryIndex: state.cursor, entryPrice: currentPrice }
+    });
+    return null;
+  }, [state, currentPrice]);
+
+  const closeManually = useCallback(() => {
+    if (!state.position) return;
+    const trade = closePosition(state.position, state.cursor, currentPrice, 'manual');
+    reportTrade(trade);
+    setState({ ...state, position: null, trades: [...state.trades, trade] });
+  }, [state, currentPrice, reportTrade]);
+
+  const endSession = useCallback(() => {
+    if (!state.finished) setState(finish(state, 'manual'));
+  }, [state, finish]);
+
+  const restart = useCallback(() => {
+    setState(initialState());
+    setPlaying(false);
+  }, [initialState]);
+
+  const visibleCandles = useMemo(() => candles.slice(0, state.cursor + 1), [candles, state.cursor]);
+  const summary = useMemo(() => summarizeTrades(state.trades), [state.trades]);
+
+  return {
+    ...state,
+    visibleCandles,
+    currentPrice,
+    summary,
+    playing,
+    setPlaying,
+    step,
+    openPosition,
+    closeManually,
+    endSession,
+    restart
+  };
+};
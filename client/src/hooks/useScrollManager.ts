@@ -1,89 +1,125 @@
 import { useState, useCallback, useMemo } from 'react';
-import { Lesson } from '../types';
+import { Lesson, ScrollAnchor } from '../types';
 import { useLocalStorageBatch } from './useLocalStorageBatch';
+import { slugifyHeading } from '../utils/headingSlug';
+
+const SCROLL_POSITIONS_KEY = 'lesson_scroll_positions';
+const HEADING_SELECTOR = '.lesson-content h1, .lesson-content h2, .lesson-content h3, .lesson-content h4, .lesson-content h5, .lesson-content h6';
+
+const getScrollContainer = (): HTMLElement | null => {
+  return document.querySelector<HTMLElement>('.lesson-viewer') ||
+         document.querySelector<HTMLElement>('.main-content');
+};
+
+const getScrollTop = (container: HTMLElement | null): number => {
+  return container?.scrollTop || window.pageYOffset;
+};
+
+// Older versions stored a raw scrollTop per lesson
+const toScrollAnchor = (value: unknown): ScrollAnchor | null => {
+  if (typeof value === 'number') {
+    return { heading: null, offset: value };
+  }
+  if (value && typeof value === 'object' && 'offset' in value) {
+    return value as ScrollAnchor;
+  }
+  return null;
+};
+
+const loadScrollPositions = (): Map<string, ScrollAnchor> => {
+  const positions = new Map<string, ScrollAnchor>();
+  try {
+    const stored = localStorage.getItem(SCROLL_POSITIONS_KEY);
+    if (stored) {
+      Object.entries(JSON.parse(stored)).forEach(([path, value]) => {
+        const anchor = toScrollAnchor(value);
+        if (anchor) positions.set(path, anchor);
+      });
+    }
+  } catch (error) {
+    console.error('Error loading scroll positions from localStorage:', error);
+  }
+  return positions;
+};
+
+/**
+ * Describe the scroll position as the last heading above the viewport plus the
+ * distance scrolled past it, so it survives font and layout changes
+ */
+const captureScrollAnchor = (): ScrollAnchor => {
+  const container = getScrollContainer();
+  const containerTop = container ? container.getBoundingClientRect().top : 0;
+
+  let anchor: HTMLElement | null = null;
+  for (const heading of Array.from(document.querySelectorAll<HTMLElement>(HEADING_SELECTOR))) {
+    if (!heading.id) continue;
+    if (heading.getBoundingClientRect().top - containerTop > 1) break;
+    anchor = heading;
+  }
+
+  if (!anchor) {
+    return { heading: null, offset: Math.round(getScrollTop(container)) };
+  }
+  return {
+    heading: anchor.id,
+    offset: Math.round(containerTop - anchor.getBoundingClientRect().top)
+  };
+};
 
 export const useScrollManager = () => {
-  const [scrollPositions, setScrollPositions] = useState<Map<string, number>>(new Map());
-  const { batchedLocalStorageSet, getLocalStorageItem } = useLocalStorageBatch();
+  const [scrollPositions, setScrollPositions] = useState<Map<string, ScrollAnchor>>(loadScrollPositions);
+  const { batchedLocalStorageSet } = useLocalStorageBatch();
 
-  const saveScrollPosition = useCallback((lessonPath: string) => {
-    const lessonViewer = document.querySelector('.lesson-viewer');
-    const mainContent = document.querySelector('.main-content');
-    
-    const scrollTop = lessonViewer?.scrollTop || mainContent?.scrollTop || window.pageYOffset;
-    
+  const storeScrollAnchor = useCallback((lessonPath: string, anchor: ScrollAnchor) => {
     setScrollPositions(prev => {
       const newPositions = new Map(prev);
-      newPositions.set(lessonPath, scrollTop);
-      
+      newPositions.set(lessonPath, anchor);
+
       // Save to localStorage (batched)
-      const positionsObj = Object.fromEntries(newPositions);
-      batchedLocalStorageSet('lesson_scroll_positions', positionsObj);
-      
+      batchedLocalStorageSet(SCROLL_POSITIONS_KEY, Object.fromEntries(newPositions));
+
       return newPositions;
     });
   }, [batchedLocalStorageSet]);
 
-  const restoreScrollPosition = useCallback((lessonPath: string) => {
-    // Load from localStorage first
-    const savedPositions = getLocalStorageItem('lesson_scroll_positions');
-    let currentPositions = scrollPositions;
-    
-    if (savedPositions) {
-      try {
-        const positionsObj = JSON.parse(savedPositions);
-        currentPositions = new Map(Object.entries(positionsObj).map(([k, v]) => [k, Number(v)]));
-        setScrollPositions(currentPositions);
-      } catch (error) {
-        console.error('Error loading scroll positions from localStorage:', error);
-      }
-    }
-  }, [scrollPositions, getLocalStorageItem]);
+  const saveScrollPosition = useCallback((lessonPath: string) => {
+    storeScrollAnchor(lessonPath, captureScrollAnchor());
+  }, [storeScrollAnchor]);
+
+  const getSavedScrollAnchor = useCallback((lessonPath: string): ScrollAnchor | null => {
+    return scrollPositions.get(lessonPath) || null;
+  }, [scrollPositions]);
 
   // Throttled scroll handler for better performance
   const createThrottledScrollHandler = useMemo(() => {
     let isThrottled = false;
-    
-    return (selectedLesson: Lesson, updateLastReadLesson: (path: string, lesson: Lesson, scrollPosition: number) => void) => {
+
+    return (selectedLesson: Lesson, updateLastReadLesson: (path: string, lesson: Lesson, scrollAnchor: ScrollAnchor) => void) => {
       if (isThrottled) return;
-      
+
       isThrottled = true;
       setTimeout(() => {
-        const lessonViewer = document.querySelector('.lesson-viewer');
-        const mainContent = document.querySelector('.main-content');
-        const scrollTop = lessonViewer?.scrollTop || mainContent?.scrollTop || window.pageYOffset;
-        
+        const scrollTop = getScrollTop(getScrollContainer());
+
         if (scrollTop > 100) { // Only save if scrolled significantly
-          setScrollPositions(prev => {
-            const newPositions = new Map(prev);
-            newPositions.set(selectedLesson.path, scrollTop);
-            
-            // Save to localStorage (batched)
-            const positionsObj = Object.fromEntries(newPositions);
-            batchedLocalStorageSet('lesson_scroll_positions', positionsObj);
-            
-            // Update last read lesson info
-            updateLastReadLesson(selectedLesson.path, selectedLesson, scrollTop);
-            
-            return newPositions;
-          });
+          const anchor = captureScrollAnchor();
+          storeScrollAnchor(selectedLesson.path, anchor);
+
+          // Update last read lesson info
+          updateLastReadLesson(selectedLesson.path, selectedLesson, anchor);
         }
         isThrottled = false;
       }, 250); // Throttle to every 250ms
     };
-  }, [batchedLocalStorageSet]);
+  }, [storeScrollAnchor]);
 
   const scrollToPosition = useCallback((scrollPosition: number, cached: boolean = false) => {
     if (scrollPosition <= 0) {
       // Scroll to top for new lessons
       setTimeout(() => {
-        const lessonViewer = document.querySelector('.lesson-viewer');
-        const mainContent = document.querySelector('.main-content');
-        
-        if (lessonViewer) {
-          lessonViewer.scrollTop = 0;
-        } else if (mainContent) {
-          mainContent.scrollTop = 0;
+        const container = getScrollContainer();
+        if (container) {
+          container.scrollTop = 0;
         } else {
           window.scrollTo(0, 0);
         }
@@ -95,19 +131,14 @@ export const useScrollManager = () => {
     let attempts = 0;
     const maxAttempts = cached ? 5 : 10; // Fewer attempts for cached content
     const interval = cached ? 50 : 100; // Faster interval for cached content
-    
+
     const scrollInterval = setInterval(() => {
-      const lessonViewer = document.querySelector('.lesson-viewer');
-      const mainContent = document.querySelector('.main-content');
-      
-      const container = lessonViewer || mainContent || document.body;
-      const containerHeight = container.scrollHeight;
-      
+      const container = getScrollContainer();
+      const containerHeight = (container || document.body).scrollHeight;
+
       if (containerHeight > scrollPosition || attempts >= maxAttempts) {
-        if (lessonViewer) {
-          lessonViewer.scrollTop = scrollPosition;
-        } else if (mainContent) {
-          mainContent.scrollTop = scrollPosition;
+        if (container) {
+          container.scrollTop = scrollPosition;
         } else {
           window.scrollTo(0, scrollPosition);
         }
@@ -117,11 +148,62 @@ export const useScrollManager = () => {
     }, interval);
   }, []);
 
+  // Scroll back to a saved anchor once its heading has rendered
+  const restoreScrollAnchor = useCallback((anchor: ScrollAnchor, cached: boolean = false) => {
+    const headingId = anchor.heading;
+    if (!headingId) {
+      scrollToPosition(anchor.offset, cached);
+      return;
+    }
+
+    let attempts = 0;
+    const maxAttempts = 10;
+
+    const scrollInterval = setInterval(() => {
+      const heading = document.getElementById(headingId);
+      const container = getScrollContainer();
+
+      if ((heading && container) || attempts >= maxAttempts) {
+        clearInterval(scrollInterval);
+        if (heading && container) {
+          const delta = heading.getBoundingClientRect().top - container.getBoundingClientRect().top;
+          container.scrollTop += delta + anchor.offset;
+        }
+      }
+      attempts++;
+    }, cached ? 50 : 100);
+  }, [scrollToPosition]);
+
+  // Scroll to a heading by its slug id or text, waiting for the lesson content to render
+  const scrollToHeading = useCallback((heading: string) => {
+    const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+    const target = normalize(heading);
+
+    let attempts = 0;
+    const maxAttempts = 10;
+
+    const scrollInterval = setInterval(() => {
+      const byId = document.getElementById(heading) || document.getElementById(slugifyHeading(heading));
+      const headings = Array.from(document.querySelectorAll<HTMLElement>(HEADING_SELECTOR));
+      const match = byId ||
+                    headings.find(el => normalize(el.textContent || '') === target) ||
+                    headings.find(el => normalize(el.textContent || '').includes(target));
+
+      if (match || attempts >= maxAttempts) {
+        match?.scrollIntoView({ block: 'start' });
+        clearInterval(scrollInterval);
+      }
+      attempts++;
+    }, 100);
+  }, []);
+
   return {
     scrollPositions,
     saveScrollPosition,
-    restoreScrollPosition,
+    getSavedScrollAnchor,
     createThrottledScrollHandler,
-    scrollToPosition
+    scrollToPosition,
+    restoreScrollAnchor,
+    scrollToHeading
   };
-};
\ No newline at end of file
+};
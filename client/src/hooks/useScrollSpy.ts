@@ -0,0 +1,46 @@
+import { useState, useEffect, RefObject } from 'react';
+
+// A heading becomes current once it is this close to the top of the container
+const ACTIVE_OFFSET = 80; // pixels
+
+/**
+ * Id of the section the reader is currently in, for highlighting the TOC
+ */
+export const useScrollSpy = (containerRef: RefObject<HTMLElement | null>, ids: string[]) => {
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || ids.length === 0) {
+      setActiveId(null);
+      return;
+    }
+
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const containerTop = container.getBoundingClientRect().top;
+      let current: string | null = null;
+      for (const id of ids) {
+        const element = document.getElementById(id);
+        if (!element) continue;
+        if (element.getBoundingClientRect().top - containerTop > ACTIVE_OFFSET) break;
+        current = id;
+      }
+      setActiveId(current ?? ids[0]);
+    };
+
+    const handleScroll = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    container.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      container.removeEventListener('scroll', handleScroll);
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [containerRef, ids]);
+
+  return activeId;
+};
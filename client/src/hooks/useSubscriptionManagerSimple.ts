@@ -1,30 +1,24 @@
 import { useState, useCallback, useEffect } from 'react';
-
-const API_URL = process.env.REACT_APP_API_URL || '';
+import { apiClient } from '../services/apiClient';
+import { authSession } from '../services/authSession';
 
 export const useSubscriptionManagerSimple = () => {
   const [isSubscribed, setIsSubscribed] = useState(false);
+  // Names of paid tiers the user holds (for lessons with a tier access level)
+  const [tiers, setTiers] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
 
   const checkSubscriptionStatus = useCallback(async () => {
     try {
-      const telegramUserId = window.Telegram?.WebApp?.initDataUnsafe?.user?.id;
-
-      if (!telegramUserId) {
+      if (!authSession.canAuthenticate()) {
         setIsSubscribed(false);
         setLoading(false);
         return;
       }
 
-      const response = await fetch(`${API_URL}/api/subscription/status/${telegramUserId}`);
-
-      if (response.ok) {
-        const data = await response.json();
-        setIsSubscribed(data.subscribed || false);
-      } else {
-        console.error('Failed to check subscription status via API');
-        setIsSubscribed(false);
-      }
+      const data = await apiClient.get<{ subscribed?: boolean; tiers?: string[] }>('/api/subscription/status');
+      setIsSubscribed(data.subscribed || false);
+      setTiers(Array.isArray(data.tiers) ? data.tiers : []);
     } catch (error) {
       console.error('Error checking subscription status:', error);
       setIsSubscribed(false);
@@ -48,6 +42,7 @@ export const useSubscriptionManagerSimple = () => {
 
   return {
     isSubscribed,
+    tiers,
     loading,
     checkSubscriptionStatus,
     handleSubscriptionVerified,
@@ -3,6 +3,42 @@ import { useLocalStorageBatch } from './useLocalStorageBatch';
 
 type Theme = 'light' | 'dark';
 
+export interface ChartPalette {
+  background: string;
+  grid: string;
+  text: string;
+  up: string;
+  down: string;
+  crosshair: string;
+  level: string;
+  /** Moving average lines, used in order */
+  overlays: string[];
+}
+
+// Candlestick chart colors for each theme
+const CHART_PALETTES: Record<Theme, ChartPalette> = {
+  dark: {
+    background: '#1e1e1e',
+    grid: '#2f2f2f',
+    text: '#a0a0a0',
+    up: '#26a69a',
+    down: '#ef5350',
+    crosshair: '#8a8a8a',
+    level: '#faa61a',
+    overlays: ['#7c3aed', '#0ea5e9', '#f59e0b', '#ec4899']
+  },
+  light: {
+    background: '#ffffff',
+    grid: '#eceff1',
+    text: '#5f6368',
+    up: '#089981',
+    down: '#f23645',
+    crosshair: '#9e9e9e',
+    level: '#e08600',
+    overlays: ['#6d28d9', '#0284c7', '#d97706', '#db2777']
+  }
+};
+
 export const useThemeManager = () => {
   const [theme, setTheme] = useState<Theme>('dark');
   const { batchedLocalStorageSet, getLocalStorageItem } = useLocalStorageBatch();
@@ -35,6 +71,7 @@ export const useThemeManager = () => {
 
   return {
     theme,
-    handleThemeChange
+    handleThemeChange,
+    chartPalette: CHART_PALETTES[theme]
   };
 };
\ No newline at end of file
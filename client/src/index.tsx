@@ -3,6 +3,12 @@ import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
 import reportWebVitals from './reportWebVitals';
+import * as serviceWorkerRegistration from './serviceWorkerRegistration';
+import { apiClient } from './services/apiClient';
+import { authSession } from './services/authSession';
+
+// Authenticate every API request with the signed Telegram initData
+apiClient.setAuthProvider(authSession);
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
@@ -13,6 +19,10 @@ root.render(
   </React.StrictMode>
 );
 
+// Offline support: precached app shell and cached lessons/images.
+// Learn more about service workers: https://cra.link/PWA
+serviceWorkerRegistration.register();
+
 // If you want to start measuring performance in your app, pass a function
 // to log results (for example: reportWebVitals(console.log))
 // or send to an analytics endpoint. Learn more: https://bit.ly/CRA-vitals
@@ -1,12 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { Upload, Trash2, ArrowLeft, File, Folder, AlertTriangle, FolderPlus } from 'lucide-react';
 import { LessonStructure } from '../types';
+import { lessonCache } from '../services/lessonCache';
+import { apiClient, ApiError } from '../services/apiClient';
+import { usePermissions } from '../hooks/usePermissions';
+
+// Uploads can be large .zip archives: allow much more than API_CONFIG.TIMEOUT
+const UPLOAD_TIMEOUT = 120000;
 
 interface AdminPageProps {
     onBack: () => void;
 }
 
 const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
+    const { can, loading: permissionsLoading } = usePermissions();
+    const canUpload = can('upload');
+    const canDelete = can('delete');
     const [file, setFile] = useState<File | null>(null);
     const [uploading, setUploading] = useState(false);
     const [message, setMessage] = useState('');
@@ -19,6 +28,13 @@ const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
     const [isPublicFolder, setIsPublicFolder] = useState<boolean>(true);
     const [creatingFolder, setCreatingFolder] = useState(false);
 
+    // Editors without upload rights land on the file list (once their rights are known)
+    useEffect(() => {
+        if (!permissionsLoading && !canUpload && activeTab !== 'manage') {
+            setActiveTab('manage');
+        }
+    }, [permissionsLoading, canUpload, activeTab]);
+
     useEffect(() => {
         fetchFolders(); // Always fetch folders on mount
         if (activeTab === 'manage') {
@@ -28,9 +44,7 @@ const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
 
     const fetchFolders = async () => {
         try {
-            const apiUrl = process.env.REACT_APP_API_URL || '';
-            const response = await fetch(`${apiUrl}/api/lessons/folders`);
-            const data = await response.json();
+            const data = await apiClient.get<{ folders: { name: string; path: string }[] }>('/api/lessons/folders');
             setFolders(data.folders);
             // Set default folder to 'Средний уровень (Подписка)' if available
             const defaultFolder = data.folders.find((f: any) => f.name.includes('Средний уровень'));
@@ -44,14 +58,7 @@ const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
 
     const fetchLessonStructure = async () => {
         try {
-            const apiUrl = process.env.REACT_APP_API_URL || '';
-            const telegramId = window.Telegram?.WebApp?.initDataUnsafe?.user?.id?.toString() || '0';
-            const response = await fetch(`${apiUrl}/api/upload/file-tree`, {
-                headers: {
-                    'X-Telegram-User-Id': telegramId
-                }
-            });
-            const data = await response.json();
+            const data = await apiClient.get<{ structure: LessonStructure[] }>('/api/upload/file-tree');
             setLessonStructure(data.structure);
         } catch (error) {
             console.error('Error fetching lessons:', error);
@@ -89,37 +96,29 @@ const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
         }
 
         try {
-            const apiUrl = process.env.REACT_APP_API_URL || '';
-            const response = await fetch(`${apiUrl}/api/upload/lesson`, {
-                method: 'POST',
-                body: formData,
+            const data = await apiClient.post<{ message?: string }>('/api/upload/lesson', formData, {
+                timeout: UPLOAD_TIMEOUT
             });
 
-            const data = await response.json();
+            setMessage(data.message || 'Upload successful!');
+            setFile(null);
+            // Clear the file input
+            const fileInput = document.getElementById('file-input') as HTMLInputElement;
+            if (fileInput) fileInput.value = '';
 
-            if (response.ok) {
-                setMessage(data.message || 'Upload successful!');
-                setFile(null);
-                // Clear the file input
-                const fileInput = document.getElementById('file-input') as HTMLInputElement;
-                if (fileInput) fileInput.value = '';
+            // Always refresh lesson structure after successful upload
+            await fetchLessonStructure();
 
-                // Always refresh lesson structure after successful upload
-                await fetchLessonStructure();
+            // Switch to manage tab to show the uploaded lesson
+            setActiveTab('manage');
 
-                // Switch to manage tab to show the uploaded lesson
-                setActiveTab('manage');
-
-                // Reload the page after a short delay to ensure all caches are cleared
-                setTimeout(() => {
-                    window.location.reload();
-                }, 1500);
-            } else {
-                setMessage(`Error: ${data.error || 'Upload failed.'}`);
-            }
+            // Reload the page after a short delay to ensure all caches are cleared
+            setTimeout(() => {
+                window.location.reload();
+            }, 1500);
         } catch (error) {
             console.error('Upload error:', error);
-            setMessage('An unexpected error occurred.');
+            setMessage(error instanceof ApiError && error.status > 0 ? `Error: ${error.message}` : 'An unexpected error occurred.');
         } finally {
             setUploading(false);
         }
@@ -166,62 +165,40 @@ const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
         setMessage('');
 
         try {
-            const apiUrl = process.env.REACT_APP_API_URL || '';
-            let response: Response;
-            console.log('🌐 API URL:', apiUrl);
+            let data: { message?: string };
 
             if (deleteType === 'folder') {
                 // Delete folder using folder deletion endpoint
-                const url = `${apiUrl}/api/upload/lessons/${encodeURIComponent(lessonPath)}`;
-                console.log('📂 Deleting folder with URL:', url);
-                console.log('🔑 Using Telegram User ID:', window.Telegram?.WebApp?.initDataUnsafe?.user?.id);
-
-                response = await fetch(url, {
-                    method: 'DELETE',
-                    headers: {
-                        'X-Telegram-User-Id': window.Telegram?.WebApp?.initDataUnsafe?.user?.id?.toString() || '0',
-                    },
-                });
+                const path = `/api/upload/lessons/${encodeURIComponent(lessonPath)}`;
+                console.log('📂 Deleting folder with path:', path);
+
+                data = await apiClient.delete(path);
             } else {
                 // Delete individual lesson using lesson deletion endpoint
-                const url = `${apiUrl}/api/upload/lesson`;
                 const payload = {
                     initData,
                     lessonPath
                 };
-                console.log('📄 Deleting file with URL:', url);
                 console.log('📦 Request payload:', payload);
 
-                response = await fetch(url, {
-                    method: 'DELETE',
-                    headers: {
-                        'Content-Type': 'application/json',
-                    },
-                    body: JSON.stringify(payload),
-                });
+                data = await apiClient.delete('/api/upload/lesson', payload);
             }
 
-            console.log('📡 Response status:', response.status);
-            console.log('📡 Response ok:', response.ok);
-
-            const data = await response.json();
-
-            if (response.ok) {
-                setMessage(data.message || `${itemName.charAt(0).toUpperCase() + itemName.slice(1)} deleted successfully!`);
-                // Refresh the lesson structure immediately
-                await fetchLessonStructure();
+            setMessage(data.message || `${itemName.charAt(0).toUpperCase() + itemName.slice(1)} deleted successfully!`);
+            // Refresh the lesson structure immediately
+            await fetchLessonStructure();
 
-                // Force reload to ensure all caches are cleared
-                setTimeout(() => {
-                    window.location.reload();
-                }, 1000);
-            } else {
-                setMessage(`Error: ${data.error || `${itemName.charAt(0).toUpperCase() + itemName.slice(1)} deletion failed.`}`);
-            }
+            // Force reload to ensure all caches are cleared
+            setTimeout(() => {
+                window.location.reload();
+            }, 1000);
         } catch (error) {
             console.error('❌ Delete error:', error);
-            console.error('❌ Error details:', error instanceof Error ? error.message : 'Unknown error');
-            setMessage('An unexpected error occurred: ' + (error instanceof Error ? error.message : 'Unknown error'));
+            if (error instanceof ApiError && error.status > 0) {
+                setMessage(`Error: ${error.message}`);
+            } else {
+                setMessage('An unexpected error occurred: ' + (error instanceof Error ? error.message : 'Unknown error'));
+            }
         } finally {
             console.log('🏁 Delete operation finished, clearing deleting state');
             setDeleting(null);
@@ -245,39 +222,26 @@ const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
         setMessage('');
 
         try {
-            const apiUrl = process.env.REACT_APP_API_URL || '';
             const folderName = isPublicFolder ?
                 newFolderName.trim() :
                 `${newFolderName.trim()} (Подписка)`;
 
-            const response = await fetch(`${apiUrl}/api/upload/folder`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    initData,
-                    folderName,
-                    subscriptionRequired: !isPublicFolder
-                }),
+            const data = await apiClient.post<{ message?: string }>('/api/upload/folder', {
+                initData,
+                folderName,
+                subscriptionRequired: !isPublicFolder
             });
 
-            const data = await response.json();
-
-            if (response.ok) {
-                setMessage(data.message || 'Folder created successfully!');
-                setNewFolderName('');
-                setIsPublicFolder(true);
-                // Refresh folders list
-                await fetchFolders();
-                // Switch to upload tab to show the new folder
-                setActiveTab('upload');
-            } else {
-                setMessage(`Error: ${data.error || 'Folder creation failed.'}`);
-            }
+            setMessage(data.message || 'Folder created successfully!');
+            setNewFolderName('');
+            setIsPublicFolder(true);
+            // Refresh folders list
+            await fetchFolders();
+            // Switch to upload tab to show the new folder
+            setActiveTab('upload');
         } catch (error) {
             console.error('Create folder error:', error);
-            setMessage('An unexpected error occurred.');
+            setMessage(error instanceof ApiError && error.status > 0 ? `Error: ${error.message}` : 'An unexpected error occurred.');
         } finally {
             setCreatingFolder(false);
         }
@@ -295,6 +259,7 @@ const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
                         )}
                         <span className="file-name">{item.name}</span>
                     </div>
+                    {canDelete && (
                     <button
                         onClick={() => handleDelete(item.path, item.type)}
                         disabled={deleting === item.path}
@@ -307,6 +272,7 @@ const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
                             <Trash2 size={14} />
                         )}
                     </button>
+                    )}
                 </div>
                 {item.children && item.children.length > 0 && (
                     <div className="file-children">
@@ -328,6 +294,7 @@ const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
             </div>
 
             <div className="admin-tabs">
+                {canUpload && (
                 <button
                     onClick={() => setActiveTab('upload')}
                     className={`tab-btn ${activeTab === 'upload' ? 'active' : ''}`}
@@ -335,6 +302,7 @@ const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
                     <Upload size={18} />
                     Upload Lessons
                 </button>
+                )}
                 <button
                     onClick={() => setActiveTab('manage')}
                     className={`tab-btn ${activeTab === 'manage' ? 'active' : ''}`}
@@ -342,6 +310,7 @@ const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
                     <Folder size={18} />
                     Manage Files
                 </button>
+                {canUpload && (
                 <button
                     onClick={() => setActiveTab('create-folder')}
                     className={`tab-btn ${activeTab === 'create-folder' ? 'active' : ''}`}
@@ -349,10 +318,11 @@ const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
                     <FolderPlus size={18} />
                     Create Folder
                 </button>
+                )}
             </div>
 
             <div className="admin-content">
-                {activeTab === 'upload' && (
+                {canUpload && activeTab === 'upload' && (
                     <div className="upload-section">
                         <div className="upload-card">
                             <div className="upload-header">
@@ -440,6 +410,7 @@ const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
                                 </div>
                             </div>
 
+                            {canDelete && (
                             <div className="manage-actions">
                                 <button
                                     onClick={async () => {
@@ -450,16 +421,9 @@ const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
                                         }
 
                                         try {
-                                            const apiUrl = process.env.REACT_APP_API_URL || '';
-                                            const response = await fetch(`${apiUrl}/api/upload/clear-cache`, {
-                                                method: 'POST',
-                                                headers: {
-                                                    'Content-Type': 'application/json',
-                                                },
-                                                body: JSON.stringify({ initData }),
-                                            });
-
-                                            const data = await response.json();
+                                            const data = await apiClient.post<{ message?: string }>('/api/upload/clear-cache', { initData });
+                                            // Drop this device's offline lesson copies as well
+                                            await lessonCache.clear();
                                             setMessage(data.message || 'Cache cleared');
                                             setTimeout(() => window.location.reload(), 1000);
                                         } catch (error) {
@@ -472,6 +436,7 @@ const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
                                     🗑️ Clear All Cache
                                 </button>
                             </div>
+                            )}
 
                             {lessonStructure.length > 0 ? (
                                 <div className="file-tree">
@@ -487,7 +452,7 @@ const AdminPage: React.FC<AdminPageProps> = ({ onBack }) => {
                     </div>
                 )}
 
-                {activeTab === 'create-folder' && (
+                {canUpload && activeTab === 'create-folder' && (
                     <div className="create-folder-section">
                         <div className="create-folder-card">
                             <div className="create-folder-header">
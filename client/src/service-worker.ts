@@ -0,0 +1,72 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+
+// Offline support for the Mini App: precached app shell plus static assets.
+// Lessons and their images are cached per user in IndexedDB (see lessonCache),
+// never here: API responses are authenticated and must not outlive the account.
+// See https://developers.google.com/web/tools/workbox/modules
+
+import { clientsClaim } from 'workbox-core';
+import { ExpirationPlugin } from 'workbox-expiration';
+import { precacheAndRoute, createHandlerBoundToURL } from 'workbox-precaching';
+import { registerRoute } from 'workbox-routing';
+import { StaleWhileRevalidate } from 'workbox-strategies';
+
+declare const self: ServiceWorkerGlobalScope;
+
+// Runtime caches of earlier versions that held API responses
+const LEGACY_CACHE_NAMES = ['lessons-api', 'lesson-images'];
+
+clientsClaim();
+
+// Precache all of the assets generated by the build process.
+// Their URLs are injected into the manifest variable below.
+// This variable must be present somewhere in the service worker file,
+// even if precaching is not used. See https://cra.link/PWA
+precacheAndRoute(self.__WB_MANIFEST);
+
+// App Shell-style routing: all navigation requests (/, /lesson/..., /profile)
+// are fulfilled with index.html.
+const fileExtensionRegexp = new RegExp('/[^/?]+\\.[^/]+$');
+registerRoute(
+  // Return false to exempt requests from being fulfilled by index.html.
+  ({ request, url }: { request: Request; url: URL }) => {
+    if (request.mode !== 'navigate') {
+      return false;
+    }
+
+    if (url.pathname.startsWith('/_') || url.pathname.startsWith('/api/')) {
+      return false;
+    }
+
+    // Skip URLs for resources (they contain a file extension)
+    if (url.pathname.match(fileExtensionRegexp)) {
+      return false;
+    }
+
+    return true;
+  },
+  createHandlerBoundToURL(process.env.PUBLIC_URL + '/index.html')
+);
+
+// Static files served from /public (icons, manifest images) that are not precached
+registerRoute(
+  ({ url }) => url.origin === self.location.origin && !url.pathname.startsWith('/api/') && url.pathname.endsWith('.png'),
+  new StaleWhileRevalidate({
+    cacheName: 'images',
+    plugins: [new ExpirationPlugin({ maxEntries: 50 })],
+  })
+);
+
+// Drop the API caches left behind by earlier service workers
+self.addEventListener('activate', event => {
+  event.waitUntil(Promise.all(LEGACY_CACHE_NAMES.map(name => caches.delete(name))));
+});
+
+// This allows the web app to trigger skipWaiting via
+// registration.waiting.postMessage({type: 'SKIP_WAITING'})
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
@@ -0,0 +1,35 @@
+import { createSyncedStore } from './syncedStore';
+import { Annotation, mergeAnnotations } from '../utils/annotations';
+
+const annotationStore = createSyncedStore<Annotation>({
+  storageKey: 'lesson_annotations',
+  endpoint: '/api/annotations',
+  field: 'annotations',
+  merge: mergeAnnotations,
+  getId: annotation => annotation.id,
+  label: 'annotations'
+});
+
+let pending: Promise<Record<string, Annotation>> | null = null;
+
+export const annotationService = {
+  /**
+   * Annotations (including deleted ones) from the server merged with the local copy;
+   * ones changed offline are pushed back up. Loaded once per session.
+   */
+  getAnnotations(): Promise<Record<string, Annotation>> {
+    if (!pending) {
+      pending = annotationStore.load();
+    }
+    return pending;
+  },
+
+  /**
+   * Store an annotation (new, edited or deleted) locally right away, then on the server
+   */
+  saveAnnotation(annotation: Annotation): Promise<void> {
+    // Later readers in this session see the change too
+    if (pending) pending = pending.then(current => mergeAnnotations(Object.values(current), [annotation]));
+    return annotationStore.save([annotation]);
+  }
+};
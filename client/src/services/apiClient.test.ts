@@ -0,0 +1,51 @@
+import { apiClient, AuthError, NetworkError, NotFoundError, ServerError } from './apiClient';
+
+const fetchMock = jest.fn();
+
+const respond = (status: number, body: unknown = {}) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: '',
+  text: async () => JSON.stringify(body)
+});
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  (global as any).fetch = fetchMock;
+});
+
+test('retries failed GET requests only', async () => {
+  fetchMock.mockResolvedValueOnce(respond(503)).mockResolvedValueOnce(respond(200, { ok: 1 }));
+  await expect(apiClient.get('/api/lessons/structure', { retries: 1 })).resolves.toEqual({ ok: 1 });
+  expect(fetchMock).toHaveBeenCalledTimes(2);
+
+  fetchMock.mockReset();
+  fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch')).mockResolvedValueOnce(respond(200));
+  await expect(apiClient.get('/api/lessons/structure', { retries: 1 })).resolves.toEqual({});
+  expect(fetchMock).toHaveBeenCalledTimes(2);
+
+  fetchMock.mockReset();
+  fetchMock.mockResolvedValue(respond(500));
+  await expect(apiClient.post('/api/progress/lessons', { lessonPath: 'a.md' })).rejects.toBeInstanceOf(ServerError);
+  expect(fetchMock).toHaveBeenCalledTimes(1);
+
+  fetchMock.mockReset();
+  fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+  await expect(apiClient.put('/api/journal', {})).rejects.toBeInstanceOf(NetworkError);
+  expect(fetchMock).toHaveBeenCalledTimes(1);
+});
+
+test('maps error statuses to typed errors without retrying them', async () => {
+  fetchMock.mockResolvedValueOnce(respond(401, { error: 'Session expired' }));
+  const unauthorized = apiClient.get('/api/statistics/user');
+  await expect(unauthorized).rejects.toBeInstanceOf(AuthError);
+  await expect(unauthorized).rejects.toMatchObject({ status: 401, message: 'Session expired' });
+
+  fetchMock.mockResolvedValueOnce(respond(403));
+  await expect(apiClient.get('/api/lessons/content/a.md')).rejects.toMatchObject({ name: 'AuthError', status: 403 });
+
+  fetchMock.mockResolvedValueOnce(respond(404));
+  await expect(apiClient.get('/api/lessons/content/b.md')).rejects.toBeInstanceOf(NotFoundError);
+
+  expect(fetchMock).toHaveBeenCalledTimes(3);
+});
@@ -0,0 +1,281 @@
+import { API_CONFIG } from '../constants/config';
+
+/**
+ * Base class for every API failure
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly url: string;
+  readonly data?: any;
+
+  constructor(message: string, status: number, url: string, data?: any) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.url = url;
+    this.data = data;
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/** Request never reached the server or the connection dropped */
+export class NetworkError extends ApiError {
+  constructor(url: string, cause?: unknown) {
+    super(cause instanceof Error ? cause.message : 'Network request failed', 0, url);
+    this.name = 'NetworkError';
+  }
+}
+
+/** Request took longer than the configured timeout */
+export class TimeoutError extends NetworkError {
+  constructor(url: string, timeout: number) {
+    super(url);
+    this.message = `Request timed out after ${timeout}ms`;
+    this.name = 'TimeoutError';
+  }
+}
+
+/** 401 Unauthorized / 403 Forbidden */
+export class AuthError extends ApiError {
+  constructor(message: string, status: number, url: string, data?: any) {
+    super(message, status, url, data);
+    this.name = 'AuthError';
+  }
+}
+
+/** 404 Not Found */
+export class NotFoundError extends ApiError {
+  constructor(message: string, url: string, data?: any) {
+    super(message, 404, url, data);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** 5xx responses */
+export class ServerError extends ApiError {
+  constructor(message: string, status: number, url: string, data?: any) {
+    super(message, status, url, data);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Supplies the Authorization header and reacts to 401 responses (see authSession)
+ */
+export interface AuthProvider {
+  getAuthorizationHeader(): Promise<string | null>;
+  /** Called once per request on 401; resolve true to retry with fresh credentials */
+  handleUnauthorized(): Promise<boolean>;
+}
+
+let authProvider: AuthProvider | null = null;
+
+type QueryValue = string | number | boolean | null | undefined;
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  query?: Record<string, QueryValue>;
+  /** Serialized as JSON unless it is FormData or URLSearchParams */
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Milliseconds, defaults to API_CONFIG.TIMEOUT */
+  timeout?: number;
+  /** Retry attempts for GET requests, defaults to 2 (never applied to other methods) */
+  retries?: number;
+  signal?: AbortSignal;
+  /** Non-2xx statuses returned to the caller instead of thrown (e.g. 304) */
+  allowStatuses?: number[];
+  /** Attach the Authorization header, defaults to true */
+  auth?: boolean;
+}
+
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY = 300; // milliseconds
+
+const buildUrl = (path: string, query?: Record<string, QueryValue>): string => {
+  const base = /^https?:\/\//.test(path) ? path : `${API_CONFIG.BASE_URL}${path}`;
+  if (!query) return base;
+
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      params.set(key, String(value));
+    }
+  });
+  const search = params.toString();
+  if (!search) return base;
+  return `${base}${base.includes('?') ? '&' : '?'}${search}`;
+};
+
+const readBody = async (response: Response): Promise<any> => {
+  const text = await response.text();
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const toHttpError = async (response: Response, url: string): Promise<ApiError> => {
+  const data = await readBody(response).catch(() => undefined);
+  const message = (data && typeof data === 'object' && (data.error || data.message)) ||
+    `Request failed: ${response.status} ${response.statusText}`;
+
+  if (response.status === 401 || response.status === 403) {
+    return new AuthError(message, response.status, url, data);
+  }
+  if (response.status === 404) {
+    return new NotFoundError(message, url, data);
+  }
+  if (response.status >= 500) {
+    return new ServerError(message, response.status, url, data);
+  }
+  return new ApiError(message, response.status, url, data);
+};
+
+const isRetryable = (error: unknown): boolean => {
+  return error instanceof NetworkError || error instanceof ServerError;
+};
+
+const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+};
+
+/**
+ * Single attempt: applies the timeout and maps failures to typed errors
+ */
+const fetchOnce = async (url: string, init: RequestInit, timeout: number, signal?: AbortSignal): Promise<Response> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+  const abortFromCaller = () => controller.abort();
+  signal?.addEventListener('abort', abortFromCaller, { once: true });
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) {
+      throw new TimeoutError(url, timeout);
+    }
+    if (signal?.aborted) {
+      // Caller cancelled: surface the native AbortError untouched
+      throw error;
+    }
+    throw new NetworkError(url, error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abortFromCaller);
+  }
+};
+
+/**
+ * Performs a request and returns the raw Response.
+ * Throws ApiError subclasses for network failures, timeouts and non-2xx statuses.
+ */
+const request = async (path: string, options: RequestOptions = {}): Promise<Response> => {
+  const method = options.method || 'GET';
+  const url = buildUrl(path, options.query);
+  const timeout = options.timeout ?? API_CONFIG.TIMEOUT;
+  const maxRetries = method === 'GET' ? options.retries ?? DEFAULT_RETRIES : 0;
+
+  const headers: Record<string, string> = { ...options.headers };
+  let body: BodyInit | undefined;
+  if (options.body instanceof FormData || options.body instanceof URLSearchParams) {
+    body = options.body;
+  } else if (options.body !== undefined) {
+    body = JSON.stringify(options.body);
+    headers['Content-Type'] = headers['Content-Type'] || 'application/json';
+  }
+
+  const useAuth = options.auth !== false && authProvider !== null;
+  let authRetried = false;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      if (useAuth) {
+        const authorization = await authProvider!.getAuthorizationHeader();
+        if (authorization) {
+          headers['Authorization'] = authorization;
+        }
+      }
+
+      const response = await fetchOnce(url, { method, headers, body }, timeout, options.signal);
+      if (response.ok || options.allowStatuses?.includes(response.status)) {
+        return response;
+      }
+      throw await toHttpError(response, url);
+    } catch (error) {
+      // Expired credentials: let the provider refresh them and replay the request once
+      if (useAuth && !authRetried && error instanceof AuthError && error.status === 401) {
+        authRetried = true;
+        if (await authProvider!.handleUnauthorized()) {
+          attempt--;
+          continue;
+        }
+      }
+      if (attempt >= maxRetries || !isRetryable(error) || options.signal?.aborted) {
+        throw error;
+      }
+      // Exponential backoff: 300ms, 600ms, 1200ms...
+      await delay(RETRY_BASE_DELAY * 2 ** attempt, options.signal);
+    }
+  }
+};
+
+/**
+ * Typed HTTP client for the backend API
+ */
+export const apiClient = {
+  request,
+
+  /**
+   * Register the provider that authenticates every request
+   */
+  setAuthProvider(provider: AuthProvider | null) {
+    authProvider = provider;
+  },
+
+  async get<T>(path: string, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    const response = await request(path, { ...options, method: 'GET' });
+    return readBody(response);
+  },
+
+  async post<T>(path: string, body?: unknown, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    const response = await request(path, { ...options, method: 'POST', body });
+    return readBody(response);
+  },
+
+  async put<T>(path: string, body?: unknown, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    const response = await request(path, { ...options, method: 'PUT', body });
+    return readBody(response);
+  },
+
+  async delete<T>(path: string, body?: unknown, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    const response = await request(path, { ...options, method: 'DELETE', body });
+    return readBody(response);
+  }
+};
+
+/**
+ * Human-readable message for any error thrown by the client
+ */
+export const getErrorMessage = (error: unknown, fallback: string = 'Unknown error'): string => {
+  if (error instanceof TimeoutError) {
+    return 'Сервер не отвечает. Проверьте подключение и попробуйте снова.';
+  }
+  if (error instanceof NetworkError) {
+    return 'Нет подключения к интернету.';
+  }
+  return error instanceof Error ? error.message : fallback;
+};
@@ -0,0 +1,210 @@
+import { apiClient, AuthError, AuthProvider, NotFoundError } from './apiClient';
+
+/**
+ * Session authentication built on Telegram's signed initData.
+ *
+ * On first use the signed initData is exchanged for a short-lived session token
+ * (POST /api/auth/session) and every request carries `Authorization: Bearer <token>`.
+ * Tokens are refreshed before they expire (POST /api/auth/refresh). If the backend has
+ * no session endpoint the raw initData is sent instead as `Authorization: tma <initData>`.
+ * When the server rejects the signed initData itself, the session is marked expired
+ * and listeners are notified.
+ *
+ * The server identifies the user from these credentials only; requests never carry
+ * a user id of their own.
+ */
+
+interface SessionToken {
+  token: string;
+  expiresAt: number;
+}
+
+interface SessionResponse {
+  token: string;
+  expiresIn?: number; // seconds
+  expiresAt?: string;
+}
+
+type ExpiredListener = (expired: boolean) => void;
+
+const STORAGE_KEY = 'auth_session';
+const REFRESH_MARGIN = 60 * 1000; // refresh one minute before expiry
+const DEFAULT_TOKEN_LIFETIME = 15 * 60 * 1000;
+
+let session: SessionToken | null = null;
+let sessionEndpointMissing = false;
+let expired = false;
+let pendingSession: Promise<SessionToken | null> | null = null;
+const listeners = new Set<ExpiredListener>();
+
+const getInitData = (): string | null => window.Telegram?.WebApp?.initData || null;
+
+const loadStoredSession = (): SessionToken | null => {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+const storeSession = (value: SessionToken | null) => {
+  session = value;
+  try {
+    if (value) {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(value));
+    } else {
+      sessionStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // Storage unavailable: keep the session in memory only
+  }
+};
+
+const setExpired = (value: boolean) => {
+  if (expired === value) return;
+  expired = value;
+  listeners.forEach(listener => listener(value));
+};
+
+const toSessionToken = (response: SessionResponse): SessionToken => {
+  const expiresAt = response.expiresAt
+    ? new Date(response.expiresAt).getTime()
+    : Date.now() + (response.expiresIn ? response.expiresIn * 1000 : DEFAULT_TOKEN_LIFETIME);
+  return { token: response.token, expiresAt };
+};
+
+/**
+ * Exchange the signed initData for a session token
+ */
+const exchangeInitData = async (): Promise<SessionToken | null> => {
+  const initData = getInitData();
+  if (!initData || sessionEndpointMissing) return null;
+
+  try {
+    const response = await apiClient.post<SessionResponse>('/api/auth/session', { initData }, { auth: false });
+    const token = toSessionToken(response);
+    storeSession(token);
+    setExpired(false);
+    return token;
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      // Backend without session support: fall back to per-request initData
+      sessionEndpointMissing = true;
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Refresh the current token; falls back to a fresh initData exchange
+ */
+const refreshSession = async (current: SessionToken): Promise<SessionToken | null> => {
+  try {
+    const response = await apiClient.post<SessionResponse>('/api/auth/refresh', undefined, {
+      auth: false,
+      headers: { Authorization: `Bearer ${current.token}` }
+    });
+    const token = toSessionToken(response);
+    storeSession(token);
+    return token;
+  } catch {
+    storeSession(null);
+    return exchangeInitData();
+  }
+};
+
+/**
+ * Single-flight wrapper so parallel requests share one exchange/refresh
+ */
+const ensureSession = (): Promise<SessionToken | null> => {
+  if (!pendingSession) {
+    const current = session;
+    pendingSession = (current ? refreshSession(current) : exchangeInitData()).finally(() => {
+      pendingSession = null;
+    });
+  }
+  return pendingSession;
+};
+
+session = loadStoredSession();
+
+export const authSession: AuthProvider & {
+  isExpired(): boolean;
+  canAuthenticate(): boolean;
+  subscribe(listener: ExpiredListener): () => void;
+  reset(): void;
+} = {
+  async getAuthorizationHeader(): Promise<string | null> {
+    if (session && session.expiresAt - REFRESH_MARGIN > Date.now()) {
+      return `Bearer ${session.token}`;
+    }
+
+    try {
+      const token = await ensureSession();
+      if (token) return `Bearer ${token.token}`;
+    } catch (error) {
+      console.warn('Session exchange failed:', error);
+    }
+
+    const initData = getInitData();
+    return initData ? `tma ${initData}` : null;
+  },
+
+  async handleUnauthorized(): Promise<boolean> {
+    storeSession(null);
+    // Outside Telegram there is nothing to re-authenticate with; that is not an expiry
+    if (!getInitData()) return false;
+
+    try {
+      // Token missing or rejected: try a fresh exchange before giving up
+      if (await ensureSession()) return true;
+    } catch (error) {
+      // Only a rejected exchange means the initData is no longer valid
+      if (error instanceof AuthError) {
+        setExpired(true);
+      } else {
+        console.warn('Session re-authentication failed:', error);
+      }
+      return false;
+    }
+
+    // No session endpoint: the initData sent with the request was rejected as is
+    if (sessionEndpointMissing) setExpired(true);
+    return false;
+  },
+
+  /**
+   * Whether requests can carry credentials at all (inside Telegram or with a live session)
+   */
+  canAuthenticate() {
+    return Boolean(session || getInitData());
+  },
+
+  /**
+   * Whether the session expired and the user has to reopen the Mini App
+   */
+  isExpired() {
+    return expired;
+  },
+
+  /**
+   * Listen for session expiry changes; returns an unsubscribe function
+   */
+  subscribe(listener: ExpiredListener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Forget the current session so the next request starts a fresh exchange
+   */
+  reset() {
+    storeSession(null);
+    sessionEndpointMissing = false;
+    setExpired(false);
+  }
+};
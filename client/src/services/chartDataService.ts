@@ -0,0 +1,34 @@
+import { apiClient } from './apiClient';
+import { lessonCache } from './lessonCache';
+import { lessonService } from './lessonService';
+import { Candle, parseOhlcData } from '../utils/ohlc';
+
+const pending = new Map<string, Promise<Candle[]>>();
+
+const readDataFile = async (url: string, lessonPath?: string): Promise<string> => {
+  // Data files are cached with the lesson, like its images
+  const cached = await lessonCache.getImage(url);
+  if (cached) return cached.text();
+
+  const response = await apiClient.request(url);
+  const blob = await response.blob();
+  if (lessonPath) await lessonCache.putImage(url, lessonPath, blob);
+  return blob.text();
+};
+
+export const chartDataService = {
+  /**
+   * Candles from an uploaded data file referenced by a ```chart block (`src:`)
+   */
+  loadCandles(filename: string, lessonPath?: string): Promise<Candle[]> {
+    const url = lessonService.getImageUrl(filename);
+    const existing = pending.get(url);
+    if (existing) return existing;
+
+    const promise = readDataFile(url, lessonPath).then(parseOhlcData);
+    pending.set(url, promise);
+    // Do not keep a failed read around
+    promise.catch(() => pending.delete(url));
+    return promise;
+  }
+};
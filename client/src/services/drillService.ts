@@ -0,0 +1,76 @@
+import { replayService } from './replayService';
+import { CandlePatternId, detectPatterns, getPattern } from '../utils/candlePatterns';
+import { Candle } from '../utils/ohlc';
+
+export interface PatternStats {
+  attempts: number;
+  correct: number;
+}
+
+export interface PatternSnippet {
+  pattern: CandlePatternId;
+  candles: Candle[];
+  /** Other patterns that also end on the last candle; never offered as wrong answers */
+  alsoMatches: CandlePatternId[];
+  source: 'generated' | 'dataset';
+}
+
+const STORAGE_KEY = 'pattern_drill_stats';
+const SNIPPET_CONTEXT = 20;
+
+let datasetSnippets: Promise<PatternSnippet[]> | null = null;
+
+const findDatasetSnippets = async (): Promise<PatternSnippet[]> => {
+  const datasets = (await replayService.getDatasets()).filter(dataset => !dataset.file);
+  const snippets: PatternSnippet[] = [];
+
+  for (const dataset of datasets) {
+    const candles = await replayService.loadCandles(dataset);
+    for (let index = SNIPPET_CONTEXT; index < candles.length; index++) {
+      const [pattern, ...alsoMatches] = detectPatterns(candles, index);
+      if (!pattern) continue;
+      const start = index - getPattern(pattern).bars + 1 - SNIPPET_CONTEXT;
+      snippets.push({ pattern, alsoMatches, candles: candles.slice(Math.max(start, 0), index + 1), source: 'dataset' });
+    }
+  }
+  return snippets;
+};
+
+export const drillService = {
+  /**
+   * Answers per pattern, kept on this device
+   */
+  getStats(): Partial<Record<CandlePatternId, PatternStats>> {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
+  },
+
+  recordAnswer(pattern: CandlePatternId, correct: boolean): Partial<Record<CandlePatternId, PatternStats>> {
+    const stats = drillService.getStats();
+    const current = stats[pattern] || { attempts: 0, correct: 0 };
+    const next = { ...stats, [pattern]: { attempts: current.attempts + 1, correct: current.correct + (correct ? 1 : 0) } };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // Storage unavailable: the answer is still reported as a progress event
+    }
+    return next;
+  },
+
+  /**
+   * Patterns found in the built-in market datasets
+   */
+  getDatasetSnippets(): Promise<PatternSnippet[]> {
+    if (!datasetSnippets) {
+      datasetSnippets = findDatasetSnippets();
+      datasetSnippets.catch(() => {
+        datasetSnippets = null;
+      });
+    }
+    return datasetSnippets;
+  }
+};
@@ -0,0 +1,47 @@
+import { lessonCorpusService } from './lessonCorpusService';
+import { createSyncedStore } from './syncedStore';
+import { createSingleFlight } from '../utils/singleFlight';
+import { extractFlashcards, Flashcard } from '../utils/flashcards';
+import { CardReviewState, mergeReviewStates } from '../utils/spacedRepetition';
+
+const reviewStore = createSyncedStore<CardReviewState>({
+  storageKey: 'flashcard_review_state',
+  endpoint: '/api/progress/cards',
+  field: 'cards',
+  merge: mergeReviewStates,
+  getId: state => state.cardId,
+  label: 'flashcard reviews'
+});
+
+const buildDeck = createSingleFlight<Flashcard[]>();
+
+export const flashcardService = {
+  /**
+   * Review state of every card: server and local copies merged, newest review wins.
+   * Reviews made offline (or before the server had them) are pushed back up.
+   */
+  getReviewStates(): Promise<Record<string, CardReviewState>> {
+    return reviewStore.load();
+  },
+
+  /**
+   * Store one review locally right away, then on the server
+   */
+  saveReviewState(state: CardReviewState): Promise<void> {
+    return reviewStore.save([state]);
+  },
+
+  /**
+   * Every flashcard in the given lessons, in course order, taken from the shared read
+   * of the readable lessons
+   */
+  loadDeck(readablePaths: string[], lessonPaths: string[]): Promise<Flashcard[]> {
+    return buildDeck(lessonPaths.join('\n'), () => lessonCorpusService.readLessons(readablePaths).then(lessons => {
+      const order = new Map(lessonPaths.map((path, index) => [path, index]));
+      return lessons
+        .filter(lesson => order.has(lesson.path))
+        .sort((a, b) => (order.get(a.path) ?? 0) - (order.get(b.path) ?? 0))
+        .flatMap(lesson => extractFlashcards(lesson.content || '', lesson.path));
+    }));
+  }
+};
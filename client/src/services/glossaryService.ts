@@ -0,0 +1,20 @@
+import { lessonCorpusService } from './lessonCorpusService';
+import { createSingleFlight } from '../utils/singleFlight';
+import { buildGlossary, GlossaryTerm } from '../utils/glossary';
+
+const buildTerms = createSingleFlight<GlossaryTerm[]>();
+
+export const glossaryService = {
+  /**
+   * Glossary built from the given term notes, taken from the shared read of the readable
+   * lessons; built once per set of notes
+   */
+  getGlossary(readablePaths: string[], termPaths: string[]): Promise<GlossaryTerm[]> {
+    const terms = new Set(termPaths);
+    return buildTerms(termPaths.join('\n'), () => lessonCorpusService.readLessons(readablePaths).then(lessons => buildGlossary(
+      lessons
+        .filter(note => terms.has(note.path))
+        .map(note => ({ path: note.path, content: note.content || '', frontmatter: note.frontmatter }))
+    )));
+  }
+};
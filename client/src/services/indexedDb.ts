@@ -0,0 +1,82 @@
+/**
+ * Promise helpers over IndexedDB, shared by the offline stores
+ */
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export interface IndexedDatabase {
+  /**
+   * Run `work` in one transaction; resolves once the transaction has committed
+   */
+  runTransaction<T>(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    work: (transaction: IDBTransaction) => Promise<T>
+  ): Promise<T>;
+}
+
+/**
+ * Lazily open a database; `upgrade` creates its object stores
+ */
+export const createIndexedDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase) => void
+): IndexedDatabase => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(name, version);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Allow a retry on the next call if opening failed (e.g. private mode)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+
+    return dbPromise;
+  };
+
+  return {
+    async runTransaction(storeNames, mode, work) {
+      const db = await openDatabase();
+      const transaction = db.transaction(storeNames, mode);
+      const done = new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+      // Observed below; avoids an unhandled rejection when work() throws first
+      done.catch(() => undefined);
+
+      try {
+        const result = await work(transaction);
+        await done;
+        return result;
+      } catch (error) {
+        try {
+          transaction.abort();
+        } catch {
+          // Already finished
+        }
+        throw error;
+      }
+    }
+  };
+};
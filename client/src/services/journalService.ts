@@ -0,0 +1,49 @@
+import { apiClient } from './apiClient';
+import { authSession } from './authSession';
+import { createSyncedStore } from './syncedStore';
+import { screenshotStore } from './screenshotStore';
+import { JournalEntry, mergeJournalEntries } from '../utils/journal';
+
+const journalStore = createSyncedStore<JournalEntry>({
+  storageKey: 'trading_journal',
+  endpoint: '/api/journal',
+  field: 'entries',
+  merge: mergeJournalEntries,
+  getId: entry => entry.id,
+  label: 'journal entries'
+});
+
+export const journalService = {
+  /**
+   * Journal entries (including deleted ones) from the server merged with the local copy;
+   * entries changed offline are pushed back up
+   */
+  getEntries(): Promise<Record<string, JournalEntry>> {
+    return journalStore.load();
+  },
+
+  /**
+   * Store an entry (new, edited or deleted) locally right away, then on the server
+   */
+  saveEntry(entry: JournalEntry): Promise<void> {
+    return journalStore.save([entry]);
+  },
+
+  /**
+   * Upload a screenshot and return its URL; offline it is kept in IndexedDB and
+   * referenced by a local id instead
+   */
+  async uploadScreenshot(file: File): Promise<string> {
+    if (authSession.canAuthenticate()) {
+      try {
+        const formData = new FormData();
+        formData.append('screenshot', file);
+        const data = await apiClient.post<{ url?: string }>('/api/journal/screenshots', formData);
+        if (data.url) return data.url;
+      } catch (error) {
+        console.warn('Failed to upload screenshot, keeping it locally:', error);
+      }
+    }
+    return screenshotStore.put(file);
+  }
+};
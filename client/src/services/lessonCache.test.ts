@@ -0,0 +1,53 @@
+import 'fake-indexeddb/auto';
+import { lessonCache } from './lessonCache';
+import { CACHE_CONFIG } from '../constants/config';
+
+const MAX = CACHE_CONFIG.LESSON_CACHE_MAX_SIZE;
+let clock = 0;
+
+const lesson = (path: string) => ({ path, content: `# ${path}`, html: '' });
+
+beforeEach(async () => {
+  jest.spyOn(Date, 'now').mockImplementation(() => ++clock);
+  await lessonCache.clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('evicts the least recently used lessons above the limit', async () => {
+  for (let i = 0; i < MAX; i++) {
+    await lessonCache.putLesson(`lesson-${i}`, lesson(`lesson-${i}`));
+  }
+  // Reading lesson-0 makes lesson-1 the oldest
+  await lessonCache.getLesson('lesson-0');
+  await lessonCache.putLesson('extra', lesson('extra'));
+
+  expect(await lessonCache.getLesson('lesson-1')).toBeNull();
+  expect(await lessonCache.getLesson('lesson-0')).not.toBeNull();
+  expect(await lessonCache.getLesson('extra')).not.toBeNull();
+});
+
+test('peeking does not change the eviction order', async () => {
+  for (let i = 0; i < MAX; i++) {
+    await lessonCache.putLesson(`lesson-${i}`, lesson(`lesson-${i}`));
+  }
+  await lessonCache.peekLesson('lesson-0');
+  await lessonCache.putLesson('extra', lesson('extra'));
+
+  expect(await lessonCache.peekLesson('lesson-0')).toBeNull();
+});
+
+test('never evicts pinned lessons', async () => {
+  await lessonCache.putLesson('downloaded', lesson('downloaded'), undefined, undefined, true);
+  // A revalidation keeps the pin
+  await lessonCache.putLesson('downloaded', lesson('downloaded'));
+  for (let i = 0; i <= MAX; i++) {
+    await lessonCache.putLesson(`lesson-${i}`, lesson(`lesson-${i}`));
+  }
+
+  expect(await lessonCache.peekLesson('downloaded')).toMatchObject({ pinned: true });
+  expect(await lessonCache.peekLesson('lesson-0')).toBeNull();
+  expect(await lessonCache.peekLesson('lesson-1')).not.toBeNull();
+});
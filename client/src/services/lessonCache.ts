@@ -0,0 +1,226 @@
+import { Lesson } from '../types';
+import { CACHE_CONFIG } from '../constants/config';
+import { createIndexedDatabase, promisifyRequest } from './indexedDb';
+
+const DB_NAME = 'trading-info-cache';
+const DB_VERSION = 1;
+const LESSONS_STORE = 'lessons';
+const IMAGES_STORE = 'images';
+
+export interface CachedLesson {
+  path: string;
+  lesson: Lesson;
+  etag?: string;
+  version?: string;
+  cachedAt: number;
+  lastAccessed: number;
+  // Downloaded for offline reading: never evicted
+  pinned?: boolean;
+}
+
+interface CachedImage {
+  url: string;
+  lessonPath: string;
+  blob: Blob;
+  cachedAt: number;
+  pinned?: boolean;
+}
+
+const database = createIndexedDatabase(DB_NAME, DB_VERSION, db => {
+  if (!db.objectStoreNames.contains(LESSONS_STORE)) {
+    const lessons = db.createObjectStore(LESSONS_STORE, { keyPath: 'path' });
+    lessons.createIndex('lastAccessed', 'lastAccessed');
+  }
+  if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+    const images = db.createObjectStore(IMAGES_STORE, { keyPath: 'url' });
+    images.createIndex('lessonPath', 'lessonPath');
+  }
+});
+
+/**
+ * Remove least recently used lessons (and their images) above the size limit.
+ * Pinned lessons and images are kept and do not count towards the limit.
+ */
+const evictLeastRecentlyUsed = async (): Promise<void> => {
+  await database.runTransaction([LESSONS_STORE, IMAGES_STORE], 'readwrite', async transaction => {
+    const lessons = transaction.objectStore(LESSONS_STORE);
+    const images = transaction.objectStore(IMAGES_STORE);
+
+    const entries = (await promisifyRequest<CachedLesson[]>(lessons.index('lastAccessed').getAll()))
+      .filter(entry => !entry.pinned);
+    const overflow = entries.length - CACHE_CONFIG.LESSON_CACHE_MAX_SIZE;
+    if (overflow <= 0) return;
+
+    // Index order is ascending lastAccessed, so the oldest come first
+    for (const entry of entries.slice(0, overflow)) {
+      lessons.delete(entry.path);
+      const lessonImages = await promisifyRequest<CachedImage[]>(images.index('lessonPath').getAll(entry.path));
+      lessonImages
+        .filter(image => !image.pinned)
+        .forEach(image => images.delete(image.url));
+    }
+  });
+};
+
+/**
+ * Persistent LRU lesson store backed by IndexedDB.
+ * Every method fails soft: a broken or missing IndexedDB just means no cache.
+ */
+export const lessonCache = {
+  /**
+   * Get a cached lesson and mark it as recently used
+   */
+  async getLesson(path: string): Promise<CachedLesson | null> {
+    try {
+      return await database.runTransaction([LESSONS_STORE], 'readwrite', async transaction => {
+        const store = transaction.objectStore(LESSONS_STORE);
+        const entry = await promisifyRequest<CachedLesson | undefined>(store.get(path));
+        if (!entry) return null;
+
+        const touched = { ...entry, lastAccessed: Date.now() };
+        store.put(touched);
+        return touched;
+      });
+    } catch (error) {
+      console.warn('Lesson cache read failed:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Get a cached lesson without changing its place in the LRU order
+   */
+  async peekLesson(path: string): Promise<CachedLesson | null> {
+    try {
+      return await database.runTransaction([LESSONS_STORE], 'readonly', async transaction => {
+        const entry = await promisifyRequest<CachedLesson | undefined>(
+          transaction.objectStore(LESSONS_STORE).get(path)
+        );
+        return entry || null;
+      });
+    } catch (error) {
+      console.warn('Lesson cache read failed:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Store a lesson, evicting the least recently used ones above the limit.
+   * A lesson stays pinned once pinned, even when a revalidation replaces it.
+   */
+  async putLesson(path: string, lesson: Lesson, etag?: string, version?: string, pinned = false): Promise<void> {
+    try {
+      const now = Date.now();
+      await database.runTransaction([LESSONS_STORE], 'readwrite', async transaction => {
+        const store = transaction.objectStore(LESSONS_STORE);
+        const existing = await promisifyRequest<CachedLesson | undefined>(store.get(path));
+        const entry: CachedLesson = {
+          path,
+          lesson,
+          etag,
+          version,
+          cachedAt: now,
+          lastAccessed: now,
+          pinned: pinned || existing?.pinned
+        };
+        store.put(entry);
+      });
+      await evictLeastRecentlyUsed();
+    } catch (error) {
+      console.warn('Lesson cache write failed:', error);
+    }
+  },
+
+  /**
+   * Mark a cached lesson as fresh after a 304 response
+   */
+  async touchLesson(path: string): Promise<void> {
+    try {
+      await database.runTransaction([LESSONS_STORE], 'readwrite', async transaction => {
+        const store = transaction.objectStore(LESSONS_STORE);
+        const entry = await promisifyRequest<CachedLesson | undefined>(store.get(path));
+        if (entry) {
+          store.put({ ...entry, cachedAt: Date.now() });
+        }
+      });
+    } catch (error) {
+      console.warn('Lesson cache update failed:', error);
+    }
+  },
+
+  /**
+   * Get a cached image blob
+   */
+  async getImage(url: string): Promise<Blob | null> {
+    try {
+      return await database.runTransaction([IMAGES_STORE], 'readonly', async transaction => {
+        const entry = await promisifyRequest<CachedImage | undefined>(
+          transaction.objectStore(IMAGES_STORE).get(url)
+        );
+        return entry ? entry.blob : null;
+      });
+    } catch (error) {
+      console.warn('Image cache read failed:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Check whether an image is already cached
+   */
+  async hasImage(url: string): Promise<boolean> {
+    try {
+      return await database.runTransaction([IMAGES_STORE], 'readonly', async transaction => {
+        const count = await promisifyRequest(transaction.objectStore(IMAGES_STORE).count(url));
+        return count > 0;
+      });
+    } catch {
+      return false;
+    }
+  },
+
+  /**
+   * Store an image next to the lesson it belongs to
+   */
+  async putImage(url: string, lessonPath: string, blob: Blob, pinned = false): Promise<void> {
+    try {
+      const entry: CachedImage = { url, lessonPath, blob, cachedAt: Date.now(), pinned };
+      await database.runTransaction([IMAGES_STORE], 'readwrite', async transaction => {
+        transaction.objectStore(IMAGES_STORE).put(entry);
+      });
+    } catch (error) {
+      console.warn('Image cache write failed:', error);
+    }
+  },
+
+  /**
+   * Pin an already cached image, which another lesson may have stored, so eviction keeps it
+   */
+  async pinImage(url: string): Promise<void> {
+    try {
+      await database.runTransaction([IMAGES_STORE], 'readwrite', async transaction => {
+        const store = transaction.objectStore(IMAGES_STORE);
+        const entry = await promisifyRequest<CachedImage | undefined>(store.get(url));
+        if (entry && !entry.pinned) {
+          store.put({ ...entry, pinned: true });
+        }
+      });
+    } catch (error) {
+      console.warn('Image cache update failed:', error);
+    }
+  },
+
+  /**
+   * Drop everything (lessons and images)
+   */
+  async clear(): Promise<void> {
+    try {
+      await database.runTransaction([LESSONS_STORE, IMAGES_STORE], 'readwrite', async transaction => {
+        transaction.objectStore(LESSONS_STORE).clear();
+        transaction.objectStore(IMAGES_STORE).clear();
+      });
+    } catch (error) {
+      console.warn('Lesson cache clear failed:', error);
+    }
+  }
+};
@@ -0,0 +1,15 @@
+import { Lesson } from '../types';
+import { lessonService } from './lessonService';
+import { createSingleFlight } from '../utils/singleFlight';
+
+const readCorpus = createSingleFlight<Lesson[]>();
+
+export const lessonCorpusService = {
+  /**
+   * Every readable lesson, for the client-side indexes (link graph, flashcards, glossary).
+   * Read once per set of readable lessons and shared by all of them.
+   */
+  readLessons(readablePaths: string[]): Promise<Lesson[]> {
+    return readCorpus(readablePaths.join('\n'), () => lessonService.readLessons(readablePaths));
+  }
+};
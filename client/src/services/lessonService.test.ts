@@ -0,0 +1,44 @@
+import 'fake-indexeddb/auto';
+import { lessonService } from './lessonService';
+import { lessonCache } from './lessonCache';
+import { apiClient } from './apiClient';
+
+const fetchMock = jest.fn();
+
+const respond = (body: unknown) => ({
+  ok: true,
+  status: 200,
+  headers: new Headers(),
+  json: async () => body,
+  blob: async () => ({ size: 5, type: 'image/png' })
+});
+
+beforeEach(async () => {
+  await lessonCache.clear();
+  fetchMock.mockReset();
+  (global as any).fetch = fetchMock;
+  apiClient.setAuthProvider({
+    getAuthorizationHeader: async () => 'tma signed-init-data',
+    handleUnauthorized: async () => false
+  });
+});
+
+afterEach(() => {
+  apiClient.setAuthProvider(null);
+});
+
+test('sends the Authorization header to API images only', async () => {
+  const content = '![chart](chart.png)\n\n![logo](https://cdn.example.com/logo.png)';
+  fetchMock.mockImplementation(async (url: string) =>
+    respond(url.includes('/api/lessons/content/') ? { path: 'intro.md', content, html: '' } : {})
+  );
+
+  await lessonService.downloadLessonForOffline('intro.md');
+
+  const authorizationFor = (fragment: string) => {
+    const call = fetchMock.mock.calls.find(([url]) => url.includes(fragment));
+    return call?.[1].headers.Authorization;
+  };
+  expect(authorizationFor('/api/image/chart.png')).toBe('tma signed-init-data');
+  expect(authorizationFor('https://cdn.example.com/logo.png')).toBeUndefined();
+});
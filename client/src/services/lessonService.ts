@@ -1,6 +1,117 @@
 import { LessonStructure, Lesson, SearchResult } from '../types';
+import { lessonCache, CachedLesson } from './lessonCache';
+import { apiClient, AuthError, NotFoundError } from './apiClient';
+import { parseMarkdownImages } from '../utils/imageCollageUtils';
+import { buildLessonExcerpt } from '../utils/lessonPreview';
+import { extractChartDataFiles } from '../utils/ohlc';
+import { API_CONFIG, PREVIEW_CONFIG } from '../constants/config';
 
-const API_URL = process.env.REACT_APP_API_URL || '';
+// Parallel content requests in readLessons
+const READ_CONCURRENCY = 4;
+
+interface NetworkLesson {
+  lesson: Lesson;
+  etag?: string;
+  version?: string;
+}
+
+const getImageUrl = (filename: string): string => {
+  return `${API_CONFIG.BASE_URL}/api/image/${encodeURIComponent(filename)}`;
+};
+
+/**
+ * Collect the image URLs a lesson renders (markdown and Obsidian ![[...]] images),
+ * plus the data files its ```chart blocks read
+ */
+const extractLessonImageUrls = (content: string): string[] => {
+  const urls = parseMarkdownImages(content).map(image =>
+    /^(https?:)?\/\//.test(image.src) || image.src.startsWith('/') ? image.src : getImageUrl(image.src)
+  );
+  extractChartDataFiles(content).forEach(file => urls.push(getImageUrl(file)));
+  return Array.from(new Set(urls));
+};
+
+/**
+ * Whether a URL is served by the API, the only origin that receives the Authorization header
+ */
+const isApiUrl = (url: string): boolean => {
+  const apiOrigin = new URL(API_CONFIG.BASE_URL || '/', window.location.href).origin;
+  return new URL(url, `${apiOrigin}/`).origin === apiOrigin;
+};
+
+/**
+ * Store a lesson's images next to it so it renders offline; pinned images are never evicted
+ */
+const cacheLessonImages = async (lessonPath: string, content: string, pinned = false): Promise<void> => {
+  for (const url of extractLessonImageUrls(content)) {
+    if (await lessonCache.hasImage(url)) {
+      if (pinned) await lessonCache.pinImage(url);
+      continue;
+    }
+
+    try {
+      const response = await apiClient.request(url, { auth: isApiUrl(url) });
+      await lessonCache.putImage(url, lessonPath, await response.blob(), pinned);
+    } catch (error) {
+      console.warn('Failed to cache lesson image:', url, error);
+    }
+  }
+};
+
+/**
+ * Request lesson content without touching the cache; resolves to null on 304 Not Modified
+ */
+const requestLesson = async (lessonPath: string, etag?: string): Promise<NetworkLesson | null> => {
+  const response = await apiClient.request(`/api/lessons/content/${lessonPath}`, {
+    headers: etag ? { 'If-None-Match': etag } : undefined,
+    allowStatuses: [304]
+  });
+  if (response.status === 304) {
+    return null;
+  }
+
+  const lesson: Lesson = await response.json();
+  const version = response.headers.get('X-Lesson-Version') || lesson.frontmatter?.version?.toString();
+  return {
+    lesson,
+    etag: response.headers.get('ETag') || undefined,
+    version
+  };
+};
+
+/**
+ * Fetch lesson content from the network and store it in the cache; resolves to null on 304 Not Modified
+ */
+const fetchLessonFromNetwork = async (
+  lessonPath: string,
+  etag?: string,
+  pinned = false
+): Promise<NetworkLesson | null> => {
+  const networkLesson = await requestLesson(lessonPath, etag);
+  if (networkLesson) {
+    const { lesson, etag: freshEtag, version } = networkLesson;
+    await lessonCache.putLesson(lessonPath, lesson, freshEtag, version, pinned);
+  }
+  return networkLesson;
+};
+
+/**
+ * Background refresh of a cached lesson; resolves to the new lesson only if it changed
+ */
+const revalidateLesson = async (lessonPath: string, cached: CachedLesson): Promise<Lesson | null> => {
+  const fresh = await fetchLessonFromNetwork(lessonPath, cached.etag);
+  if (!fresh) {
+    await lessonCache.touchLesson(lessonPath);
+    return null;
+  }
+  cacheLessonImages(lessonPath, fresh.lesson.content, cached.pinned);
+
+  const unchanged = cached.version && fresh.version
+    ? cached.version === fresh.version
+    : cached.lesson.content === fresh.lesson.content;
+
+  return unchanged ? null : fresh.lesson;
+};
 
 export const lessonService = {
   /**
@@ -8,12 +119,7 @@ export const lessonService = {
    */
   async fetchLessonStructure(): Promise<LessonStructure[]> {
     try {
-      const response = await fetch(`${API_URL}/api/lessons/structure`);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch lesson structure: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
+      const data = await apiClient.get<any>('/api/lessons/structure');
 
       // Backend now returns properly formatted structure
       return data.structure || data;
@@ -24,43 +130,138 @@ export const lessonService = {
   },
 
   /**
-   * Fetch specific lesson content - backend handles caching
+   * Fetch specific lesson content - stale-while-revalidate over the IndexedDB lesson cache.
+   * A cached copy is returned immediately; if the server has a newer one, onRevalidated gets it.
    */
-  async fetchLessonContent(lessonPath: string): Promise<Lesson> {
-    const telegramId = window.Telegram?.WebApp?.initDataUnsafe?.user?.id;
-    const url = telegramId
-      ? `${API_URL}/api/lessons/content/${lessonPath}?telegramId=${telegramId}`
-      : `${API_URL}/api/lessons/content/${lessonPath}`;
-
-    const response = await fetch(url);
-    if (!response.ok) {
+  async fetchLessonContent(lessonPath: string, onRevalidated?: (lesson: Lesson) => void): Promise<Lesson> {
+    const cached = await lessonCache.getLesson(lessonPath);
+
+    if (cached) {
+      revalidateLesson(lessonPath, cached)
+        .then(updated => {
+          if (updated) onRevalidated?.(updated);
+        })
+        .catch(error => console.warn('Lesson revalidation failed (offline?):', error));
+      return cached.lesson;
+    }
+
+    const fresh = await fetchLessonFromNetwork(lessonPath);
+    if (!fresh) {
+      // 304 without a cached copy: the server and the local cache disagree
       throw new Error('Failed to fetch lesson content');
     }
-    return await response.json();
+    cacheLessonImages(lessonPath, fresh.lesson.content);
+    return fresh.lesson;
   },
 
   /**
-   * Search lessons
+   * Read many lessons for client-side indexing (link graph, flashcards, glossary): the
+   * offline cache first without revalidation, the network otherwise. Reads neither touch
+   * the LRU order nor store lessons or images, so indexing never evicts what the user
+   * actually opened. Lessons that cannot be read (locked, missing) are skipped.
+   */
+  async readLessons(lessonPaths: string[]): Promise<Lesson[]> {
+    const lessons: Lesson[] = [];
+    let next = 0;
+
+    const worker = async () => {
+      while (next < lessonPaths.length) {
+        const lessonPath = lessonPaths[next++];
+        try {
+          const cached = await lessonCache.peekLesson(lessonPath);
+          const lesson = cached?.lesson || (await requestLesson(lessonPath))?.lesson;
+          if (lesson) {
+            lessons.push({ ...lesson, path: lessonPath });
+          }
+        } catch (error) {
+          console.warn('Skipping unreadable lesson:', lessonPath, error);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(READ_CONCURRENCY, lessonPaths.length) }, worker));
+    return lessons;
+  },
+
+  /**
+   * Fetch the paywall preview of a locked lesson: its outline and first paragraphs.
+   * Never cached, so a preview cannot be mistaken for the full lesson offline.
    */
-  async searchLessons(query: string): Promise<SearchResult[]> {
-    const response = await fetch(`${API_URL}/api/lessons/search?q=${encodeURIComponent(query)}`);
-    if (!response.ok) {
-      throw new Error('Search failed');
+  async fetchLessonPreview(lessonPath: string): Promise<Lesson> {
+    let lesson: Lesson;
+    try {
+      lesson = await apiClient.get<Lesson>(`/api/lessons/content/${lessonPath}`, {
+        query: { preview: true }
+      });
+    } catch (error) {
+      if (!(error instanceof AuthError)) throw error;
+      // The server refuses locked content outright: show the title only
+      lesson = { path: lessonPath, content: '', html: '' };
     }
-    const data = await response.json();
+
+    const { excerpt, headings } = buildLessonExcerpt(lesson.content || '', PREVIEW_CONFIG.PARAGRAPH_COUNT);
+    return {
+      ...lesson,
+      path: lessonPath,
+      content: excerpt,
+      html: '',
+      preview: { headings }
+    };
+  },
+
+  /**
+   * Download a lesson and all of its images for offline reading. Both are pinned,
+   * so browsing other lessons never evicts a downloaded folder.
+   */
+  async downloadLessonForOffline(lessonPath: string): Promise<void> {
+    const fresh = await fetchLessonFromNetwork(lessonPath, undefined, true);
+    if (fresh) {
+      await cacheLessonImages(lessonPath, fresh.lesson.content, true);
+    }
+  },
+
+  /**
+   * Build the URL of an uploaded lesson image
+   */
+  getImageUrl,
+
+  /**
+   * Search lessons
+   */
+  async searchLessons(query: string, signal?: AbortSignal): Promise<SearchResult[]> {
+    const data = await apiClient.get<{ results: any[] }>('/api/lessons/search', {
+      query: { q: query },
+      signal
+    });
     return data.results.filter((result: any) => result.type === 'lesson' || result.type === 'file');
   },
 
+  /**
+   * Resolve a lesson name (Obsidian link text, slug) to its path
+   */
+  async resolveLessonPath(name: string): Promise<string | null> {
+    try {
+      const data = await apiClient.get<{ found: boolean; path?: string }>('/api/lessons/resolve', {
+        query: { name }
+      });
+      return data.found && data.path ? data.path : null;
+    } catch (error) {
+      if (error instanceof NotFoundError) return null;
+      throw error;
+    }
+  },
+
   /**
    * Check if user has access to a lesson
    */
   async checkLessonAccess(lessonPath: string): Promise<boolean> {
-    const telegramId = window.Telegram?.WebApp?.initDataUnsafe?.user?.id;
-    const response = await fetch(
-      `${API_URL}/api/subscription/access/check?telegramId=${telegramId || ''}&lessonPath=${encodeURIComponent(lessonPath)}`
-    );
-    if (!response.ok) return false;
-    const data = await response.json();
-    return data.hasAccess;
+    try {
+      const data = await apiClient.get<{ hasAccess: boolean }>('/api/subscription/access/check', {
+        query: { lessonPath }
+      });
+      return data.hasAccess;
+    } catch {
+      return false;
+    }
   }
 };
\ No newline at end of file
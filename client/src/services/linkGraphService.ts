@@ -0,0 +1,23 @@
+import { lessonCorpusService } from './lessonCorpusService';
+import { createSingleFlight } from '../utils/singleFlight';
+import { buildLinkGraph, getFrontmatterTags, LinkGraph } from '../utils/linkGraph';
+
+const buildGraph = createSingleFlight<LinkGraph>();
+
+export const linkGraphService = {
+  /**
+   * Link graph over every readable lesson. Built once per set of readable lessons,
+   * so it is rebuilt only when the structure or the reader's access changes.
+   */
+  getLinkGraph(allPaths: string[], readablePaths: string[]): Promise<LinkGraph> {
+    const key = `${allPaths.length}:${readablePaths.join('\n')}`;
+    return buildGraph(key, () => lessonCorpusService.readLessons(readablePaths).then(lessons => buildLinkGraph(
+      lessons.map(lesson => ({
+        path: lesson.path,
+        content: lesson.content || '',
+        tags: getFrontmatterTags(lesson.frontmatter)
+      })),
+      allPaths
+    )));
+  }
+};
@@ -1,4 +1,5 @@
-const API_URL = process.env.REACT_APP_API_URL || '';
+import { apiClient, NotFoundError } from './apiClient';
+import { authSession } from './authSession';
 
 export interface ProgressMetrics {
   timeSpent: number;
@@ -10,6 +11,24 @@ export interface ProgressMetrics {
   lastVisited?: number;
 }
 
+export interface LessonProgress {
+  completionScore: number; // 0-100
+  completed: boolean;
+}
+
+const toProgressMap = (
+  entries: Array<Partial<LessonProgress> & { lessonPath: string }>
+): Record<string, LessonProgress> => {
+  const map: Record<string, LessonProgress> = {};
+  entries.forEach(entry => {
+    map[entry.lessonPath] = {
+      completionScore: entry.completionScore || 0,
+      completed: Boolean(entry.completed)
+    };
+  });
+  return map;
+};
+
 export interface UserStatistics {
   totalLessonsViewed: number;
   totalLessonsCompleted: number;
@@ -34,19 +53,13 @@ export const progressService = {
    * Start a reading session
    */
   async startSession(lessonPath: string, wordCount: number): Promise<void> {
-    const telegramId = window.Telegram?.WebApp?.initDataUnsafe?.user?.id;
-    if (!telegramId) return;
+    if (!authSession.canAuthenticate()) return;
 
     try {
-      await fetch(`${API_URL}/api/progress/session/start`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-        body: new URLSearchParams({
-          telegramId: telegramId.toString(),
-          lessonPath,
-          wordCount: wordCount.toString()
-        })
-      });
+      await apiClient.post('/api/progress/session/start', new URLSearchParams({
+        lessonPath,
+        wordCount: wordCount.toString()
+      }));
     } catch (error) {
       console.error('Failed to start session:', error);
     }
@@ -56,43 +69,47 @@ export const progressService = {
    * Update scroll progress
    */
   async updateScrollProgress(lessonPath: string, scrollProgress: number): Promise<void> {
-    const telegramId = window.Telegram?.WebApp?.initDataUnsafe?.user?.id;
-    if (!telegramId) return;
+    if (!authSession.canAuthenticate()) return;
 
     try {
-      await fetch(`${API_URL}/api/progress/session/scroll`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-        body: new URLSearchParams({
-          telegramId: telegramId.toString(),
-          lessonPath,
-          scrollProgress: scrollProgress.toString()
-        })
-      });
+      await apiClient.post('/api/progress/session/scroll', new URLSearchParams({
+        lessonPath,
+        scrollProgress: scrollProgress.toString()
+      }));
     } catch (error) {
       console.error('Failed to update scroll progress:', error);
     }
   },
 
+  /**
+   * Report the lesson's quiz score (share of its questions answered correctly, 0-1);
+   * the server blends it into the lesson's completion score
+   */
+  async updateQuizScore(lessonPath: string, quizScore: number, answered: number, total: number): Promise<void> {
+    if (!authSession.canAuthenticate()) return;
+
+    try {
+      await apiClient.post('/api/progress/session/quiz', new URLSearchParams({
+        lessonPath,
+        quizScore: quizScore.toString(),
+        answered: answered.toString(),
+        total: total.toString()
+      }));
+    } catch (error) {
+      console.error('Failed to update quiz score:', error);
+    }
+  },
+
   /**
    * End reading session
    */
   async endSession(lessonPath: string): Promise<ProgressMetrics | null> {
-    const telegramId = window.Telegram?.WebApp?.initDataUnsafe?.user?.id;
-    if (!telegramId) return null;
+    if (!authSession.canAuthenticate()) return null;
 
     try {
-      const response = await fetch(`${API_URL}/api/progress/session/end`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-        body: new URLSearchParams({
-          telegramId: telegramId.toString(),
-          lessonPath
-        })
-      });
-
-      if (!response.ok) return null;
-      return await response.json();
+      return await apiClient.post<ProgressMetrics>('/api/progress/session/end', new URLSearchParams({
+        lessonPath
+      }));
     } catch (error) {
       console.error('Failed to end session:', error);
       return null;
@@ -103,37 +120,48 @@ export const progressService = {
    * Get progress metrics for a lesson
    */
   async getProgressMetrics(lessonPath: string): Promise<ProgressMetrics | null> {
-    const telegramId = window.Telegram?.WebApp?.initDataUnsafe?.user?.id;
-    if (!telegramId) return null;
+    if (!authSession.canAuthenticate()) return null;
 
     try {
-      const response = await fetch(`${API_URL}/api/progress/metrics/${telegramId}/${encodeURIComponent(lessonPath)}`);
-      if (!response.ok) return null;
-      return await response.json();
+      return await apiClient.get<ProgressMetrics>(`/api/progress/metrics/${encodeURIComponent(lessonPath)}`);
     } catch (error) {
       console.error('Failed to get progress metrics:', error);
       return null;
     }
   },
 
+  /**
+   * Get completion of every lesson the user has opened, keyed by lesson path
+   */
+  async getLessonProgress(): Promise<Record<string, LessonProgress>> {
+    if (!authSession.canAuthenticate()) return {};
+
+    try {
+      const data = await apiClient.get<{ lessons?: Array<LessonProgress & { lessonPath: string }> }>('/api/progress/lessons');
+      return toProgressMap(data.lessons || []);
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        console.error('Failed to get lesson progress:', error);
+        return {};
+      }
+      // Older backends: fall back to the recent activity of the user statistics
+      const statistics = await progressService.getUserStatistics();
+      return toProgressMap(statistics?.recentActivity || []);
+    }
+  },
+
   /**
    * Track analytics event
    */
   async trackEvent(eventType: string, lessonPath: string, data?: any): Promise<void> {
-    const telegramId = window.Telegram?.WebApp?.initDataUnsafe?.user?.id;
-    if (!telegramId) return;
+    if (!authSession.canAuthenticate()) return;
 
     try {
-      await fetch(`${API_URL}/api/progress/event`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          telegramId,
-          eventType,
-          lessonPath,
-          timestamp: Date.now(),
-          ...data
-        })
+      await apiClient.post('/api/progress/event', {
+        eventType,
+        lessonPath,
+        timestamp: Date.now(),
+        ...data
       });
     } catch (error) {
       console.error('Failed to track event:', error);
@@ -144,13 +172,10 @@ export const progressService = {
    * Get user statistics
    */
   async getUserStatistics(): Promise<UserStatistics | null> {
-    const telegramId = window.Telegram?.WebApp?.initDataUnsafe?.user?.id;
-    if (!telegramId) return null;
+    if (!authSession.canAuthenticate()) return null;
 
     try {
-      const response = await fetch(`${API_URL}/api/statistics/user/${telegramId}`);
-      if (!response.ok) return null;
-      return await response.json();
+      return await apiClient.get<UserStatistics>('/api/statistics/user');
     } catch (error) {
       console.error('Failed to get user statistics:', error);
       return null;
@@ -161,13 +186,10 @@ export const progressService = {
    * Get current learning streak
    */
   async getCurrentStreak(): Promise<number> {
-    const telegramId = window.Telegram?.WebApp?.initDataUnsafe?.user?.id;
-    if (!telegramId) return 0;
+    if (!authSession.canAuthenticate()) return 0;
 
     try {
-      const response = await fetch(`${API_URL}/api/statistics/streak/${telegramId}`);
-      if (!response.ok) return 0;
-      return await response.json();
+      return await apiClient.get<number>('/api/statistics/streak');
     } catch (error) {
       console.error('Failed to get current streak:', error);
       return 0;
@@ -178,13 +200,10 @@ export const progressService = {
    * Get learning insights
    */
   async getLearningInsights(): Promise<Record<string, any> | null> {
-    const telegramId = window.Telegram?.WebApp?.initDataUnsafe?.user?.id;
-    if (!telegramId) return null;
+    if (!authSession.canAuthenticate()) return null;
 
     try {
-      const response = await fetch(`${API_URL}/api/statistics/insights/${telegramId}`);
-      if (!response.ok) return null;
-      return await response.json();
+      return await apiClient.get<Record<string, any>>('/api/statistics/insights');
     } catch (error) {
       console.error('Failed to get learning insights:', error);
       return null;
@@ -0,0 +1,104 @@
+import { apiClient, NotFoundError } from './apiClient';
+import { chartDataService } from './chartDataService';
+import { generateCandles, MarketSegment } from '../utils/candleGenerator';
+import { Candle } from '../utils/ohlc';
+import { ReplayScenario } from '../utils/replay';
+
+export interface ReplayDataset {
+  id: string;
+  name: string;
+  /** Uploaded data file; built-in datasets are generated instead */
+  file?: string;
+}
+
+interface BuiltinDataset extends ReplayDataset {
+  seed: number;
+  startPrice: number;
+  segments: MarketSegment[];
+}
+
+// Generated practice markets, available offline
+const BUILTIN_DATASETS: BuiltinDataset[] = [
+  {
+    id: 'uptrend',
+    name: 'Восходящий тренд',
+    seed: 11,
+    startPrice: 100,
+    segments: [
+      { bars: 80, drift: 0.0005, volatility: 0.012 },
+      { bars: 120, drift: 0.003, volatility: 0.015 },
+      { bars: 60, drift: -0.001, volatility: 0.012 }
+    ]
+  },
+  {
+    id: 'downtrend',
+    name: 'Нисходящий тренд',
+    seed: 23,
+    startPrice: 250,
+    segments: [
+      { bars: 70, drift: 0, volatility: 0.01 },
+      { bars: 140, drift: -0.0035, volatility: 0.016 },
+      { bars: 50, drift: 0.001, volatility: 0.012 }
+    ]
+  },
+  {
+    id: 'range',
+    name: 'Боковик и пробой',
+    seed: 37,
+    startPrice: 50,
+    segments: [
+      { bars: 160, drift: 0, volatility: 0.009 },
+      { bars: 80, drift: 0.004, volatility: 0.018 }
+    ]
+  },
+  {
+    id: 'reversal',
+    name: 'Разворот',
+    seed: 53,
+    startPrice: 1800,
+    segments: [
+      { bars: 110, drift: 0.0025, volatility: 0.011 },
+      { bars: 30, drift: 0, volatility: 0.02 },
+      { bars: 120, drift: -0.003, volatility: 0.014 }
+    ]
+  }
+];
+
+export const replayService = {
+  /**
+   * Built-in datasets followed by the ones uploaded by admins
+   */
+  async getDatasets(): Promise<ReplayDataset[]> {
+    const builtin = BUILTIN_DATASETS.map(({ id, name }) => ({ id, name }));
+    try {
+      const data = await apiClient.get<{ datasets: Array<{ name?: string; file: string }> }>('/api/replay/datasets');
+      return [...builtin, ...(data.datasets || []).map(dataset => ({
+        id: dataset.file,
+        name: dataset.name || dataset.file,
+        file: dataset.file
+      }))];
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        console.warn('Failed to load replay datasets:', error);
+      }
+      return builtin;
+    }
+  },
+
+  /**
+   * The dataset a lesson scenario refers to; unknown built-in names fall back to the first one
+   */
+  getScenarioDataset(scenario: ReplayScenario): ReplayDataset {
+    if (scenario.src) return { id: scenario.src, name: scenario.title || scenario.src, file: scenario.src };
+    const builtin = BUILTIN_DATASETS.find(dataset => dataset.id === scenario.dataset) || BUILTIN_DATASETS[0];
+    return { id: builtin.id, name: builtin.name };
+  },
+
+  async loadCandles(dataset: ReplayDataset, lessonPath?: string): Promise<Candle[]> {
+    if (dataset.file) return chartDataService.loadCandles(dataset.file, lessonPath);
+
+    const builtin = BUILTIN_DATASETS.find(item => item.id === dataset.id);
+    if (!builtin) throw new Error(`Unknown dataset: ${dataset.id}`);
+    return generateCandles({ seed: builtin.seed, segments: builtin.segments, startPrice: builtin.startPrice });
+  }
+};
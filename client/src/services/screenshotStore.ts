@@ -0,0 +1,62 @@
+import { createIndexedDatabase, promisifyRequest } from './indexedDb';
+
+const DB_NAME = 'trading-journal';
+const DB_VERSION = 1;
+const SCREENSHOTS_STORE = 'screenshots';
+
+// Journal entries reference screenshots kept on this device by `local-screenshot:<id>`
+const LOCAL_PREFIX = 'local-screenshot:';
+
+interface StoredScreenshot {
+  id: string;
+  blob: Blob;
+  createdAt: number;
+}
+
+const database = createIndexedDatabase(DB_NAME, DB_VERSION, db => {
+  if (!db.objectStoreNames.contains(SCREENSHOTS_STORE)) {
+    db.createObjectStore(SCREENSHOTS_STORE, { keyPath: 'id' });
+  }
+});
+
+const createScreenshotId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Journal screenshots that could not be uploaded, stored as blobs in IndexedDB
+ */
+export const screenshotStore = {
+  /**
+   * Whether a screenshot reference points at this device rather than a URL
+   */
+  isLocal(reference: string): boolean {
+    return reference.startsWith(LOCAL_PREFIX);
+  },
+
+  /**
+   * Store an image and return the reference to keep in the journal entry
+   */
+  async put(blob: Blob): Promise<string> {
+    const entry: StoredScreenshot = { id: createScreenshotId(), blob, createdAt: Date.now() };
+    await database.runTransaction([SCREENSHOTS_STORE], 'readwrite', async transaction => {
+      transaction.objectStore(SCREENSHOTS_STORE).put(entry);
+    });
+    return `${LOCAL_PREFIX}${entry.id}`;
+  },
+
+  /**
+   * Read a local screenshot; null when it is missing (e.g. saved on another device)
+   */
+  async get(reference: string): Promise<Blob | null> {
+    try {
+      return await database.runTransaction([SCREENSHOTS_STORE], 'readonly', async transaction => {
+        const entry = await promisifyRequest<StoredScreenshot | undefined>(
+          transaction.objectStore(SCREENSHOTS_STORE).get(reference.slice(LOCAL_PREFIX.length))
+        );
+        return entry ? entry.blob : null;
+      });
+    } catch (error) {
+      console.warn('Screenshot store read failed:', error);
+      return null;
+    }
+  }
+};
@@ -0,0 +1,94 @@
+import { apiClient, NotFoundError } from './apiClient';
+import { authSession } from './authSession';
+
+/**
+ * Per-user records kept both on the server and in local storage (flashcard reviews,
+ * journal entries, annotations). Local changes are saved right away and pushed up;
+ * on load the two copies are merged (newest wins) and whatever the server lacks is
+ * pushed again. The server knows the user from the session, never from the request.
+ */
+
+interface SyncedStoreOptions<T> {
+  /** Base localStorage key; the copy is kept per Telegram account */
+  storageKey: string;
+  /** GET returns `{ [field]: T[] }`, POST takes `{ [field]: T[] }` */
+  endpoint: string;
+  field: string;
+  merge: (...sources: T[][]) => Record<string, T>;
+  getId: (item: T) => string;
+  /** Used in warnings, e.g. "journal entries" */
+  label: string;
+}
+
+// Only separates the local copies of different accounts on one device; never sent
+const getStorageKey = (base: string) => {
+  const accountId = window.Telegram?.WebApp?.initDataUnsafe?.user?.id;
+  return `${base}:${accountId ?? 'guest'}`;
+};
+
+export const createSyncedStore = <T>({ storageKey, endpoint, field, merge, getId, label }: SyncedStoreOptions<T>) => {
+  const loadLocal = (): T[] => {
+    try {
+      const stored = localStorage.getItem(getStorageKey(storageKey));
+      return stored ? Object.values(JSON.parse(stored)) : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const saveLocal = (items: Record<string, T>) => {
+    try {
+      localStorage.setItem(getStorageKey(storageKey), JSON.stringify(items));
+    } catch (error) {
+      // Usually a full storage; the server copy still has the records
+      console.warn(`Failed to store ${label} locally:`, error);
+    }
+  };
+
+  const push = async (items: T[]): Promise<void> => {
+    await apiClient.post(endpoint, { [field]: items });
+  };
+
+  return {
+    /**
+     * Server and local copies merged; records the server lacks are pushed back up
+     */
+    async load(): Promise<Record<string, T>> {
+      const local = loadLocal();
+      if (!authSession.canAuthenticate()) return merge(local);
+
+      try {
+        const data = await apiClient.get<Record<string, T[] | undefined>>(endpoint);
+        const remote = merge(data[field] || []);
+        const merged = merge(data[field] || [], local);
+        saveLocal(merged);
+
+        const unsynced = Object.values(merged).filter(item => item !== remote[getId(item)]);
+        if (unsynced.length > 0) {
+          push(unsynced).catch(error => console.warn(`Failed to sync ${label}:`, error));
+        }
+        return merged;
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) {
+          console.warn(`Failed to load ${label}, using local copy:`, error);
+        }
+        return merge(local);
+      }
+    },
+
+    /**
+     * Store records locally right away, then on the server
+     */
+    async save(items: T[]): Promise<void> {
+      saveLocal(merge(loadLocal(), items));
+      if (!authSession.canAuthenticate()) return;
+
+      try {
+        await push(items);
+      } catch (error) {
+        // Kept locally; pushed again on the next load
+        console.warn(`Failed to save ${label}:`, error);
+      }
+    }
+  };
+};
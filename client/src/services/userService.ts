@@ -0,0 +1,39 @@
+import { UserCapabilities } from '../types';
+import { apiClient } from './apiClient';
+
+// Least privilege when the backend cannot be reached
+const STUDENT_CAPABILITIES: UserCapabilities = {
+  roles: ['student'],
+  permissions: []
+};
+
+let capabilitiesPromise: Promise<UserCapabilities> | null = null;
+
+export const userService = {
+  /**
+   * Fetch the current user's roles and permissions (cached for the app session)
+   */
+  fetchCapabilities(): Promise<UserCapabilities> {
+    if (!capabilitiesPromise) {
+      capabilitiesPromise = apiClient.get<Partial<UserCapabilities>>('/api/me')
+        .then(data => ({
+          roles: data?.roles?.length ? data.roles : STUDENT_CAPABILITIES.roles,
+          permissions: data?.permissions || []
+        }))
+        .catch(error => {
+          console.error('Failed to fetch user capabilities:', error);
+          // Try again next time instead of caching the failure
+          capabilitiesPromise = null;
+          return STUDENT_CAPABILITIES;
+        });
+    }
+    return capabilitiesPromise;
+  },
+
+  /**
+   * Drop the cached capabilities (e.g. after the session changes)
+   */
+  invalidateCapabilities() {
+    capabilitiesPromise = null;
+  }
+};
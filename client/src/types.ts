@@ -1,12 +1,42 @@
+/**
+ * Who may read a lesson: 'free', 'subscriber' or the name of a subscription tier.
+ * Folders pass their level down to children that do not set one.
+ */
+export type AccessLevel = 'free' | 'subscriber' | (string & {});
+
 export interface LessonStructure {
   id: string;
   name: string;
   type: 'folder' | 'file';
   path: string;
   filename?: string;
+  access?: AccessLevel;
+  /** ISO date the lesson was added, when the API provides it */
+  createdAt?: string;
   children?: LessonStructure[];
 }
 
+export interface LessonHeading {
+  level: number;
+  text: string;
+}
+
+export interface TocItem extends LessonHeading {
+  /** Slug id of the rendered heading element */
+  id: string;
+}
+
+/** Where the reader was: a heading id plus the distance scrolled past it */
+export interface ScrollAnchor {
+  heading: string | null;
+  offset: number;
+}
+
+/** Marks a truncated copy of a locked lesson shown behind the paywall */
+export interface LessonPreview {
+  headings: LessonHeading[];
+}
+
 export interface Lesson {
   path: string;
   frontmatter?: Record<string, any>;
@@ -17,6 +47,20 @@ export interface Lesson {
   description?: string;
   id?: string;
   slug?: string;
+  access?: AccessLevel;
+  preview?: LessonPreview;
+}
+
+/** Another lesson listed under a lesson's backlinks or related lessons */
+export interface LessonLink {
+  path: string;
+  name: string;
+  locked: boolean;
+}
+
+export interface LessonConnections {
+  backlinks: LessonLink[];
+  related: LessonLink[];
 }
 
 export interface SearchResult {
@@ -24,4 +68,14 @@ export interface SearchResult {
   name: string;
   path: string;
   type: 'lesson' | 'folder';
-}
\ No newline at end of file
+  access?: AccessLevel;
+}
+
+export type UserRole = 'student' | 'editor' | 'admin';
+
+export type Permission = 'upload' | 'delete' | 'manage-users';
+
+export interface UserCapabilities {
+  roles: UserRole[];
+  permissions: Permission[];
+}
@@ -0,0 +1,45 @@
+import { buildAccessIndex, canAccessLevel, resolveAccessLevel } from './accessPolicy';
+import { LessonStructure } from '../types';
+
+const structure: LessonStructure[] = [
+  {
+    id: '1',
+    name: 'Курс',
+    type: 'folder',
+    path: 'Курс',
+    access: 'subscriber',
+    children: [
+      { id: '2', name: 'Урок 1', type: 'file', path: 'Курс/Урок 1.md' },
+      { id: '3', name: 'Урок 2', type: 'file', path: 'Курс/Урок 2.md', access: 'free' },
+      { id: '4', name: 'Урок 3', type: 'file', path: 'Курс/Урок 3.md', access: 'Pro' },
+    ],
+  },
+];
+
+test('children inherit the folder level unless they set their own', () => {
+  const index = buildAccessIndex(structure);
+
+  expect(resolveAccessLevel('Курс/Урок 1.md', index)).toBe('subscriber');
+  expect(resolveAccessLevel('Курс/Урок 2.md', index)).toBe('free');
+  expect(resolveAccessLevel('Курс/Урок 3.md', index)).toBe('Pro');
+});
+
+test('explicit levels win over folder names', () => {
+  const index = buildAccessIndex([
+    { id: '1', name: '🎓 Бонус', type: 'file', path: '🎓 Бонус.md', access: 'free' },
+  ]);
+
+  expect(resolveAccessLevel('🎓 Бонус.md', index)).toBe('free');
+  expect(resolveAccessLevel('Средний уровень (Подписка)/Урок.md', index)).toBe('subscriber');
+  expect(resolveAccessLevel('Основы/Урок.md', index)).toBe('free');
+});
+
+test('tiers unlock their own level and subscriber content', () => {
+  const proUser = { isSubscribed: false, tiers: ['Pro'] };
+  const subscriber = { isSubscribed: true, tiers: [] };
+
+  expect(canAccessLevel('Pro', proUser)).toBe(true);
+  expect(canAccessLevel('subscriber', proUser)).toBe(true);
+  expect(canAccessLevel('Pro', subscriber)).toBe(false);
+  expect(canAccessLevel('free', { isSubscribed: false, tiers: [] })).toBe(true);
+});
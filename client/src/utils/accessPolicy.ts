@@ -0,0 +1,84 @@
+import { AccessLevel, Lesson, LessonStructure } from '../types';
+
+/**
+ * Single source of truth for premium content.
+ *
+ * Access levels come from the API (`access` on structure nodes, lessons and search
+ * results) or from lesson frontmatter. Folder names are only consulted for content
+ * that carries no level at all, so renaming a folder no longer unlocks it.
+ */
+
+export const FREE_ACCESS: AccessLevel = 'free';
+export const SUBSCRIBER_ACCESS: AccessLevel = 'subscriber';
+
+// Older backends send no access levels: fall back to the historic folder markers
+const LEGACY_PREMIUM_MARKERS = ['Средний уровень (Подписка)', '🎓'];
+
+/** What the current user has paid for */
+export interface SubscriptionGrant {
+  isSubscribed: boolean;
+  tiers: string[];
+}
+
+/** Effective access level per structure path (including inherited levels) */
+export type AccessIndex = Map<string, AccessLevel>;
+
+/**
+ * Normalize a raw level from the API or frontmatter; undefined when not set
+ */
+export const normalizeAccessLevel = (value: unknown): AccessLevel | undefined => {
+  if (typeof value === 'boolean') {
+    return value ? SUBSCRIBER_ACCESS : FREE_ACCESS;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    return undefined;
+  }
+  const level = value.trim();
+  const lower = level.toLowerCase();
+  return lower === FREE_ACCESS || lower === SUBSCRIBER_ACCESS ? lower : level;
+};
+
+/**
+ * Index every structure node by path, inheriting the nearest folder's level
+ */
+export const buildAccessIndex = (
+  structure: LessonStructure[],
+  inherited?: AccessLevel,
+  index: AccessIndex = new Map()
+): AccessIndex => {
+  structure.forEach(node => {
+    const level = normalizeAccessLevel(node.access) ?? inherited;
+    if (level) {
+      index.set(node.path, level);
+    }
+    if (node.children) {
+      buildAccessIndex(node.children, level, index);
+    }
+  });
+  return index;
+};
+
+/**
+ * Access level a lesson declares itself (API field first, then frontmatter)
+ */
+export const getLessonAccessLevel = (lesson: Lesson): AccessLevel | undefined => {
+  return normalizeAccessLevel(lesson.access) ?? normalizeAccessLevel(lesson.frontmatter?.access);
+};
+
+/**
+ * Effective level for a path: explicit level, then the structure, then legacy markers
+ */
+export const resolveAccessLevel = (path: string, index: AccessIndex, explicit?: unknown): AccessLevel => {
+  const level = normalizeAccessLevel(explicit) ?? index.get(path);
+  if (level) return level;
+  return LEGACY_PREMIUM_MARKERS.some(marker => path.includes(marker)) ? SUBSCRIBER_ACCESS : FREE_ACCESS;
+};
+
+/**
+ * Whether a grant unlocks a level; any paid tier counts as a subscription
+ */
+export const canAccessLevel = (level: AccessLevel, grant: SubscriptionGrant): boolean => {
+  if (level === FREE_ACCESS) return true;
+  if (level === SUBSCRIBER_ACCESS) return grant.isSubscribed || grant.tiers.length > 0;
+  return grant.tiers.includes(level);
+};
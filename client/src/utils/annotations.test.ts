@@ -0,0 +1,17 @@
+import { createQuoteSelector, findQuote } from './annotations';
+
+const lesson = 'Стоп ставим за уровень. Тейк — у следующего уровня. Стоп переносим в безубыток после первой цели.';
+
+test('finds the right occurrence by its context', () => {
+  const start = lesson.lastIndexOf('Стоп');
+  const selector = createQuoteSelector(lesson, start, start + 'Стоп'.length);
+  expect(findQuote(lesson, selector)).toEqual({ start, end: start + 'Стоп'.length });
+});
+
+test('survives edits elsewhere in the lesson and reports a removed quote', () => {
+  const start = lesson.indexOf('в безубыток');
+  const selector = createQuoteSelector(lesson, start, start + 'в безубыток'.length);
+  const edited = `Новое вступление.\n\n${lesson.replace('Тейк', 'Тейк-профит')}`;
+  expect(findQuote(edited, selector)?.start).toBe(edited.indexOf('в безубыток'));
+  expect(findQuote(edited.replace('в безубыток', 'на вход'), selector)).toBeNull();
+});
@@ -0,0 +1,94 @@
+/**
+ * Highlights and notes on lesson text. Each one is anchored by a text-quote selector
+ * (the quoted text plus a little context on both sides), so it finds its place again
+ * after the lesson is re-uploaded with edits elsewhere.
+ */
+
+export const HIGHLIGHT_COLORS = ['yellow', 'green', 'blue', 'pink'] as const;
+
+export type HighlightColor = typeof HIGHLIGHT_COLORS[number];
+
+export interface TextQuoteSelector {
+  exact: string;
+  prefix: string;
+  suffix: string;
+}
+
+export interface Annotation {
+  id: string;
+  lessonPath: string;
+  selector: TextQuoteSelector;
+  color: HighlightColor;
+  note: string;
+  createdAt: number;
+  updatedAt: number;
+  /** Deleted annotations are kept so the deletion syncs */
+  deletedAt?: number;
+}
+
+export interface TextPosition {
+  start: number;
+  end: number;
+}
+
+const CONTEXT_LENGTH = 32;
+
+/**
+ * Selector for text[start, end)
+ */
+export const createQuoteSelector = (text: string, start: number, end: number): TextQuoteSelector => ({
+  exact: text.slice(start, end),
+  prefix: text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+  suffix: text.slice(end, end + CONTEXT_LENGTH)
+});
+
+const commonSuffixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) length++;
+  return length;
+};
+
+const commonPrefixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+};
+
+/**
+ * Where the quoted text is now: of all occurrences of `exact`, the one whose
+ * surroundings best match the stored prefix and suffix. null when the quote is gone.
+ */
+export const findQuote = (text: string, selector: TextQuoteSelector): TextPosition | null => {
+  if (!selector.exact) return null;
+
+  let best: TextPosition | null = null;
+  let bestScore = -1;
+  for (let index = text.indexOf(selector.exact); index !== -1; index = text.indexOf(selector.exact, index + 1)) {
+    const end = index + selector.exact.length;
+    const score = commonSuffixLength(text.slice(Math.max(0, index - selector.prefix.length), index), selector.prefix) +
+      commonPrefixLength(text.slice(end, end + selector.suffix.length), selector.suffix);
+    if (score > bestScore) {
+      best = { start: index, end };
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * Keep the most recently updated copy of each annotation (e.g. local vs. server)
+ */
+export const mergeAnnotations = (...sources: Annotation[][]): Record<string, Annotation> => {
+  const merged: Record<string, Annotation> = {};
+  sources.flat().forEach(annotation => {
+    const current = merged[annotation.id];
+    if (!current || annotation.updatedAt > current.updatedAt) merged[annotation.id] = annotation;
+  });
+  return merged;
+};
+
+/**
+ * Quote as it is copied to the clipboard
+ */
+export const formatQuote = (exact: string, lessonTitle: string): string =>
+  `«${exact.replace(/\s+/g, ' ').trim()}»\n— ${lessonTitle}`;
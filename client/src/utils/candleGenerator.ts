@@ -0,0 +1,78 @@
+import { Candle } from './ohlc';
+
+/**
+ * Deterministic synthetic candles for practice: the same seed always gives the same
+ * series, so a scenario looks identical for every student.
+ */
+
+export interface MarketSegment {
+  bars: number;
+  /** Average close-to-close change per bar, e.g. 0.002 for +0.2% */
+  drift: number;
+  /** Standard deviation of the per-bar change */
+  volatility: number;
+}
+
+export interface GeneratorOptions {
+  seed: number;
+  segments: MarketSegment[];
+  startPrice?: number;
+  /** ISO date of the first bar; bars are one day apart */
+  startDate?: string;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Small seeded PRNG (mulberry32), returns values in [0, 1)
+ */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal sample (Box–Muller)
+const createGaussian = (random: () => number) => () => {
+  const u = Math.max(random(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+const roundPrice = (value: number) => Math.round(value * 100) / 100;
+
+export const generateCandles = ({
+  seed,
+  segments,
+  startPrice = 100,
+  startDate = '2024-01-01'
+}: GeneratorOptions): Candle[] => {
+  const random = createRandom(seed);
+  const gaussian = createGaussian(random);
+  const start = Date.parse(`${startDate}T00:00:00Z`);
+  const candles: Candle[] = [];
+  let close = startPrice;
+
+  segments.forEach(segment => {
+    for (let bar = 0; bar < segment.bars; bar++) {
+      const open = close * (1 + gaussian() * segment.volatility * 0.1);
+      close = Math.max(open * (1 + segment.drift + gaussian() * segment.volatility), 0.01);
+      const high = Math.max(open, close) * (1 + Math.abs(gaussian()) * segment.volatility * 0.5);
+      const low = Math.min(open, close) * (1 - Math.abs(gaussian()) * segment.volatility * 0.5);
+      candles.push({
+        time: new Date(start + candles.length * DAY).toISOString().slice(0, 10),
+        open: roundPrice(open),
+        high: roundPrice(high),
+        low: roundPrice(low),
+        close: roundPrice(close),
+        volume: Math.round(1000 * (1 + Math.abs(gaussian())) * (1 + Math.abs(close - open) / (open * segment.volatility)))
+      });
+    }
+  });
+
+  return candles;
+};
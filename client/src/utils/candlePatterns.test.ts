@@ -0,0 +1,16 @@
+import { buildPatternSnippet, CANDLE_PATTERNS, detectPatterns } from './candlePatterns';
+
+test('every built snippet ends in the pattern it was built for', () => {
+  CANDLE_PATTERNS.forEach(pattern => {
+    [1, 2, 3].forEach(seed => {
+      const snippet = buildPatternSnippet(pattern.id, seed);
+      expect(detectPatterns(snippet, snippet.length - 1)).toContain(pattern.id);
+    });
+  });
+});
+
+test('does not see a pattern without its trend', () => {
+  const flat = Array.from({ length: 6 }, (_, index) => ({ time: String(index), open: 100, high: 101, low: 99, close: 100.5 }));
+  const hammer = { time: '6', open: 99.7, high: 100.13, low: 98.6, close: 100.1 };
+  expect(detectPatterns([...flat, hammer], 6)).not.toContain('hammer');
+});
@@ -0,0 +1,137 @@
+import { generateCandles } from './candleGenerator';
+import { Candle } from './ohlc';
+
+/**
+ * Candlestick patterns for recognition drills: detectors that find them in any series,
+ * and a builder for practice snippets (a trend followed by the pattern).
+ */
+
+export type CandlePatternId =
+  | 'hammer'
+  | 'shooting-star'
+  | 'bullish-engulfing'
+  | 'bearish-engulfing'
+  | 'doji'
+  | 'morning-star'
+  | 'evening-star'
+  | 'harami';
+
+export interface CandlePattern {
+  id: CandlePatternId;
+  name: string;
+  /** Candles that make up the pattern */
+  bars: number;
+  /** Trend the pattern reverses; null when it does not need one */
+  after: 'down' | 'up' | null;
+  /** Matches lesson names about the pattern */
+  lessonKeywords: RegExp;
+}
+
+export const CANDLE_PATTERNS: CandlePattern[] = [
+  { id: 'hammer', name: 'Молот', bars: 1, after: 'down', lessonKeywords: /молот|hammer/i },
+  { id: 'shooting-star', name: 'Падающая звезда', bars: 1, after: 'up', lessonKeywords: /падающ|shooting/i },
+  { id: 'bullish-engulfing', name: 'Бычье поглощение', bars: 2, after: 'down', lessonKeywords: /поглощ|engulf/i },
+  { id: 'bearish-engulfing', name: 'Медвежье поглощение', bars: 2, after: 'up', lessonKeywords: /поглощ|engulf/i },
+  { id: 'doji', name: 'Доджи', bars: 1, after: null, lessonKeywords: /додж|doji/i },
+  { id: 'morning-star', name: 'Утренняя звезда', bars: 3, after: 'down', lessonKeywords: /утрен|morning/i },
+  { id: 'evening-star', name: 'Вечерняя звезда', bars: 3, after: 'up', lessonKeywords: /вечер|evening/i },
+  { id: 'harami', name: 'Харами', bars: 2, after: 'down', lessonKeywords: /харами|harami/i }
+];
+
+const CONTEXT_BARS = 20;
+const TREND_LOOKBACK = 5;
+const BUILD_ATTEMPTS = 10;
+
+export const getPattern = (id: CandlePatternId): CandlePattern =>
+  CANDLE_PATTERNS.find(pattern => pattern.id === id) as CandlePattern;
+
+const body = (candle: Candle) => Math.abs(candle.close - candle.open);
+const range = (candle: Candle) => candle.high - candle.low;
+const upperShadow = (candle: Candle) => candle.high - Math.max(candle.open, candle.close);
+const lowerShadow = (candle: Candle) => Math.min(candle.open, candle.close) - candle.low;
+const isBullish = (candle: Candle) => candle.close > candle.open;
+const isBearish = (candle: Candle) => candle.close < candle.open;
+const isDoji = (candle: Candle) => range(candle) > 0 && body(candle) <= range(candle) * 0.1;
+
+const MATCHERS: Record<CandlePatternId, (bars: Candle[]) => boolean> = {
+  hammer: ([candle]) => !isDoji(candle) && lowerShadow(candle) >= body(candle) * 2 && upperShadow(candle) <= body(candle) * 0.3,
+  'shooting-star': ([candle]) => !isDoji(candle) && upperShadow(candle) >= body(candle) * 2 && lowerShadow(candle) <= body(candle) * 0.3,
+  doji: ([candle]) => isDoji(candle),
+  'bullish-engulfing': ([first, second]) => isBearish(first) && isBullish(second) &&
+    second.open <= first.close && second.close >= first.open && body(second) > body(first),
+  'bearish-engulfing': ([first, second]) => isBullish(first) && isBearish(second) &&
+    second.open >= first.close && second.close <= first.open && body(second) > body(first),
+  harami: ([first, second]) => isBearish(first) && isBullish(second) && body(first) >= range(first) * 0.5 &&
+    second.open >= first.close && second.close <= first.open && body(second) <= body(first) * 0.6,
+  'morning-star': ([first, second, third]) => isBearish(first) && body(first) >= range(first) * 0.5 &&
+    body(second) <= body(first) * 0.3 && Math.max(second.open, second.close) <= first.close &&
+    isBullish(third) && third.close >= (first.open + first.close) / 2,
+  'evening-star': ([first, second, third]) => isBullish(first) && body(first) >= range(first) * 0.5 &&
+    body(second) <= body(first) * 0.3 && Math.min(second.open, second.close) >= first.close &&
+    isBearish(third) && third.close <= (first.open + first.close) / 2
+};
+
+const hasTrend = (candles: Candle[], end: number, trend: 'down' | 'up') => {
+  const start = end - TREND_LOOKBACK;
+  if (start < 0) return false;
+  return trend === 'down' ? candles[end].close < candles[start].close : candles[end].close > candles[start].close;
+};
+
+/**
+ * Patterns completed by the candle at `index`, longest patterns first
+ */
+export const detectPatterns = (candles: Candle[], index: number): CandlePatternId[] =>
+  [...CANDLE_PATTERNS]
+    .sort((a, b) => b.bars - a.bars)
+    .filter(pattern => {
+      const first = index - pattern.bars + 1;
+      if (first < 0) return false;
+      if (pattern.after && !hasTrend(candles, first - 1, pattern.after)) return false;
+      return MATCHERS[pattern.id](candles.slice(first, index + 1));
+    })
+    .map(pattern => pattern.id);
+
+// Pattern bars as [open, close, high, low] offsets from the last close, in units of 1% of the price
+const SHAPES: Record<CandlePatternId, Array<[number, number, number, number]>> = {
+  hammer: [[-0.3, 0.1, 0.13, -1.4]],
+  'shooting-star': [[0.3, -0.1, 1.4, -0.13]],
+  doji: [[0, 0.02, 1.2, -1.2]],
+  'bullish-engulfing': [[0, -1, 0.2, -1.2], [-1.2, 0.4, 0.5, -1.4]],
+  'bearish-engulfing': [[0, 1, 1.2, -0.2], [1.2, -0.4, 1.4, -0.5]],
+  harami: [[0, -2, 0.2, -2.2], [-1.5, -0.8, -0.6, -1.7]],
+  'morning-star': [[0, -2, 0.2, -2.2], [-2.3, -2.2, -2.05, -2.5], [-2.1, -0.7, -0.5, -2.2]],
+  'evening-star': [[0, 2, 2.2, -0.2], [2.3, 2.2, 2.5, 2.05], [2.1, 0.7, 2.2, 0.5]]
+};
+
+const roundPrice = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * A trend of context candles ending in the pattern. Deterministic for a seed.
+ */
+export const buildPatternSnippet = (id: CandlePatternId, seed: number): Candle[] => {
+  const pattern = getPattern(id);
+  let snippet: Candle[] = [];
+
+  for (let attempt = 0; attempt < BUILD_ATTEMPTS; attempt++) {
+    const drift = pattern.after === 'down' ? -0.006 : pattern.after === 'up' ? 0.006 : 0;
+    const context = generateCandles({
+      seed: seed + attempt * 7919,
+      segments: [{ bars: CONTEXT_BARS, drift, volatility: 0.006 }],
+      startPrice: 50 + (seed % 200)
+    });
+    const last = context[context.length - 1];
+    const unit = last.close * 0.01;
+    const bars = SHAPES[id].map(([open, close, high, low], index) => ({
+      time: String(context.length + index + 1),
+      open: roundPrice(last.close + open * unit),
+      close: roundPrice(last.close + close * unit),
+      high: roundPrice(last.close + high * unit),
+      low: roundPrice(last.close + low * unit),
+      volume: Math.round((context[context.length - 1].volume || 1000) * (1.2 + index * 0.2))
+    }));
+
+    snippet = [...context, ...bars];
+    if (detectPatterns(snippet, snippet.length - 1).includes(id)) return snippet;
+  }
+  return snippet;
+};
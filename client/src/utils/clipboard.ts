@@ -0,0 +1,16 @@
+/**
+ * Copy text, falling back to a hidden textarea where the Clipboard API is unavailable
+ * (older Telegram webviews)
+ */
+export const copyText = async (text: string): Promise<void> => {
+  if (navigator.clipboard?.writeText) {
+    await navigator.clipboard.writeText(text);
+    return;
+  }
+  const textArea = document.createElement('textarea');
+  textArea.value = text;
+  document.body.appendChild(textArea);
+  textArea.select();
+  document.execCommand('copy');
+  document.body.removeChild(textArea);
+};
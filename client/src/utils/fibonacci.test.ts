@@ -0,0 +1,17 @@
+import { calculateFibLevels, parseFibDefaults } from './fibonacci';
+
+test('reads presets from the block body', () => {
+  expect(parseFibDefaults('high: 2 790\nlow: 2650,5\ntrend: вниз')).toEqual({ high: 2790, low: 2650.5, direction: 'down' });
+});
+
+test('measures levels against the direction of the swing', () => {
+  const up = calculateFibLevels({ high: 200, low: 100, direction: 'up' });
+  expect(up.find(level => level.ratio === 0.618)?.price).toBeCloseTo(138.2);
+  expect(up.find(level => level.ratio === 1.618)?.price).toBeCloseTo(261.8);
+
+  const down = calculateFibLevels({ high: 200, low: 100, direction: 'down' });
+  expect(down.find(level => level.ratio === 0.5)?.price).toBe(150);
+  expect(down.find(level => level.ratio === 1.272)?.price).toBeCloseTo(72.8);
+
+  expect(calculateFibLevels({ high: 100, low: 200, direction: 'up' })).toEqual([]);
+});
@@ -0,0 +1,86 @@
+import { parseNumber } from './numberInput';
+
+/**
+ * Fibonacci retracement and extension levels for a swing, as in the "Уровни Фибоначчи" lesson.
+ * Lesson presets come from a ```fib block, one `key: value` per line:
+ *
+ *   ```fib
+ *   high: 2790
+ *   low: 2650
+ *   direction: up
+ *   ```
+ *
+ * `up` is a move from the low to the high: retracements are measured down from the
+ * high and extensions project above it. `down` mirrors that.
+ */
+
+export type FibDirection = 'up' | 'down';
+
+export interface FibInputs {
+  high: number;
+  low: number;
+  direction: FibDirection;
+}
+
+export interface FibLevel {
+  ratio: number;
+  price: number;
+  kind: 'retracement' | 'extension';
+}
+
+export const RETRACEMENT_RATIOS = [0.236, 0.382, 0.5, 0.618, 0.786];
+export const EXTENSION_RATIOS = [1.272, 1.618, 2, 2.618];
+
+const DIRECTION_ALIASES: Record<string, FibDirection> = {
+  up: 'up',
+  long: 'up',
+  'вверх': 'up',
+  down: 'down',
+  short: 'down',
+  'вниз': 'down'
+};
+
+export const parseFibDirection = (value: string): FibDirection | null =>
+  DIRECTION_ALIASES[value.trim().toLowerCase()] || null;
+
+/**
+ * Presets from the body of a ```fib block; unknown keys are ignored
+ */
+export const parseFibDefaults = (source: string): Partial<FibInputs> => {
+  const defaults: Partial<FibInputs> = {};
+  source.split('\n').forEach(line => {
+    const match = line.match(/^\s*([\w-]+)\s*[:=]\s*(.+)$/);
+    if (!match) return;
+    const key = match[1].toLowerCase();
+    if (key === 'high' || key === 'low') {
+      const value = parseNumber(match[2]);
+      if (value !== null) defaults[key] = value;
+    } else if (key === 'direction' || key === 'trend') {
+      const direction = parseFibDirection(match[2]);
+      if (direction) defaults.direction = direction;
+    }
+  });
+  return defaults;
+};
+
+/**
+ * Levels ordered by ratio; empty when the swing is not valid
+ */
+export const calculateFibLevels = ({ high, low, direction }: FibInputs): FibLevel[] => {
+  const range = high - low;
+  if (!(range > 0)) return [];
+
+  const retracements = RETRACEMENT_RATIOS.map(ratio => ({
+    ratio,
+    price: direction === 'up' ? high - range * ratio : low + range * ratio,
+    kind: 'retracement' as const
+  }));
+  const extensions = EXTENSION_RATIOS.map(ratio => ({
+    ratio,
+    price: direction === 'up' ? low + range * ratio : high - range * ratio,
+    kind: 'extension' as const
+  }));
+  return [...retracements, ...extensions];
+};
+
+export const formatFibRatio = (ratio: number) => `${Number((ratio * 100).toFixed(1))}%`;
@@ -0,0 +1,54 @@
+import { slugifyHeading } from './headingSlug';
+
+/**
+ * Flashcards written in lesson markdown, either as `Term :: Definition` lines
+ * or one per line inside a ```cards fenced block (same `::` separator).
+ */
+
+export interface Flashcard {
+  /** Stable across edits of the definition: lesson path + term slug */
+  id: string;
+  lessonPath: string;
+  front: string;
+  back: string;
+}
+
+// Spaces around `::` keep code like std::vector from becoming a card
+const CARD_PATTERN = /^(.*?)\s+::\s+(.*)$/;
+const FENCE_PATTERN = /^\s*(```|~~~)\s*([\w-]*)/;
+
+/**
+ * Split a `Term :: Definition` line; null if it is not a card
+ */
+export const parseCardLine = (line: string): { front: string; back: string } | null => {
+  const match = line.match(CARD_PATTERN);
+  if (!match) return null;
+
+  // List markers are allowed in front of a card line
+  const front = match[1].replace(/^\s*([-*+]|\d+\.)\s+/, '').trim();
+  const back = match[2].trim();
+  return front && back ? { front, back } : null;
+};
+
+export const extractFlashcards = (content: string, lessonPath: string): Flashcard[] => {
+  const cards = new Map<string, Flashcard>();
+  let fence: string | null = null;
+
+  content.split('\n').forEach(line => {
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      fence = fence === null ? fenceMatch[2] || 'code' : null;
+      return;
+    }
+    // Inside code only ```cards blocks hold cards
+    if (fence !== null && fence !== 'cards') return;
+
+    const card = parseCardLine(line);
+    if (!card) return;
+
+    const id = `${lessonPath}#${slugifyHeading(card.front)}`;
+    cards.set(id, { id, lessonPath, ...card });
+  });
+
+  return Array.from(cards.values());
+};
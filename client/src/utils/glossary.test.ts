@@ -0,0 +1,23 @@
+import { buildGlossary, createTermMatcher } from './glossary';
+
+const terms = buildGlossary([
+  {
+    path: 'Глоссарий/Стоп-лосс.md',
+    content: '# Стоп-лосс\n\nОрдер, **закрывающий** позицию при движении против [[Риск|риска]]. ^def\n\nВторой абзац',
+    frontmatter: { aliases: ['стоп'] }
+  },
+  { path: 'Глоссарий/FVG.md', content: 'Fair value gap — разрыв справедливой стоимости.', frontmatter: { aliases: 'имбаланс, имбаланса' } },
+  { path: 'Основы/Уровни.md', content: 'Не термин' }
+]);
+
+test('builds terms from the glossary folder with aliases and a plain-text definition', () => {
+  expect(terms.map(term => term.term)).toEqual(['Стоп-лосс', 'FVG']);
+  expect(terms[1].aliases).toEqual(['имбаланс', 'имбаланса']);
+  expect(terms[0].definition).toBe('Ордер, закрывающий позицию при движении против риска.');
+});
+
+test('matches whole words, case-insensitively, longest form first', () => {
+  const match = createTermMatcher(terms);
+  const text = 'Стоп-лосс ставим за fvg, а не за стопами или имбаланса.';
+  expect(match(text).map(item => text.slice(item.index, item.index + item.length))).toEqual(['Стоп-лосс', 'fvg', 'имбаланса']);
+});
@@ -0,0 +1,140 @@
+/**
+ * Glossary of trading terms. Terms are the notes of a glossary folder
+ * (`Глоссарий/Спред.md`); a term matches its note name and any frontmatter `aliases`:
+ *
+ *   ---
+ *   aliases: [спреда, спредом, bid-ask spread]
+ *   ---
+ *   Разница между ценой покупки и продажи...
+ */
+
+export interface GlossaryTerm {
+  /** Path of the term note */
+  path: string;
+  term: string;
+  aliases: string[];
+  /** First paragraph of the note as plain text */
+  definition: string;
+}
+
+export interface GlossaryNote {
+  path: string;
+  content: string;
+  frontmatter?: Record<string, any>;
+}
+
+const GLOSSARY_FOLDER_PATTERN = /^(глоссарий|словарь|термины|glossary)$/i;
+const DEFINITION_LENGTH = 300;
+// Characters that continue a word; a term only matches as a whole word
+const WORD_CHARS = '\\wЀ-ӿ';
+
+export const isGlossaryPath = (path: string): boolean =>
+  path.split('/').slice(0, -1).some(folder => GLOSSARY_FOLDER_PATTERN.test(folder.trim()));
+
+/**
+ * Frontmatter `aliases` (or `alias`) as a list: YAML list or comma separated string
+ */
+export const getFrontmatterAliases = (frontmatter?: Record<string, any>): string[] => {
+  const raw = frontmatter?.aliases ?? frontmatter?.alias;
+  const values: unknown[] = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : [];
+  return Array.from(new Set(
+    values
+      .filter((value): value is string => typeof value === 'string')
+      .map(value => value.trim())
+      .filter(Boolean)
+  ));
+};
+
+const toPlainText = (markdown: string) => markdown
+  .replace(/!\[\[[^\]]*\]\]|!\[[^\]]*\]\([^)]*\)/g, '')
+  .replace(/\[\[([^\]|]+)\|([^\]]+)\]\]/g, '$2')
+  .replace(/\[\[([^\]#|]*)#?([^\]]*)\]\]/g, (match, target, anchor) => target || anchor)
+  .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+  .replace(/(\*\*|__|==|~~|\*|_|`)(.+?)\1/g, '$2')
+  .replace(/\s\^[A-Za-z0-9-]+\s*$/, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+/**
+ * The first paragraph of a note, skipping headings, code, callout markers and comments
+ */
+export const extractDefinition = (content: string): string => {
+  const paragraph: string[] = [];
+  let inFence = false;
+
+  for (const line of content.replace(/%%[\s\S]*?%%/g, '').split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const text = line.replace(/^\s*>\s?/, '').replace(/^\[![\w-]+\][+-]?.*$/, '').trim();
+    const skipped = !text || /^#{1,6}\s/.test(text) || /^(---+|\*\*\*+)$/.test(text);
+    if (skipped) {
+      if (paragraph.length > 0) break;
+      continue;
+    }
+    paragraph.push(text.replace(/^([-*+]|\d+\.)\s+/, ''));
+  }
+
+  const definition = toPlainText(paragraph.join(' '));
+  return definition.length > DEFINITION_LENGTH
+    ? `${definition.slice(0, DEFINITION_LENGTH).replace(/\s+\S*$/, '')}…`
+    : definition;
+};
+
+/**
+ * Glossary terms from the term notes, sorted alphabetically
+ */
+export const buildGlossary = (notes: GlossaryNote[]): GlossaryTerm[] => notes
+  .filter(note => isGlossaryPath(note.path))
+  .map(note => ({
+    path: note.path,
+    term: (note.path.split('/').pop() || note.path).replace(/\.md$/i, ''),
+    aliases: getFrontmatterAliases(note.frontmatter),
+    definition: extractDefinition(note.content)
+  }))
+  .sort((a, b) => a.term.localeCompare(b.term, 'ru'));
+
+const escapeRegExp = (value: string) => value.replace(/[-/\\^$*+?.()|[\]{}]/g, '\\$&');
+
+export interface TermMatch {
+  term: GlossaryTerm;
+  /** Position of the matched text */
+  index: number;
+  length: number;
+}
+
+/**
+ * Finds whole-word, case-insensitive mentions of glossary terms, longer forms first
+ * so "стоп-лосс" wins over "стоп"
+ */
+export const createTermMatcher = (terms: GlossaryTerm[]) => {
+  const forms = new Map<string, GlossaryTerm>();
+  terms.forEach(term => {
+    [term.term, ...term.aliases].forEach(form => {
+      const key = form.toLowerCase();
+      if (form.trim() && !forms.has(key)) forms.set(key, term);
+    });
+  });
+  if (forms.size === 0) return () => [] as TermMatch[];
+
+  const alternatives = Array.from(forms.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  const source = `(^|[^${WORD_CHARS}])(${alternatives.join('|')})(?![${WORD_CHARS}])`;
+
+  return (text: string): TermMatch[] => {
+    const pattern = new RegExp(source, 'gi');
+    const matches: TermMatch[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const term = forms.get(match[2].toLowerCase());
+      if (term) matches.push({ term, index: match.index + match[1].length, length: match[2].length });
+      // The boundary character may start the next match
+      pattern.lastIndex = match.index + match[1].length + match[2].length;
+    }
+    return matches;
+  };
+};
@@ -0,0 +1,129 @@
+/**
+ * Force-directed layout for the knowledge graph (Fruchterman–Reingold).
+ * Deterministic: the same lessons and links always produce the same picture.
+ */
+
+export interface GraphLayoutNode {
+  id: string;
+  /** Nodes of the same group (top-level folder) are pulled together */
+  group: string;
+}
+
+export interface GraphLayoutEdge {
+  source: string;
+  target: string;
+}
+
+export interface GraphPoint {
+  x: number;
+  y: number;
+}
+
+interface LayoutOptions {
+  size?: number;
+  iterations?: number;
+}
+
+const DEFAULT_SIZE = 1000;
+const DEFAULT_ITERATIONS = 300;
+const GROUP_GRAVITY = 0.02;
+
+// Small string hash, used as a stable pseudo-random source
+const hash = (value: string): number => {
+  let result = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 16777619);
+  }
+  return (result >>> 0) / 4294967295;
+};
+
+/**
+ * Positions inside a size × size square, keyed by node id
+ */
+export const layoutGraph = (
+  nodes: GraphLayoutNode[],
+  edges: GraphLayoutEdge[],
+  { size = DEFAULT_SIZE, iterations = DEFAULT_ITERATIONS }: LayoutOptions = {}
+): Record<string, GraphPoint> => {
+  const positions: Record<string, GraphPoint> = {};
+  if (nodes.length === 0) return positions;
+
+  const center = size / 2;
+  const groups = Array.from(new Set(nodes.map(node => node.group)));
+  const groupCenters: Record<string, GraphPoint> = {};
+  groups.forEach((group, index) => {
+    const angle = (2 * Math.PI * index) / groups.length;
+    const radius = groups.length > 1 ? size * 0.25 : 0;
+    groupCenters[group] = { x: center + radius * Math.cos(angle), y: center + radius * Math.sin(angle) };
+  });
+
+  // Start every node near its group's center
+  nodes.forEach(node => {
+    const angle = 2 * Math.PI * hash(node.id);
+    const distance = size * 0.1 * hash(`${node.id}:r`);
+    const groupCenter = groupCenters[node.group];
+    positions[node.id] = { x: groupCenter.x + distance * Math.cos(angle), y: groupCenter.y + distance * Math.sin(angle) };
+  });
+
+  const ids = nodes.map(node => node.id);
+  const links = edges.filter(edge => positions[edge.source] && positions[edge.target]);
+  const k = Math.sqrt((size * size) / nodes.length) * 0.4;
+  const margin = size * 0.05;
+  let temperature = size / 10;
+  const cooling = temperature / (iterations + 1);
+
+  for (let step = 0; step < iterations; step++) {
+    const displacement: Record<string, GraphPoint> = {};
+    ids.forEach(id => {
+      displacement[id] = { x: 0, y: 0 };
+    });
+
+    // Every pair repels
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const a = positions[ids[i]];
+        const b = positions[ids[j]];
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y || 0.01;
+        const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+        const force = (k * k) / distance;
+        displacement[ids[i]].x += (dx / distance) * force;
+        displacement[ids[i]].y += (dy / distance) * force;
+        displacement[ids[j]].x -= (dx / distance) * force;
+        displacement[ids[j]].y -= (dy / distance) * force;
+      }
+    }
+
+    // Linked lessons attract
+    links.forEach(edge => {
+      const a = positions[edge.source];
+      const b = positions[edge.target];
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+      const force = (distance * distance) / k;
+      displacement[edge.source].x -= (dx / distance) * force;
+      displacement[edge.source].y -= (dy / distance) * force;
+      displacement[edge.target].x += (dx / distance) * force;
+      displacement[edge.target].y += (dy / distance) * force;
+    });
+
+    for (const node of nodes) {
+      const position = positions[node.id];
+      const groupCenter = groupCenters[node.group];
+      const move = displacement[node.id];
+      move.x += (groupCenter.x - position.x) * GROUP_GRAVITY * k;
+      move.y += (groupCenter.y - position.y) * GROUP_GRAVITY * k;
+
+      const length = Math.max(Math.sqrt(move.x * move.x + move.y * move.y), 0.01);
+      const limited = Math.min(length, temperature);
+      position.x = Math.min(size - margin, Math.max(margin, position.x + (move.x / length) * limited));
+      position.y = Math.min(size - margin, Math.max(margin, position.y + (move.y / length) * limited));
+    }
+
+    temperature -= cooling;
+  }
+
+  return positions;
+};
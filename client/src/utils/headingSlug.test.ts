@@ -0,0 +1,15 @@
+import { createHeadingSlugger, slugifyHeading } from './headingSlug';
+
+test('slugifies Cyrillic and Latin headings', () => {
+  expect(slugifyHeading('Урок 9. Уровни Фибоначчи!')).toBe('урок-9-уровни-фибоначчи');
+  expect(slugifyHeading('  Risk / Reward  ')).toBe('risk-reward');
+  expect(slugifyHeading('🎓')).toBe('section');
+});
+
+test('keeps repeated headings unique within a document', () => {
+  const slug = createHeadingSlugger();
+
+  expect(slug('Пример')).toBe('пример');
+  expect(slug('Пример')).toBe('пример-1');
+  expect(slug('Итоги')).toBe('итоги');
+});
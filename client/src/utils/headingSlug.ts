@@ -0,0 +1,26 @@
+/**
+ * Stable, URL-safe ids for lesson headings (Latin and Cyrillic aware)
+ */
+export const slugifyHeading = (text: string): string => {
+  return text
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9Ѐ-ӿ\s_-]/g, '')
+    .replace(/[\s_]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '') || 'section';
+};
+
+/**
+ * Slug generator for one document: repeated headings get -1, -2... suffixes
+ */
+export const createHeadingSlugger = () => {
+  const seen = new Map<string, number>();
+
+  return (text: string): string => {
+    const base = slugifyHeading(text);
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count}`;
+  };
+};
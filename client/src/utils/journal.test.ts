@@ -0,0 +1,46 @@
+import { breakdownByConcept, JournalEntry, journalToCsv, mergeJournalEntries, summarizeJournal } from './journal';
+
+const entry = (id: string, overrides: Partial<JournalEntry>): JournalEntry => ({
+  id,
+  instrument: 'XAUUSD',
+  side: 'long',
+  date: '2024-03-01',
+  entryPrice: 100,
+  size: 1,
+  screenshots: [],
+  emotions: [],
+  notes: '',
+  lessonPaths: [],
+  createdAt: 1,
+  updatedAt: 1,
+  ...overrides
+});
+
+const entries = [
+  entry('a', { exitPrice: 110, stop: 95, lessonPaths: ['Уровни.md'] }),
+  entry('b', { side: 'short', exitPrice: 105, stop: 105, lessonPaths: ['Уровни.md', 'Свечи.md'] }),
+  entry('c', { exitPrice: 104, size: 2 }),
+  entry('d', {}),
+  entry('e', { exitPrice: 200, deletedAt: 5 })
+];
+
+test('computes win rate, expectancy and average R over closed trades', () => {
+  expect(summarizeJournal(entries)).toMatchObject({
+    trades: 3, wins: 2, losses: 1, totalPnl: 13, expectancy: 13 / 3, averageR: 0.5
+  });
+  expect(breakdownByConcept(entries)).toEqual([
+    expect.objectContaining({ lessonPath: 'Уровни.md', trades: 2, winRate: 0.5 }),
+    expect.objectContaining({ lessonPath: 'Свечи.md', trades: 1, wins: 0 })
+  ]);
+});
+
+test('merges copies by update time and exports CSV', () => {
+  expect(mergeJournalEntries([entry('a', { notes: 'old' })], [entry('a', { notes: 'new', updatedAt: 2 })]).a.notes).toBe('new');
+
+  const csv = journalToCsv([entry('a', { exitPrice: 110, stop: 95, notes: 'вход, "по плану"' })], path => path);
+  expect(csv.split('\n')[1]).toBe('2024-03-01,XAUUSD,long,100,110,95,1,10,2,,,"вход, ""по плану"""');
+
+  const risky = journalToCsv([entry('b', { exitPrice: 90, notes: '=HYPERLINK("x")\r\nвторая строка' })], path => path);
+  expect(risky).toContain(',-10,');
+  expect(risky).toContain('"\'=HYPERLINK(""x"")\r\nвторая строка"');
+});
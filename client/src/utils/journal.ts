@@ -0,0 +1,151 @@
+import { TradeSide } from './replay';
+
+/**
+ * Trading journal: the student's own trades, tagged with the lessons they applied
+ */
+
+export interface JournalEntry {
+  id: string;
+  instrument: string;
+  side: TradeSide;
+  /** ISO date of the trade */
+  date: string;
+  entryPrice: number;
+  /** Missing while the trade is still open */
+  exitPrice?: number;
+  stop?: number;
+  size: number;
+  screenshots: string[];
+  emotions: string[];
+  notes: string;
+  /** Lesson paths of the concepts the trade applied */
+  lessonPaths: string[];
+  createdAt: number;
+  updatedAt: number;
+  /** Set instead of removing the entry, so deletions sync like edits */
+  deletedAt?: number;
+}
+
+export interface TradeResult {
+  pnl: number;
+  /** Null without a stop to measure the risk */
+  rMultiple: number | null;
+}
+
+export interface JournalStats {
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  totalPnl: number;
+  /** Average P&L per closed trade */
+  expectancy: number;
+  averageWin: number;
+  averageLoss: number;
+  /** Over trades with a stop only */
+  averageR: number | null;
+}
+
+export interface ConceptStats extends JournalStats {
+  lessonPath: string;
+}
+
+export const JOURNAL_EMOTIONS = [
+  'Спокойствие', 'Уверенность', 'Страх', 'Жадность', 'FOMO', 'Нетерпение', 'Азарт', 'Раздражение'
+];
+
+export const isClosedTrade = (entry: JournalEntry): entry is JournalEntry & { exitPrice: number } =>
+  entry.exitPrice !== undefined && !entry.deletedAt;
+
+export const getTradeResult = (entry: JournalEntry & { exitPrice: number }): TradeResult => {
+  const move = (entry.exitPrice - entry.entryPrice) * (entry.side === 'long' ? 1 : -1);
+  const risk = entry.stop !== undefined ? Math.abs(entry.entryPrice - entry.stop) : 0;
+  return {
+    pnl: move * entry.size,
+    rMultiple: risk > 0 ? move / risk : null
+  };
+};
+
+/**
+ * Win rate, expectancy and average R over the closed trades
+ */
+export const summarizeJournal = (entries: JournalEntry[]): JournalStats => {
+  const results = entries.filter(isClosedTrade).map(getTradeResult);
+  const wins = results.filter(result => result.pnl > 0);
+  const losses = results.filter(result => result.pnl < 0);
+  const withR = results.filter(result => result.rMultiple !== null);
+  const totalPnl = results.reduce((sum, result) => sum + result.pnl, 0);
+  const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+  return {
+    trades: results.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: results.length > 0 ? wins.length / results.length : 0,
+    totalPnl,
+    expectancy: results.length > 0 ? totalPnl / results.length : 0,
+    averageWin: average(wins.map(result => result.pnl)),
+    averageLoss: average(losses.map(result => result.pnl)),
+    averageR: withR.length > 0 ? average(withR.map(result => result.rMultiple as number)) : null
+  };
+};
+
+/**
+ * Stats per tagged lesson, most traded first
+ */
+export const breakdownByConcept = (entries: JournalEntry[]): ConceptStats[] => {
+  const byLesson = new Map<string, JournalEntry[]>();
+  entries.filter(isClosedTrade).forEach(entry => {
+    entry.lessonPaths.forEach(path => byLesson.set(path, [...(byLesson.get(path) || []), entry]));
+  });
+  return Array.from(byLesson.entries())
+    .map(([lessonPath, lessonEntries]) => ({ lessonPath, ...summarizeJournal(lessonEntries) }))
+    .sort((a, b) => b.trades - a.trades || a.lessonPath.localeCompare(b.lessonPath));
+};
+
+/**
+ * Keep the most recently updated copy of each entry (e.g. local vs. server)
+ */
+export const mergeJournalEntries = (...sources: JournalEntry[][]): Record<string, JournalEntry> => {
+  const merged: Record<string, JournalEntry> = {};
+  sources.flat().forEach(entry => {
+    const current = merged[entry.id];
+    if (!current || entry.updatedAt > current.updatedAt) merged[entry.id] = entry;
+  });
+  return merged;
+};
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t]/;
+
+const escapeCsv = (value: string | number | undefined) => {
+  if (value === undefined) return '';
+  // Numbers (a negative P&L) stay numeric; user text is neutralised with a leading quote
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV with one row per trade; lessons are given by name
+ */
+export const journalToCsv = (entries: JournalEntry[], getLessonName: (path: string) => string): string => {
+  const header = ['date', 'instrument', 'side', 'entry', 'exit', 'stop', 'size', 'pnl', 'r', 'emotions', 'lessons', 'notes'];
+  const rows = entries.filter(entry => !entry.deletedAt).map(entry => {
+    const result = isClosedTrade(entry) ? getTradeResult(entry) : null;
+    return [
+      entry.date,
+      entry.instrument,
+      entry.side,
+      entry.entryPrice,
+      entry.exitPrice,
+      entry.stop,
+      entry.size,
+      result ? Number(result.pnl.toFixed(4)) : undefined,
+      result?.rMultiple !== null && result?.rMultiple !== undefined ? Number(result.rMultiple.toFixed(2)) : undefined,
+      entry.emotions.join('; '),
+      entry.lessonPaths.map(getLessonName).join('; '),
+      entry.notes
+    ].map(escapeCsv).join(',');
+  });
+  return [header.join(','), ...rows].join('\n');
+};
@@ -0,0 +1,23 @@
+import { buildLessonExcerpt } from './lessonPreview';
+
+const content = [
+  '# Урок 1',
+  'Первый абзац.',
+  '![[chart.png]]',
+  '```\n# не заголовок\n\nкод\n```',
+  'Второй абзац.',
+  '## Уровни',
+  'Третий абзац.',
+].join('\n\n');
+
+test('keeps the first paragraphs and lists every heading', () => {
+  const { excerpt, headings, truncated } = buildLessonExcerpt(content, 2);
+
+  expect(excerpt).toContain('Второй абзац.');
+  expect(excerpt).not.toContain('Третий абзац.');
+  expect(truncated).toBe(true);
+  expect(headings).toEqual([
+    { level: 1, text: 'Урок 1' },
+    { level: 2, text: 'Уровни' },
+  ]);
+});
@@ -0,0 +1,92 @@
+import { LessonHeading } from '../types';
+
+export interface LessonExcerpt {
+  /** Markdown up to and including the first N paragraphs */
+  excerpt: string;
+  /** Every heading of the full lesson, for the preview table of contents */
+  headings: LessonHeading[];
+  /** Whether anything was cut off */
+  truncated: boolean;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/**
+ * Split markdown into blank-line separated blocks, keeping fenced code blocks whole
+ */
+const splitBlocks = (content: string): string[] => {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    if (current.length > 0) {
+      blocks.push(current.join('\n'));
+      current = [];
+    }
+  };
+
+  content.split('\n').forEach(line => {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+    }
+    if (!inFence && !line.trim()) {
+      flush();
+      return;
+    }
+    current.push(line);
+  });
+  flush();
+
+  return blocks;
+};
+
+/**
+ * Extract the markdown headings of a lesson (ignoring code blocks)
+ */
+export const extractHeadings = (content: string): LessonHeading[] => {
+  const headings: LessonHeading[] = [];
+  let inFence = false;
+
+  content.split('\n').forEach(line => {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    const match = !inFence && line.match(HEADING_PATTERN);
+    if (match) {
+      headings.push({ level: match[1].length, text: match[2] });
+    }
+  });
+
+  return headings;
+};
+
+/**
+ * Cut a lesson down to its first paragraphs for the paywall preview.
+ * Headings, images and code before the cut are kept but do not count as paragraphs.
+ */
+export const buildLessonExcerpt = (content: string, paragraphCount: number): LessonExcerpt => {
+  const blocks = splitBlocks(content);
+  const kept: string[] = [];
+  let paragraphs = 0;
+
+  for (const block of blocks) {
+    if (paragraphs >= paragraphCount) break;
+    kept.push(block);
+
+    const firstLine = block.trimStart();
+    const isParagraph = !HEADING_PATTERN.test(firstLine.split('\n')[0]) &&
+      !FENCE_PATTERN.test(firstLine) &&
+      !/^!?\[\[/.test(firstLine) &&
+      !/^!\[/.test(firstLine);
+    if (isParagraph) paragraphs++;
+  }
+
+  return {
+    excerpt: kept.join('\n\n'),
+    headings: extractHeadings(content),
+    truncated: kept.length < blocks.length
+  };
+};
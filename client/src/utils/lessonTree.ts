@@ -0,0 +1,56 @@
+import { AccessLevel, LessonStructure } from '../types';
+import { LessonProgress } from '../services/progressService';
+
+export interface FolderProgress {
+  completed: number;
+  total: number;
+}
+
+/**
+ * Every lesson (file) below the given nodes, depth first
+ */
+export const collectLessons = (items: LessonStructure[]): LessonStructure[] => {
+  const lessons: LessonStructure[] = [];
+  items.forEach(item => {
+    if (item.type === 'file') {
+      lessons.push(item);
+    }
+    if (item.children) {
+      lessons.push(...collectLessons(item.children));
+    }
+  });
+  return lessons;
+};
+
+/**
+ * Paths of the lessons the reader may open, depth first
+ */
+export const getReadableLessonPaths = (
+  items: LessonStructure[],
+  isLessonLocked: (path: string, explicit?: AccessLevel) => boolean
+): string[] => {
+  return collectLessons(items)
+    .filter(lesson => !isLessonLocked(lesson.path, lesson.access))
+    .map(lesson => lesson.path);
+};
+
+/**
+ * A lesson counts as done once the server marks it completed or it was read to the end
+ */
+export const isLessonCompleted = (progress?: LessonProgress): boolean => {
+  return Boolean(progress && (progress.completed || progress.completionScore >= 100));
+};
+
+/**
+ * Completed vs. total lessons in a folder (including nested folders)
+ */
+export const getFolderProgress = (
+  folder: LessonStructure,
+  progress: Record<string, LessonProgress>
+): FolderProgress => {
+  const lessons = collectLessons(folder.children || []);
+  return {
+    completed: lessons.filter(lesson => isLessonCompleted(progress[lesson.path])).length,
+    total: lessons.length
+  };
+};
@@ -0,0 +1,21 @@
+import { buildLinkGraph, getFrontmatterTags, getRelatedLessons } from './linkGraph';
+
+const paths = ['Основы/Уровни.md', 'Основы/Фибоначчи.md', 'Основы/Тренд.md', 'Премиум/Волны.md'];
+
+const graph = buildLinkGraph([
+  { path: 'Основы/Уровни.md', content: 'См. [[Фибоначчи#Откаты|откаты]] и ![[chart.png]]', tags: ['levels'] },
+  { path: 'Основы/Фибоначчи.md', content: '```\n[[Тренд]]\n```\nОснова — [[Основы/Уровни]], дальше ![[Волны]]', tags: ['levels', 'fib'] },
+  { path: 'Основы/Тренд.md', content: 'Без ссылок', tags: ['fib'] }
+], paths);
+
+test('builds links and backlinks from wikilinks and embeds', () => {
+  expect(graph.links['Основы/Уровни.md']).toEqual(['Основы/Фибоначчи.md']);
+  expect(graph.backlinks['Основы/Уровни.md']).toEqual(['Основы/Фибоначчи.md']);
+  expect(graph.backlinks['Премиум/Волны.md']).toEqual(['Основы/Фибоначчи.md']);
+  expect(graph.backlinks['Основы/Тренд.md']).toBeUndefined();
+});
+
+test('ranks related lessons by links and shared tags, skipping backlinks', () => {
+  expect(getRelatedLessons(graph, 'Основы/Фибоначчи.md')).toEqual(['Премиум/Волны.md', 'Основы/Тренд.md']);
+  expect(getFrontmatterTags({ tags: '#levels, fib' })).toEqual(['levels', 'fib']);
+});
@@ -0,0 +1,140 @@
+import { isImageWikilink, parseWikilink } from './wikilink';
+
+/**
+ * Connections between lessons: [[wikilinks]] in their content plus shared frontmatter tags
+ */
+
+export interface LinkGraphNote {
+  path: string;
+  content: string;
+  tags: string[];
+}
+
+export interface LinkGraph {
+  /** Lesson path → lessons it links to */
+  links: Record<string, string[]>;
+  /** Lesson path → lessons linking to it */
+  backlinks: Record<string, string[]>;
+  /** Lesson path → its normalized frontmatter tags */
+  tags: Record<string, string[]>;
+}
+
+const WIKILINK_PATTERN = /!?\[\[([^\]]+)\]\]/g;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+const RELATED_LIMIT = 5;
+const SHARED_TAG_WEIGHT = 2;
+const DIRECT_LINK_WEIGHT = 3;
+const SHARED_NEIGHBOUR_WEIGHT = 1;
+
+const stripExtension = (value: string) => value.replace(/\.md$/i, '').toLowerCase();
+
+/**
+ * Resolve link text to a lesson path the way Obsidian does: full path first, then file name
+ */
+export const createLessonResolver = (paths: string[]) => {
+  const byPath = new Map<string, string>();
+  const byName = new Map<string, string>();
+  paths.forEach(path => {
+    byPath.set(stripExtension(path), path);
+    const name = stripExtension(path.split('/').pop() || path);
+    if (!byName.has(name)) byName.set(name, path);
+  });
+
+  return (target: string): string | null => {
+    const key = stripExtension(target.trim());
+    return byPath.get(key) || byName.get(key.split('/').pop() || key) || null;
+  };
+};
+
+/**
+ * Note names referenced by [[links]] and ![[embeds]], ignoring images and code blocks
+ */
+export const extractWikilinkTargets = (content: string): string[] => {
+  const targets = new Set<string>();
+  let inFence = false;
+
+  content.split('\n').forEach(line => {
+    if (FENCE_PATTERN.test(line)) inFence = !inFence;
+    if (inFence) return;
+
+    for (const match of Array.from(line.matchAll(WIKILINK_PATTERN))) {
+      const link = parseWikilink(match[1]);
+      if (link.target && !isImageWikilink(link)) targets.add(link.target);
+    }
+  });
+
+  return Array.from(targets);
+};
+
+/**
+ * Frontmatter `tags` as a list (YAML list or comma/space separated string), without '#'
+ */
+export const getFrontmatterTags = (frontmatter?: Record<string, any>): string[] => {
+  const raw = frontmatter?.tags ?? frontmatter?.tag;
+  const values: unknown[] = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(/[,\s]+/) : [];
+  return Array.from(new Set(
+    values
+      .filter((value): value is string => typeof value === 'string')
+      .map(value => value.replace(/^#/, '').trim().toLowerCase())
+      .filter(Boolean)
+  ));
+};
+
+/**
+ * Build the graph over the given notes. `allPaths` lists every lesson, including the
+ * ones whose content could not be read, so links into them still resolve.
+ */
+export const buildLinkGraph = (notes: LinkGraphNote[], allPaths: string[]): LinkGraph => {
+  const resolve = createLessonResolver(allPaths);
+  const graph: LinkGraph = { links: {}, backlinks: {}, tags: {} };
+
+  notes.forEach(note => {
+    graph.tags[note.path] = note.tags;
+
+    const linked = new Set<string>();
+    extractWikilinkTargets(note.content).forEach(target => {
+      const path = resolve(target);
+      if (path && path !== note.path) linked.add(path);
+    });
+
+    graph.links[note.path] = Array.from(linked);
+    linked.forEach(path => {
+      (graph.backlinks[path] = graph.backlinks[path] || []).push(note.path);
+    });
+  });
+
+  return graph;
+};
+
+/**
+ * Lessons most connected to the given one, strongest first: shared tags, direct links,
+ * then lessons that link to (or are linked from) the same places.
+ * Lessons already listed as backlinks are left out.
+ */
+export const getRelatedLessons = (graph: LinkGraph, path: string, limit: number = RELATED_LIMIT): string[] => {
+  const scores = new Map<string, number>();
+  const add = (other: string, weight: number) => {
+    if (other !== path) scores.set(other, (scores.get(other) || 0) + weight);
+  };
+
+  const tags = new Set(graph.tags[path] || []);
+  if (tags.size > 0) {
+    Object.entries(graph.tags).forEach(([other, otherTags]) => {
+      add(other, otherTags.filter(tag => tags.has(tag)).length * SHARED_TAG_WEIGHT);
+    });
+  }
+
+  const links = graph.links[path] || [];
+  const backlinks = graph.backlinks[path] || [];
+  links.forEach(other => add(other, DIRECT_LINK_WEIGHT));
+  links.forEach(target => (graph.backlinks[target] || []).forEach(other => add(other, SHARED_NEIGHBOUR_WEIGHT)));
+  backlinks.forEach(source => (graph.links[source] || []).forEach(other => add(other, SHARED_NEIGHBOUR_WEIGHT)));
+
+  const excluded = new Set(backlinks);
+  return Array.from(scores.entries())
+    .filter(([other, score]) => score > 0 && !excluded.has(other))
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([other]) => other);
+};
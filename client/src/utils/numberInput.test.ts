@@ -0,0 +1,9 @@
+import { parseNumber } from './numberInput';
+
+test('parses numbers as people type them', () => {
+  expect(parseNumber('1 000,5')).toBe(1000.5);
+  expect(parseNumber('1%')).toBe(1);
+  expect(parseNumber('$250')).toBe(250);
+  expect(parseNumber(' ')).toBeNull();
+  expect(parseNumber('abc')).toBeNull();
+});
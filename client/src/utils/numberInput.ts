@@ -0,0 +1,9 @@
+/**
+ * Parse a number the way people type it: "1 000,5", "1%" and "$250" all work
+ */
+export const parseNumber = (value: string): number | null => {
+  const normalized = value.replace(/[\s%$€₽]/g, '').replace(',', '.');
+  if (!normalized) return null;
+  const number = Number(normalized);
+  return Number.isFinite(number) ? number : null;
+};
@@ -0,0 +1,37 @@
+import { extractChartDataFiles, movingAverage, parseChartBlock, parseOhlcData } from './ohlc';
+
+test('parses options followed by inline CSV candles', () => {
+  const spec = parseChartBlock([
+    'title: XAUUSD H1',
+    'ema: 9, 21',
+    'level: 2650 Поддержка',
+    'time;open;high;low;close;volume',
+    '2024-03-01;10;12;9;11;100',
+    'broken;row',
+    '2024-03-02;11;11,5;10;10,5;80'
+  ].join('\n'));
+
+  expect(spec).toMatchObject({
+    title: 'XAUUSD H1',
+    overlays: [{ type: 'ema', period: 9 }, { type: 'ema', period: 21 }],
+    levels: [{ price: 2650, label: 'Поддержка' }]
+  });
+  expect(spec.candles).toEqual([
+    { time: '2024-03-01', open: 10, high: 12, low: 9, close: 11, volume: 100 },
+    { time: '2024-03-02', open: 11, high: 11.5, low: 10, close: 10.5, volume: 80 }
+  ]);
+});
+
+test('parses JSON candles and finds referenced data files', () => {
+  expect(parseOhlcData('[{"t":"a","o":1,"h":3,"l":0.5,"c":2}, ["b",2,4,1,3,10]]')).toEqual([
+    { time: 'a', open: 1, high: 3, low: 0.5, close: 2 },
+    { time: 'b', open: 2, high: 4, low: 1, close: 3, volume: 10 }
+  ]);
+  expect(extractChartDataFiles('Текст\n```chart\nsrc: [[eurusd.csv]]\n```\n')).toEqual(['eurusd.csv']);
+});
+
+test('computes simple and exponential moving averages', () => {
+  const candles = [1, 2, 3, 4].map((close, index) => ({ time: String(index), open: close, high: close, low: close, close }));
+  expect(movingAverage(candles, { type: 'sma', period: 2 })).toEqual([null, 1.5, 2.5, 3.5]);
+  expect(movingAverage(candles, { type: 'ema', period: 3 })).toEqual([null, null, 2, 3]);
+});
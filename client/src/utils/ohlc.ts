@@ -0,0 +1,222 @@
+/**
+ * Candlestick data for ```chart blocks. Options come first, one `key: value` per line,
+ * then the candles inline as CSV or JSON (or `src:` naming an uploaded data file):
+ *
+ *   ```chart
+ *   title: XAUUSD H1
+ *   ema: 9, 21
+ *   level: 2650 Поддержка
+ *   time,open,high,low,close,volume
+ *   2024-03-01 10:00,2041.5,2046.2,2039.8,2044.9,1520
+ *   ```
+ */
+
+export interface Candle {
+  time: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+export interface ChartOverlay {
+  type: 'sma' | 'ema';
+  period: number;
+}
+
+export interface ChartLevel {
+  price: number;
+  label?: string;
+}
+
+export interface ChartSpec {
+  title?: string;
+  /** Uploaded data file (served from /api/image/) used instead of inline data */
+  src?: string;
+  overlays: ChartOverlay[];
+  levels: ChartLevel[];
+  candles: Candle[];
+}
+
+const OPTION_PATTERN = /^\s*(title|src|file|ma|sma|ema|level)\s*:\s*(.*)$/i;
+const CHART_BLOCK_PATTERN = /^(```|~~~)chart[ \t]*\n([\s\S]*?)^\1[ \t]*$/gm;
+
+// Accepted column names, CSV header or JSON keys
+const COLUMN_ALIASES: Record<string, keyof Candle> = {
+  time: 'time', date: 'time', datetime: 'time', timestamp: 'time', t: 'time',
+  open: 'open', o: 'open',
+  high: 'high', h: 'high',
+  low: 'low', l: 'low',
+  close: 'close', c: 'close',
+  volume: 'volume', vol: 'volume', v: 'volume'
+};
+const DEFAULT_COLUMNS: Array<keyof Candle> = ['time', 'open', 'high', 'low', 'close', 'volume'];
+
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return NaN;
+  return Number(value.trim().replace(',', '.'));
+};
+
+const toCandle = (values: Partial<Record<keyof Candle, unknown>>, index: number): Candle | null => {
+  const candle: Candle = {
+    time: values.time === undefined || values.time === '' ? String(index + 1) : String(values.time).trim(),
+    open: toNumber(values.open),
+    high: toNumber(values.high),
+    low: toNumber(values.low),
+    close: toNumber(values.close)
+  };
+  if (![candle.open, candle.high, candle.low, candle.close].every(Number.isFinite)) return null;
+
+  const volume = toNumber(values.volume);
+  if (Number.isFinite(volume)) candle.volume = volume;
+  // Tolerate data where high/low do not cover the body
+  candle.high = Math.max(candle.high, candle.open, candle.close);
+  candle.low = Math.min(candle.low, candle.open, candle.close);
+  return candle;
+};
+
+const parseJsonCandles = (text: string): Candle[] => {
+  const data = JSON.parse(text);
+  const rows: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.candles) ? data.candles : [];
+
+  return rows
+    .map((row, index) => {
+      if (Array.isArray(row)) {
+        const values: Partial<Record<keyof Candle, unknown>> = {};
+        DEFAULT_COLUMNS.forEach((column, position) => {
+          values[column] = row[position];
+        });
+        return toCandle(values, index);
+      }
+      if (row && typeof row === 'object') {
+        const values: Partial<Record<keyof Candle, unknown>> = {};
+        Object.entries(row as Record<string, unknown>).forEach(([key, value]) => {
+          const column = COLUMN_ALIASES[key.toLowerCase()];
+          if (column) values[column] = value;
+        });
+        return toCandle(values, index);
+      }
+      return null;
+    })
+    .filter((candle): candle is Candle => candle !== null);
+};
+
+const parseCsvCandles = (text: string): Candle[] => {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  if (lines.length === 0) return [];
+
+  const separator = lines[0].includes('\t') ? '\t' : lines[0].includes(';') ? ';' : ',';
+  const header = lines[0].split(separator).map(cell => COLUMN_ALIASES[cell.trim().toLowerCase()]);
+  const hasHeader = header.some(Boolean);
+  const columns = hasHeader ? header : DEFAULT_COLUMNS;
+
+  return (hasHeader ? lines.slice(1) : lines)
+    .map((line, index) => {
+      const values: Partial<Record<keyof Candle, unknown>> = {};
+      line.split(separator).forEach((cell, position) => {
+        const column = columns[position];
+        if (column) values[column] = cell;
+      });
+      return toCandle(values, index);
+    })
+    .filter((candle): candle is Candle => candle !== null);
+};
+
+/**
+ * Candles from CSV (with or without a header, `,` `;` or tab separated) or JSON
+ * (an array of objects or of [time, o, h, l, c, v] rows). Invalid rows are skipped.
+ */
+export const parseOhlcData = (text: string): Candle[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    try {
+      return parseJsonCandles(trimmed);
+    } catch {
+      return [];
+    }
+  }
+  return parseCsvCandles(trimmed);
+};
+
+const parsePeriods = (value: string): number[] =>
+  value.split(/[,\s]+/).map(Number).filter(period => Number.isInteger(period) && period > 1);
+
+/**
+ * Split a ```chart block into its options and inline candles
+ */
+export const parseChartBlock = (source: string): ChartSpec => {
+  const spec: ChartSpec = { overlays: [], levels: [], candles: [] };
+  const lines = source.split('\n');
+  let dataStart = 0;
+
+  for (; dataStart < lines.length; dataStart++) {
+    const line = lines[dataStart];
+    if (!line.trim()) continue;
+    const match = line.match(OPTION_PATTERN);
+    if (!match) break;
+
+    const key = match[1].toLowerCase();
+    const value = match[2].trim();
+    if (key === 'title') {
+      spec.title = value;
+    } else if (key === 'src' || key === 'file') {
+      spec.src = value.replace(/^!?\[\[|\]\]$/g, '');
+    } else if (key === 'level') {
+      const [price, ...label] = value.split(/\s+/);
+      const level = toNumber(price);
+      if (Number.isFinite(level)) spec.levels.push({ price: level, label: label.join(' ') || undefined });
+    } else {
+      const type = key === 'ema' ? 'ema' : 'sma';
+      parsePeriods(value).forEach(period => spec.overlays.push({ type, period }));
+    }
+  }
+
+  spec.candles = parseOhlcData(lines.slice(dataStart).join('\n'));
+  return spec;
+};
+
+/**
+ * Data files referenced by a lesson's ```chart blocks, so they can be cached with it
+ */
+export const extractChartDataFiles = (content: string): string[] => {
+  const files = new Set<string>();
+  let match: RegExpExecArray | null;
+  CHART_BLOCK_PATTERN.lastIndex = 0;
+  while ((match = CHART_BLOCK_PATTERN.exec(content)) !== null) {
+    const { src } = parseChartBlock(match[2]);
+    if (src) files.add(src);
+  }
+  return Array.from(files);
+};
+
+/**
+ * Moving average of closes, null until the period is filled.
+ * EMA starts from the SMA of the first `period` closes.
+ */
+export const movingAverage = (candles: Candle[], { type, period }: ChartOverlay): Array<number | null> => {
+  const result: Array<number | null> = [];
+  const multiplier = 2 / (period + 1);
+  let sum = 0;
+  let previous: number | null = null;
+
+  candles.forEach((candle, index) => {
+    sum += candle.close;
+    if (index >= period) sum -= candles[index - period].close;
+    if (index < period - 1) {
+      result.push(null);
+      return;
+    }
+
+    if (type === 'sma' || previous === null) {
+      previous = sum / period;
+    } else {
+      previous = (candle.close - previous) * multiplier + previous;
+    }
+    result.push(previous);
+  });
+
+  return result;
+};
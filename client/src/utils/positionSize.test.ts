@@ -0,0 +1,15 @@
+import { calculatePosition, parsePositionDefaults } from './positionSize';
+
+test('reads lesson defaults from the block body', () => {
+  expect(parsePositionDefaults('account: 10 000\nrisk: 1,5%\nentry: 2650\nsl: 2620\ntp: 2740\nlot: 100\nnote: x'))
+    .toEqual({ accountSize: 10000, riskPercent: 1.5, entry: 2650, stop: 2620, takeProfit: 2740, lotSize: 100 });
+});
+
+test('sizes long and short positions from the risked amount', () => {
+  expect(calculatePosition({ accountSize: 10000, riskPercent: 1, entry: 100, stop: 95, takeProfit: 115, lotSize: 10 }))
+    .toMatchObject({ direction: 'long', riskAmount: 100, units: 20, lots: 2, potentialProfit: 300, rewardRisk: 3 });
+  expect(calculatePosition({ accountSize: 10000, riskPercent: 2, entry: 50, stop: 52, lotSize: 1 }))
+    .toMatchObject({ direction: 'short', units: 100, potentialLoss: 200 });
+  expect(calculatePosition({ accountSize: 10000, riskPercent: 1, entry: 100, stop: 95, takeProfit: 90, lotSize: 1 }))
+    .toHaveProperty('error');
+});
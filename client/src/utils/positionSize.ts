@@ -0,0 +1,115 @@
+import { parseNumber } from './numberInput';
+
+/**
+ * Position sizing from account risk, as taught in the risk-management lessons.
+ * Lesson defaults come from a ```calc-position block, one `key: value` per line:
+ *
+ *   ```calc-position
+ *   account: 10000
+ *   risk: 1%
+ *   entry: 2650
+ *   stop: 2620
+ *   take: 2740
+ *   lot: 100
+ *   ```
+ */
+
+export interface PositionInputs {
+  accountSize: number;
+  /** Percent of the account risked on the trade */
+  riskPercent: number;
+  entry: number;
+  stop: number;
+  takeProfit?: number;
+  /** Units of the asset in one contract/lot */
+  lotSize: number;
+}
+
+export interface PositionResult {
+  direction: 'long' | 'short';
+  riskAmount: number;
+  /** Position size in units of the asset */
+  units: number;
+  /** Position size in contracts/lots */
+  lots: number;
+  positionValue: number;
+  potentialLoss: number;
+  potentialProfit?: number;
+  /** Reward-to-risk ratio, e.g. 3 for 1:3 */
+  rewardRisk?: number;
+}
+
+export const DEFAULT_POSITION_INPUTS: PositionInputs = {
+  accountSize: 1000,
+  riskPercent: 1,
+  entry: 0,
+  stop: 0,
+  lotSize: 1
+};
+
+const FIELD_ALIASES: Record<string, keyof PositionInputs> = {
+  account: 'accountSize',
+  deposit: 'accountSize',
+  risk: 'riskPercent',
+  entry: 'entry',
+  stop: 'stop',
+  sl: 'stop',
+  take: 'takeProfit',
+  tp: 'takeProfit',
+  'take-profit': 'takeProfit',
+  lot: 'lotSize',
+  'lot-size': 'lotSize',
+  contract: 'lotSize',
+  'contract-size': 'lotSize'
+};
+
+/**
+ * Defaults from the body of a ```calc-position block; unknown keys are ignored
+ */
+export const parsePositionDefaults = (source: string): Partial<PositionInputs> => {
+  const defaults: Partial<PositionInputs> = {};
+  source.split('\n').forEach(line => {
+    const match = line.match(/^\s*([\w-]+)\s*[:=]\s*(.+)$/);
+    const field = match && FIELD_ALIASES[match[1].toLowerCase()];
+    if (!field) return;
+    const value = parseNumber(match[2]);
+    if (value !== null) defaults[field] = value;
+  });
+  return defaults;
+};
+
+/**
+ * Size the position so that hitting the stop loses exactly the risked amount.
+ * Returns an error message instead when the inputs do not describe a trade.
+ */
+export const calculatePosition = (inputs: PositionInputs): PositionResult | { error: string } => {
+  const { accountSize, riskPercent, entry, stop, takeProfit, lotSize } = inputs;
+  if (accountSize <= 0) return { error: 'Укажите размер депозита' };
+  if (riskPercent <= 0 || riskPercent > 100) return { error: 'Риск должен быть от 0 до 100%' };
+  if (entry <= 0 || stop <= 0) return { error: 'Укажите цену входа и стоп' };
+  if (entry === stop) return { error: 'Стоп не может совпадать с ценой входа' };
+  if (lotSize <= 0) return { error: 'Размер лота должен быть больше нуля' };
+
+  const direction = stop < entry ? 'long' : 'short';
+  const stopDistance = Math.abs(entry - stop);
+  const riskAmount = (accountSize * riskPercent) / 100;
+  const units = riskAmount / stopDistance;
+
+  const result: PositionResult = {
+    direction,
+    riskAmount,
+    units,
+    lots: units / lotSize,
+    positionValue: units * entry,
+    potentialLoss: riskAmount
+  };
+
+  if (takeProfit !== undefined && takeProfit > 0) {
+    const reward = direction === 'long' ? takeProfit - entry : entry - takeProfit;
+    if (reward <= 0) return { error: 'Тейк-профит должен быть по другую сторону от входа' };
+    result.potentialProfit = units * reward;
+    result.rewardRisk = reward / stopDistance;
+  }
+
+  return result;
+};
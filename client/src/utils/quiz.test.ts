@@ -0,0 +1,44 @@
+import { extractQuizQuestions, getInitialOrder, isAnswerCorrect, parseQuiz } from './quiz';
+
+const source = `question: Какая свеча сигнализирует о развороте вниз?
+- [ ] Молот
+- [x] Падающая звезда
+explanation: Длинная верхняя тень.
+---
+question: Какие свечи разворотные?
+- [x] Поглощение
+- [ ] Марубозу
+- [x] Харами
+---
+id: entry-steps
+question: Расставьте шаги входа
+- Найти уровень
+- Дождаться подтверждения
+- Поставить стоп`;
+
+test('parses single, multiple and ordering questions', () => {
+  const [single, multiple, order] = parseQuiz(source);
+
+  expect(single).toMatchObject({ type: 'single', correct: [1], explanation: 'Длинная верхняя тень.' });
+  expect(multiple).toMatchObject({ type: 'multiple', correct: [0, 2] });
+  expect(order).toMatchObject({ id: 'entry-steps', type: 'order', correct: [0, 1, 2] });
+  expect(extractQuizQuestions(`Текст\n\n\`\`\`quiz\n${source}\n\`\`\`\n`)).toHaveLength(3);
+});
+
+test('checks answers and never starts an ordering question solved', () => {
+  const [single, multiple, order] = parseQuiz(source);
+
+  expect(isAnswerCorrect(single, [1])).toBe(true);
+  expect(isAnswerCorrect(multiple, [2, 0])).toBe(true);
+  expect(isAnswerCorrect(multiple, [0])).toBe(false);
+  expect(isAnswerCorrect(order, getInitialOrder(order))).toBe(false);
+  expect(isAnswerCorrect(order, [0, 1, 2])).toBe(true);
+});
+
+test('suffixes repeated question ids', () => {
+  const repeated = 'question: Где стоп?\n- [x] Под уровнем\n- [ ] Над уровнем';
+  const ids = parseQuiz(`${repeated}\n---\n${repeated}\n---\n${repeated}`).map(question => question.id);
+
+  expect(new Set(ids).size).toBe(3);
+  expect(ids[1]).toBe(`${ids[0]}-2`);
+});
@@ -0,0 +1,154 @@
+import { slugifyHeading } from './headingSlug';
+
+/**
+ * Quizzes written in lesson markdown as ```quiz fenced blocks.
+ *
+ *   ```quiz
+ *   question: Какая свеча сигнализирует о развороте вниз?
+ *   - [ ] Молот
+ *   - [x] Падающая звезда
+ *   explanation: Длинная верхняя тень показывает, что покупателей выдавили.
+ *   ---
+ *   type: order
+ *   question: Расставьте шаги входа по порядку
+ *   - Найти уровень
+ *   - Дождаться подтверждения
+ *   - Поставить стоп
+ *   ```
+ *
+ * Questions are separated by `---`. With checkboxes the type is `single` (one [x])
+ * or `multiple` (several [x]); plain list items make an `order` question whose
+ * correct order is the one written. `type:` and `id:` override the defaults.
+ * Ids default to the question's slug; repeats within a block get a `-2`, `-3`... suffix.
+ */
+
+export type QuizQuestionType = 'single' | 'multiple' | 'order';
+
+export interface QuizQuestion {
+  id: string;
+  type: QuizQuestionType;
+  question: string;
+  options: string[];
+  /** Indexes of the correct options (single/multiple) */
+  correct: number[];
+  explanation?: string;
+}
+
+/** Selected option indexes, or for `order` questions the option indexes in the chosen order */
+export type QuizAnswer = number[];
+
+const QUESTION_SEPARATOR = /^\s*---\s*$/;
+const FIELD_PATTERN = /^(id|type|question|explanation):\s*(.*)$/i;
+const OPTION_PATTERN = /^\s*[-*]\s+(?:\[([ xX])\]\s+)?(.+)$/;
+
+const parseQuestion = (block: string): QuizQuestion | null => {
+  const fields: Record<string, string> = {};
+  const options: string[] = [];
+  const correct: number[] = [];
+  let hasCheckboxes = false;
+  let lastField: string | null = null;
+
+  block.split('\n').forEach(line => {
+    const option = line.match(OPTION_PATTERN);
+    if (option) {
+      if (option[1] !== undefined) hasCheckboxes = true;
+      if (option[1]?.toLowerCase() === 'x') correct.push(options.length);
+      options.push(option[2].trim());
+      lastField = null;
+      return;
+    }
+
+    const field = line.match(FIELD_PATTERN);
+    if (field) {
+      lastField = field[1].toLowerCase();
+      fields[lastField] = field[2].trim();
+      return;
+    }
+
+    // Long questions and explanations may wrap onto the following lines
+    if (lastField && line.trim()) {
+      fields[lastField] = `${fields[lastField]} ${line.trim()}`.trim();
+    }
+  });
+
+  if (!fields.question || options.length < 2) return null;
+
+  const declared = fields.type?.toLowerCase();
+  const type: QuizQuestionType = declared === 'single' || declared === 'multiple' || declared === 'order'
+    ? declared
+    : !hasCheckboxes ? 'order' : correct.length > 1 ? 'multiple' : 'single';
+
+  return {
+    id: fields.id || slugifyHeading(fields.question),
+    type,
+    question: fields.question,
+    options,
+    correct: type === 'order' ? options.map((_, index) => index) : correct,
+    explanation: fields.explanation || undefined
+  };
+};
+
+/**
+ * Parse the body of a ```quiz block; malformed questions are skipped
+ */
+export const parseQuiz = (source: string): QuizQuestion[] => {
+  const blocks: string[][] = [[]];
+  source.split('\n').forEach(line => {
+    if (QUESTION_SEPARATOR.test(line)) {
+      blocks.push([]);
+    } else {
+      blocks[blocks.length - 1].push(line);
+    }
+  });
+
+  const seen = new Map<string, number>();
+  return blocks
+    .map(lines => parseQuestion(lines.join('\n')))
+    .filter((question): question is QuizQuestion => question !== null)
+    .map(question => {
+      const count = (seen.get(question.id) || 0) + 1;
+      seen.set(question.id, count);
+      return count > 1 ? { ...question, id: `${question.id}-${count}` } : question;
+    });
+};
+
+/**
+ * Every quiz question in a lesson, in reading order
+ */
+export const extractQuizQuestions = (content: string): QuizQuestion[] => {
+  const questions: QuizQuestion[] = [];
+  const pattern = /^(```|~~~)quiz[ \t]*\n([\s\S]*?)^\1[ \t]*$/gm;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) {
+    questions.push(...parseQuiz(match[2]));
+  }
+  return questions;
+};
+
+export const isAnswerCorrect = (question: QuizQuestion, answer: QuizAnswer): boolean => {
+  if (question.type === 'order') {
+    return answer.length === question.options.length && answer.every((option, index) => option === index);
+  }
+  const selected = Array.from(new Set(answer)).sort((a, b) => a - b);
+  return selected.length === question.correct.length &&
+    selected.every((option, index) => option === question.correct[index]);
+};
+
+/**
+ * Starting order for an `order` question: shuffled, but stable for a given question
+ * and never already solved
+ */
+export const getInitialOrder = (question: QuizQuestion): number[] => {
+  const order = question.options.map((_, index) => index);
+  let seed = question.id.split('').reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) >>> 0, 7);
+  for (let i = order.length - 1; i > 0; i--) {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    const j = seed % (i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  // A shuffle that happens to be correct would give the answer away
+  if (order.every((option, index) => option === index)) {
+    order.push(order.shift() as number);
+  }
+  return order;
+};
@@ -0,0 +1,61 @@
+import { visitParents, SKIP } from 'unist-util-visit-parents';
+import type { PhrasingContent, Root, Text } from 'mdast';
+import { createTermMatcher, GlossaryTerm } from './glossary';
+
+export const GLOSSARY_LINK_PREFIX = '#term-';
+
+interface RemarkGlossaryOptions {
+  terms: GlossaryTerm[];
+  /** The note being rendered; a term note does not link to itself */
+  notePath?: string;
+}
+
+// Mentions anywhere inside these are left as they are: a term link inside a link
+// would nest <a> elements, and headings feed the table of contents
+const SKIPPED_ANCESTORS = new Set(['link', 'linkReference', 'heading']);
+
+/**
+ * The first mention of each glossary term becomes a link the lesson viewer
+ * renders as a tappable term with its definition
+ */
+export const remarkGlossary = ({ terms, notePath }: RemarkGlossaryOptions) => {
+  const matchTerms = createTermMatcher(terms.filter(term => term.path !== notePath));
+
+  return (tree: Root) => {
+    const seen = new Set<string>();
+
+    visitParents(tree, 'text', (node: Text, ancestors) => {
+      if (ancestors.some(ancestor => SKIPPED_ANCESTORS.has(ancestor.type))) return;
+      const parent = ancestors[ancestors.length - 1];
+      if (!parent) return;
+      const index = parent.children.findIndex(child => child === node);
+
+      const matches = matchTerms(node.value).filter(match => {
+        if (seen.has(match.term.path)) return false;
+        seen.add(match.term.path);
+        return true;
+      });
+      if (matches.length === 0) return;
+
+      const nodes: PhrasingContent[] = [];
+      let lastIndex = 0;
+      matches.forEach(match => {
+        if (match.index > lastIndex) {
+          nodes.push({ type: 'text', value: node.value.slice(lastIndex, match.index) });
+        }
+        nodes.push({
+          type: 'link',
+          url: `${GLOSSARY_LINK_PREFIX}${encodeURIComponent(match.term.path)}`,
+          children: [{ type: 'text', value: node.value.slice(match.index, match.index + match.length) }]
+        });
+        lastIndex = match.index + match.length;
+      });
+      if (lastIndex < node.value.length) {
+        nodes.push({ type: 'text', value: node.value.slice(lastIndex) });
+      }
+
+      parent.children.splice(index, 1, ...nodes);
+      return [SKIP, index + nodes.length];
+    });
+  };
+};
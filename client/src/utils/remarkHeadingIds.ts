@@ -0,0 +1,47 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import { visit } from 'unist-util-visit';
+import { toString } from 'mdast-util-to-string';
+import type { Heading, Root } from 'mdast';
+import { TocItem } from '../types';
+import { createHeadingSlugger } from './headingSlug';
+import { remarkObsidianComments } from './remarkObsidian';
+
+/**
+ * Walk the headings of a markdown tree in document order with their slug ids
+ */
+const forEachHeading = (tree: Root, callback: (node: Heading, id: string, text: string) => void) => {
+  const slug = createHeadingSlugger();
+  visit(tree, 'heading', (node: Heading) => {
+    const text = toString(node).trim();
+    if (text) {
+      callback(node, slug(text), text);
+    }
+  });
+};
+
+/**
+ * Remark plugin: gives every heading a stable slug id (used by the TOC and scroll anchors)
+ */
+export const remarkHeadingIds = () => (tree: Root) => {
+  forEachHeading(tree, (node, id) => {
+    node.data = {
+      ...node.data,
+      hProperties: { ...(node.data?.hProperties || {}), id }
+    };
+  });
+};
+
+/**
+ * Table of contents from the markdown AST; ids match remarkHeadingIds for the same content
+ */
+export const extractToc = (content: string): TocItem[] => {
+  // Commented-out headings are not rendered, so they must not shift the slugs either
+  const tree = unified().use(remarkParse).use(remarkGfm).use(remarkObsidianComments).parse(content) as Root;
+  const items: TocItem[] = [];
+  forEachHeading(tree, (node, id, text) => {
+    items.push({ id, text, level: node.depth });
+  });
+  return items;
+};
@@ -0,0 +1,226 @@
+import { visit, SKIP } from 'unist-util-visit';
+import type { Blockquote, Paragraph, PhrasingContent, Root, Text } from 'mdast';
+import type { Processor } from 'unified';
+import { EMBED_LINK_PREFIX } from './wikilink';
+
+/**
+ * Remark plugins for the Obsidian syntax our lessons are written in:
+ * %%comments%%, > [!type] callouts, ==highlights==, #tags, ^block-ids and ![[note]] embeds.
+ */
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const CALLOUT_PATTERN = /^\[!([\w-]+)\]([+-]?)[ \t]*(.*)$/;
+const HIGHLIGHT_PATTERN = /==([^=\n]+?)==/g;
+// Obsidian tags need at least one non-digit character
+const TAG_PATTERN = /(^|\s)#([0-9]*[A-Za-zЀ-ӿ_][\wЀ-ӿ/-]*)/g;
+const BLOCK_ID_PATTERN = /\s\^([A-Za-z0-9-]+)\s*$/;
+
+export const TAG_LINK_PREFIX = '#tag-';
+
+/**
+ * Element id for an Obsidian block reference (`^block-id`)
+ */
+export const blockAnchorId = (blockId: string) => `block-${blockId}`;
+
+/**
+ * Remove %%comments%% (inline or spanning several lines), leaving code blocks alone
+ */
+export const stripObsidianComments = (content: string): string => {
+  let inFence = false;
+  let inComment = false;
+
+  return content
+    .split('\n')
+    .map(line => {
+      if (!inComment && FENCE_PATTERN.test(line)) {
+        inFence = !inFence;
+        return line;
+      }
+      if (inFence) return line;
+
+      let result = '';
+      let rest = line;
+      while (rest) {
+        const marker = rest.indexOf('%%');
+        if (marker === -1) {
+          if (!inComment) result += rest;
+          break;
+        }
+        if (!inComment) result += rest.slice(0, marker);
+        inComment = !inComment;
+        rest = rest.slice(marker + 2);
+      }
+      return result;
+    })
+    .join('\n');
+};
+
+/**
+ * Comments can span blocks, so they are stripped from the source before parsing
+ */
+export function remarkObsidianComments(this: Processor) {
+  const parse = this.parser;
+  if (!parse) return;
+  this.parser = (document, file) => parse(stripObsidianComments(document), file);
+}
+
+/**
+ * Replace matches inside text nodes with new phrasing nodes
+ */
+const replaceInText = (
+  tree: Root,
+  pattern: RegExp,
+  build: (match: RegExpExecArray) => PhrasingContent[]
+) => {
+  visit(tree, 'text', (node: Text, index, parent) => {
+    if (!parent || index === undefined || parent.type === 'link') return;
+
+    const nodes: PhrasingContent[] = [];
+    let lastIndex = 0;
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(node.value)) !== null) {
+      if (match.index > lastIndex) {
+        nodes.push({ type: 'text', value: node.value.slice(lastIndex, match.index) });
+      }
+      nodes.push(...build(match));
+      lastIndex = match.index + match[0].length;
+    }
+    if (nodes.length === 0) return;
+    if (lastIndex < node.value.length) {
+      nodes.push({ type: 'text', value: node.value.slice(lastIndex) });
+    }
+
+    parent.children.splice(index, 1, ...nodes);
+    return [SKIP, index + nodes.length];
+  });
+};
+
+/**
+ * ==text== → <mark>
+ */
+export const remarkObsidianHighlights = () => (tree: Root) => {
+  replaceInText(tree, HIGHLIGHT_PATTERN, match => [{
+    type: 'emphasis',
+    data: { hName: 'mark', hProperties: { className: ['obsidian-highlight'] } },
+    children: [{ type: 'text', value: match[1] }]
+  }]);
+};
+
+/**
+ * #tag → link handled by the lesson viewer (opens a search for the tag)
+ */
+export const remarkObsidianTags = () => (tree: Root) => {
+  replaceInText(tree, TAG_PATTERN, match => [
+    ...(match[1] ? [{ type: 'text' as const, value: match[1] }] : []),
+    {
+      type: 'link',
+      url: `${TAG_LINK_PREFIX}${encodeURIComponent(match[2])}`,
+      data: { hProperties: { className: ['obsidian-tag'] } },
+      children: [{ type: 'text', value: `#${match[2]}` }]
+    }
+  ]);
+};
+
+/**
+ * Trailing `^block-id` markers become element ids so links can target the block
+ */
+export const remarkObsidianBlockIds = () => (tree: Root) => {
+  visit(tree, 'paragraph', (node: Paragraph) => {
+    const last = node.children[node.children.length - 1];
+    if (!last || last.type !== 'text') return;
+
+    const match = last.value.match(BLOCK_ID_PATTERN);
+    if (!match) return;
+
+    last.value = last.value.slice(0, match.index);
+    node.data = {
+      ...node.data,
+      hProperties: { ...(node.data?.hProperties || {}), id: blockAnchorId(match[1]) }
+    };
+  });
+};
+
+/**
+ * > [!type]± Title → callout container; rendered by the Callout component
+ */
+export const remarkObsidianCallouts = () => (tree: Root) => {
+  visit(tree, 'blockquote', (node: Blockquote) => {
+    const first = node.children[0];
+    if (!first || first.type !== 'paragraph') return;
+    const head = first.children[0];
+    if (!head || head.type !== 'text') return;
+
+    const newline = head.value.indexOf('\n');
+    const firstLine = newline === -1 ? head.value : head.value.slice(0, newline);
+    const match = firstLine.match(CALLOUT_PATTERN);
+    if (!match) return;
+
+    const [, type, fold, title] = match;
+
+    // Everything after the marker line stays in the callout body
+    if (newline === -1) {
+      first.children.shift();
+      // Inline formatting on the title line belongs to the title, not the body
+      while (first.children.length > 0 && first.children[0].type !== 'break') {
+        const child = first.children[0];
+        if (child.type === 'text' && child.value.includes('\n')) {
+          child.value = child.value.slice(child.value.indexOf('\n') + 1);
+          break;
+        }
+        first.children.shift();
+      }
+      if (first.children[0]?.type === 'break') first.children.shift();
+    } else {
+      head.value = head.value.slice(newline + 1);
+    }
+    if (first.children.length === 0) {
+      node.children.shift();
+    }
+
+    node.data = {
+      ...node.data,
+      hName: 'div',
+      hProperties: {
+        className: ['callout'],
+        dataCallout: type.toLowerCase(),
+        dataCalloutFold: fold,
+        dataCalloutTitle: title.trim()
+      }
+    };
+  });
+};
+
+/**
+ * A paragraph holding nothing but a ![[note]] embed becomes a container
+ * the lesson viewer fills with the transcluded note (see NoteEmbed)
+ */
+export const remarkObsidianEmbeds = () => (tree: Root) => {
+  visit(tree, 'paragraph', (node: Paragraph) => {
+    const content = node.children.filter(child => child.type !== 'text' || child.value.trim());
+    const link = content[0];
+    if (content.length !== 1 || link.type !== 'link' || !link.url.startsWith(EMBED_LINK_PREFIX)) return;
+
+    node.children = [];
+    node.data = {
+      ...node.data,
+      hName: 'div',
+      hProperties: {
+        className: ['note-embed-slot'],
+        dataEmbed: decodeURIComponent(link.url.slice(EMBED_LINK_PREFIX.length))
+      }
+    };
+  });
+};
+
+/**
+ * All Obsidian plugins in the order they have to run
+ */
+export const remarkObsidian = [
+  remarkObsidianComments,
+  remarkObsidianEmbeds,
+  remarkObsidianCallouts,
+  remarkObsidianBlockIds,
+  remarkObsidianHighlights,
+  remarkObsidianTags
+];
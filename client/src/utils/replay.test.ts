@@ -0,0 +1,36 @@
+import { generateCandles } from './candleGenerator';
+import { checkExit, closePosition, parseReplayBlock, parseReplayParams, replayScenarioToParams, summarizeTrades, validateOrder } from './replay';
+
+const candle = (open: number, high: number, low: number, close: number) => ({ time: '', open, high, low, close });
+const long = { side: 'long' as const, entryIndex: 0, entryPrice: 100, stop: 95, target: 110, quantity: 2 };
+
+test('exits at the stop first, and at the open on a gap', () => {
+  expect(checkExit(long, candle(101, 104, 99, 103))).toBeNull();
+  expect(checkExit(long, candle(101, 111, 94, 100))).toEqual({ price: 95, reason: 'stop' });
+  expect(checkExit(long, candle(112, 115, 111, 114))).toEqual({ price: 112, reason: 'target' });
+  expect(validateOrder('short', 100, 95)).not.toBeNull();
+});
+
+test('summarizes closed trades in R', () => {
+  const trades = [closePosition(long, 3, 110, 'target'), closePosition(long, 5, 95, 'stop')];
+  expect(trades[0]).toMatchObject({ pnl: 20, rMultiple: 2 });
+  expect(summarizeTrades(trades)).toMatchObject({ trades: 2, wins: 1, winRate: 0.5, totalR: 1, averageR: 0.5 });
+});
+
+test('reads a scenario and generates the same data for the same seed', () => {
+  expect(parseReplayBlock('title: Пробой\ndataset: uptrend\nstart: 80\nema: 20')).toEqual({
+    title: 'Пробой', dataset: 'uptrend', start: 80, overlays: [{ type: 'ema', period: 20 }]
+  });
+  const options = { seed: 7, segments: [{ bars: 20, drift: 0.001, volatility: 0.01 }] };
+  expect(generateCandles(options)).toEqual(generateCandles(options));
+  expect(generateCandles(options)).toHaveLength(20);
+});
+
+test('round-trips a scenario through the query string', () => {
+  const scenario = {
+    ...parseReplayBlock('title: Пробой уровня\nsrc: gold-h1.csv\nstart: 80\nsma: 50\nema: 20'),
+    lessonPath: 'Урок 3/Пробой.md'
+  };
+  expect(parseReplayParams(replayScenarioToParams(scenario))).toEqual(scenario);
+  expect(parseReplayParams(new URLSearchParams())).toBeUndefined();
+});
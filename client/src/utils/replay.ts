@@ -0,0 +1,208 @@
+import { Candle, ChartOverlay } from './ohlc';
+
+/**
+ * Paper trading on a replayed chart: one position at a time, opened at the close of the
+ * current bar and closed by its stop, its target, by hand or when the data runs out.
+ */
+
+export type TradeSide = 'long' | 'short';
+export type ExitReason = 'stop' | 'target' | 'manual' | 'end';
+
+export interface ReplayPosition {
+  side: TradeSide;
+  entryIndex: number;
+  entryPrice: number;
+  stop: number;
+  target?: number;
+  quantity: number;
+}
+
+export interface ReplayTrade extends ReplayPosition {
+  exitIndex: number;
+  exitPrice: number;
+  exitReason: ExitReason;
+  /** Price difference × quantity */
+  pnl: number;
+  /** Result in units of the initial risk */
+  rMultiple: number;
+}
+
+export interface ReplaySummary {
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  totalR: number;
+  averageR: number;
+  pnl: number;
+  bestR: number;
+  worstR: number;
+}
+
+/**
+ * A ```replay block in a lesson:
+ *
+ *   ```replay
+ *   title: Пробой уровня
+ *   dataset: uptrend        (built-in dataset) or src: gold-h1.csv (uploaded file)
+ *   start: 80               (bars visible before the replay begins)
+ *   ema: 20
+ *   ```
+ */
+export interface ReplayScenario {
+  title?: string;
+  dataset?: string;
+  src?: string;
+  start?: number;
+  overlays: ChartOverlay[];
+  /** Lesson that launched the scenario, for progress events */
+  lessonPath?: string;
+}
+
+const OPTION_PATTERN = /^\s*(title|dataset|src|file|start|ma|sma|ema)\s*:\s*(.*)$/i;
+const SWING_LOOKBACK = 10;
+const DEFAULT_REWARD_RISK = 2;
+
+export const parseReplayBlock = (source: string): ReplayScenario => {
+  const scenario: ReplayScenario = { overlays: [] };
+  source.split('\n').forEach(line => {
+    const match = line.match(OPTION_PATTERN);
+    if (!match) return;
+    const key = match[1].toLowerCase();
+    const value = match[2].trim();
+    if (key === 'title') scenario.title = value;
+    else if (key === 'dataset') scenario.dataset = value;
+    else if (key === 'src' || key === 'file') scenario.src = value.replace(/^!?\[\[|\]\]$/g, '');
+    else if (key === 'start') {
+      const start = parseInt(value, 10);
+      if (start > 0) scenario.start = start;
+    } else {
+      value.split(/[,\s]+/).map(Number).filter(period => Number.isInteger(period) && period > 1)
+        .forEach(period => scenario.overlays.push({ type: key === 'ema' ? 'ema' : 'sma', period }));
+    }
+  });
+  return scenario;
+};
+
+/**
+ * Query string form of a scenario, so the replay route survives reloads and back/forward
+ */
+export const replayScenarioToParams = (scenario: ReplayScenario): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (scenario.title) params.set('title', scenario.title);
+  if (scenario.dataset) params.set('dataset', scenario.dataset);
+  if (scenario.src) params.set('src', scenario.src);
+  if (scenario.start) params.set('start', String(scenario.start));
+  (['sma', 'ema'] as const).forEach(type => {
+    const periods = scenario.overlays.filter(overlay => overlay.type === type).map(overlay => overlay.period);
+    if (periods.length > 0) params.set(type, periods.join(','));
+  });
+  if (scenario.lessonPath) params.set('lesson', scenario.lessonPath);
+  return params;
+};
+
+/**
+ * Scenario from the replay route's query string; undefined for the free simulator
+ */
+export const parseReplayParams = (params: URLSearchParams): ReplayScenario | undefined => {
+  if (!params.get('dataset') && !params.get('src')) return undefined;
+
+  // Read back through the block parser so both forms are validated the same way
+  const lines = ['title', 'dataset', 'src', 'start', 'sma', 'ema']
+    .map(key => [key, params.get(key)?.replace(/\s+/g, ' ')])
+    .filter(([, value]) => value)
+    .map(([key, value]) => `${key}: ${value}`);
+  const scenario = parseReplayBlock(lines.join('\n'));
+  const lessonPath = params.get('lesson');
+  return lessonPath ? { ...scenario, lessonPath } : scenario;
+};
+
+const direction = (side: TradeSide) => (side === 'long' ? 1 : -1);
+
+/**
+ * Why an order cannot be placed, or null when it is valid
+ */
+export const validateOrder = (side: TradeSide, entry: number, stop: number, target?: number): string | null => {
+  if (!(stop > 0)) return 'Укажите стоп';
+  if ((stop - entry) * direction(side) >= 0) {
+    return side === 'long' ? 'Стоп для покупки должен быть ниже цены' : 'Стоп для продажи должен быть выше цены';
+  }
+  if (target !== undefined && (target - entry) * direction(side) <= 0) {
+    return side === 'long' ? 'Цель для покупки должна быть выше цены' : 'Цель для продажи должна быть ниже цены';
+  }
+  return null;
+};
+
+/**
+ * Starting stop behind the recent swing and a target at 2R
+ */
+export const suggestOrderLevels = (candles: Candle[], side: TradeSide): { stop: number; target: number } => {
+  const recent = candles.slice(-SWING_LOOKBACK);
+  const entry = recent[recent.length - 1].close;
+  let stop = side === 'long'
+    ? Math.min(...recent.map(candle => candle.low))
+    : Math.max(...recent.map(candle => candle.high));
+  if ((stop - entry) * direction(side) >= 0) stop = entry * (1 - 0.01 * direction(side));
+  const risk = Math.abs(entry - stop);
+  const round = (value: number) => Number(value.toPrecision(6));
+  return { stop: round(stop), target: round(entry + risk * DEFAULT_REWARD_RISK * direction(side)) };
+};
+
+/**
+ * Profit and R of a position at the given price
+ */
+export const getPositionResult = (position: ReplayPosition, price: number) => {
+  const move = (price - position.entryPrice) * direction(position.side);
+  return {
+    pnl: move * position.quantity,
+    rMultiple: move / Math.abs(position.entryPrice - position.stop)
+  };
+};
+
+export const closePosition = (
+  position: ReplayPosition,
+  exitIndex: number,
+  exitPrice: number,
+  exitReason: ExitReason
+): ReplayTrade => ({
+  ...position,
+  exitIndex,
+  exitPrice,
+  exitReason,
+  ...getPositionResult(position, exitPrice)
+});
+
+/**
+ * Exit triggered by a new bar. A gap through a level fills at the open; when one bar
+ * touches both the stop and the target, the stop is assumed to come first.
+ */
+export const checkExit = (position: ReplayPosition, candle: Candle): { price: number; reason: ExitReason } | null => {
+  const long = position.side === 'long';
+  const { stop, target } = position;
+
+  if (long ? candle.open <= stop : candle.open >= stop) return { price: candle.open, reason: 'stop' };
+  if (target !== undefined && (long ? candle.open >= target : candle.open <= target)) {
+    return { price: candle.open, reason: 'target' };
+  }
+  if (long ? candle.low <= stop : candle.high >= stop) return { price: stop, reason: 'stop' };
+  if (target !== undefined && (long ? candle.high >= target : candle.low <= target)) {
+    return { price: target, reason: 'target' };
+  }
+  return null;
+};
+
+export const summarizeTrades = (trades: ReplayTrade[]): ReplaySummary => {
+  const wins = trades.filter(trade => trade.rMultiple > 0).length;
+  const totalR = trades.reduce((sum, trade) => sum + trade.rMultiple, 0);
+  return {
+    trades: trades.length,
+    wins,
+    losses: trades.filter(trade => trade.rMultiple < 0).length,
+    winRate: trades.length > 0 ? wins / trades.length : 0,
+    totalR,
+    averageR: trades.length > 0 ? totalR / trades.length : 0,
+    pnl: trades.reduce((sum, trade) => sum + trade.pnl, 0),
+    bestR: trades.length > 0 ? Math.max(...trades.map(trade => trade.rMultiple)) : 0,
+    worstR: trades.length > 0 ? Math.min(...trades.map(trade => trade.rMultiple)) : 0
+  };
+};
@@ -0,0 +1,36 @@
+import { AppRoute, buildRouteUrl, isSameRoute, parseRoute } from './routing';
+
+const parseUrl = (url: string): AppRoute => {
+  const [pathname, search = ''] = url.split('?');
+  return parseRoute(pathname, search ? `?${search}` : '');
+};
+
+test('round-trips every route through its URL', () => {
+  const routes: AppRoute[] = [
+    { name: 'home' },
+    { name: 'lesson', path: 'Урок 9/Урок 9. Уровни Фиббоначи.md', heading: 'Уровни & цели' },
+    { name: 'lesson', path: 'Основы/Свечи?.md' },
+    { name: 'profile' },
+    { name: 'admin' },
+    { name: 'search', query: '#свечи' },
+    { name: 'graph' },
+    { name: 'review' },
+    { name: 'calculator' },
+    { name: 'replay' },
+    { name: 'journal' },
+    { name: 'drills' },
+    { name: 'glossary' },
+    { name: 'notes' },
+    { name: 'replay', scenario: { title: 'Пробой', dataset: 'uptrend', start: 80, overlays: [{ type: 'ema', period: 20 }] } }
+  ];
+
+  routes.forEach(route => expect(parseUrl(buildRouteUrl(route))).toEqual(route));
+});
+
+test('parses lesson URLs and falls back to home', () => {
+  expect(parseRoute('/lesson/%D0%A3%D1%80%D0%BE%D0%BA%201/intro.md/', '?section=%D0%A6%D0%B5%D0%BB%D0%B8'))
+    .toEqual({ name: 'lesson', path: 'Урок 1/intro.md', heading: 'Цели' });
+  expect(parseRoute('/lesson/')).toEqual({ name: 'home' });
+  expect(parseRoute('/unknown')).toEqual({ name: 'home' });
+  expect(isSameRoute({ name: 'search', query: '' }, parseRoute('/search'))).toBe(true);
+});
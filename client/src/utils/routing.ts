@@ -0,0 +1,151 @@
+/**
+ * URL routing helpers for the app views.
+ *
+ * Routes live in the pathname and query string only: Telegram passes its launch
+ * parameters (tgWebAppData etc.) through `location.hash`, so the hash is left alone.
+ *
+ * Examples:
+ * /                                              -> { name: 'home' }
+ * /lesson/Урок%209/Урок%209.%20Уровни.md?section=Уровни
+ *                                                -> { name: 'lesson', path: 'Урок 9/Урок 9. Уровни.md', heading: 'Уровни' }
+ * /profile                                       -> { name: 'profile' }
+ * /admin                                         -> { name: 'admin' }
+ * /search?q=свечи                                -> { name: 'search', query: 'свечи' }
+ * /graph                                         -> { name: 'graph' }
+ * /review                                        -> { name: 'review' }
+ * /calculator                                    -> { name: 'calculator' }
+ * /replay                                        -> { name: 'replay' }
+ * /replay?title=Пробой&dataset=uptrend&ema=20&lesson=Урок%201.md
+ *                                                -> { name: 'replay', scenario: { title: 'Пробой', ... } }
+ * /journal                                       -> { name: 'journal' }
+ * /drills                                        -> { name: 'drills' }
+ * /glossary                                      -> { name: 'glossary' }
+ * /notes                                         -> { name: 'notes' }
+ */
+
+import { parseReplayParams, ReplayScenario, replayScenarioToParams } from './replay';
+
+export type AppRoute =
+  | { name: 'home' }
+  | { name: 'lesson'; path: string; heading?: string }
+  | { name: 'profile' }
+  | { name: 'admin' }
+  | { name: 'search'; query: string }
+  | { name: 'graph' }
+  | { name: 'review' }
+  | { name: 'calculator' }
+  | { name: 'replay'; scenario?: ReplayScenario }
+  | { name: 'journal' }
+  | { name: 'drills' }
+  | { name: 'glossary' }
+  | { name: 'notes' };
+
+const LESSON_PREFIX = '/lesson/';
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Parses a pathname + search string into an app route.
+ * Unknown paths fall back to the home route.
+ */
+export const parseRoute = (pathname: string, search: string = ''): AppRoute => {
+  const params = new URLSearchParams(search);
+  const cleanPath = pathname.replace(/\/+$/, '') || '/';
+
+  if (cleanPath.startsWith(LESSON_PREFIX)) {
+    const lessonPath = cleanPath
+      .slice(LESSON_PREFIX.length)
+      .split('/')
+      .map(safeDecode)
+      .join('/');
+
+    if (!lessonPath) {
+      return { name: 'home' };
+    }
+
+    const heading = params.get('section') || undefined;
+    return heading ? { name: 'lesson', path: lessonPath, heading } : { name: 'lesson', path: lessonPath };
+  }
+
+  switch (cleanPath) {
+    case '/profile':
+      return { name: 'profile' };
+    case '/admin':
+      return { name: 'admin' };
+    case '/search':
+      return { name: 'search', query: params.get('q') || '' };
+    case '/graph':
+      return { name: 'graph' };
+    case '/review':
+      return { name: 'review' };
+    case '/calculator':
+      return { name: 'calculator' };
+    case '/replay': {
+      const scenario = parseReplayParams(params);
+      return scenario ? { name: 'replay', scenario } : { name: 'replay' };
+    }
+    case '/journal':
+      return { name: 'journal' };
+    case '/drills':
+      return { name: 'drills' };
+    case '/glossary':
+      return { name: 'glossary' };
+    case '/notes':
+      return { name: 'notes' };
+    default:
+      return { name: 'home' };
+  }
+};
+
+/**
+ * Builds the URL (pathname + search) for a route
+ */
+export const buildRouteUrl = (route: AppRoute): string => {
+  switch (route.name) {
+    case 'lesson': {
+      const encodedPath = route.path
+        .split('/')
+        .map(segment => encodeURIComponent(segment))
+        .join('/');
+      const search = route.heading ? `?section=${encodeURIComponent(route.heading)}` : '';
+      return `${LESSON_PREFIX}${encodedPath}${search}`;
+    }
+    case 'profile':
+      return '/profile';
+    case 'admin':
+      return '/admin';
+    case 'search':
+      return route.query ? `/search?q=${encodeURIComponent(route.query)}` : '/search';
+    case 'graph':
+      return '/graph';
+    case 'review':
+      return '/review';
+    case 'calculator':
+      return '/calculator';
+    case 'replay':
+      return route.scenario ? `/replay?${replayScenarioToParams(route.scenario)}` : '/replay';
+    case 'journal':
+      return '/journal';
+    case 'drills':
+      return '/drills';
+    case 'glossary':
+      return '/glossary';
+    case 'notes':
+      return '/notes';
+    default:
+      return '/';
+  }
+};
+
+/**
+ * Checks whether two routes point at the same view
+ */
+export const isSameRoute = (a: AppRoute, b: AppRoute): boolean => {
+  return buildRouteUrl(a) === buildRouteUrl(b);
+};
@@ -0,0 +1,27 @@
+import { createSingleFlight } from './singleFlight';
+
+test('shares the build of the latest key', async () => {
+  const memo = createSingleFlight<number>();
+  const build = jest.fn(async () => 1);
+
+  const first = memo('a', build);
+  expect(memo('a', build)).toBe(first);
+  await first;
+  expect(memo('a', build)).toBe(first);
+  expect(build).toHaveBeenCalledTimes(1);
+
+  memo('b', build);
+  memo('a', build);
+  expect(build).toHaveBeenCalledTimes(3);
+});
+
+test('retries a failed build', async () => {
+  const memo = createSingleFlight<number>();
+  const build = jest.fn()
+    .mockRejectedValueOnce(new Error('offline'))
+    .mockResolvedValueOnce(2);
+
+  await expect(memo('a', build)).rejects.toThrow('offline');
+  await expect(memo('a', build)).resolves.toBe(2);
+  expect(build).toHaveBeenCalledTimes(2);
+});
@@ -0,0 +1,19 @@
+/**
+ * Memoize the latest async build by key: calls with the key of the pending or finished
+ * build share its promise, any other key starts a new build. A failed build is dropped,
+ * so the next call retries it.
+ */
+export const createSingleFlight = <T>() => {
+  let pending: { key: string; promise: Promise<T> } | null = null;
+
+  return (key: string, build: () => Promise<T>): Promise<T> => {
+    if (pending?.key === key) return pending.promise;
+
+    const promise = build();
+    pending = { key, promise };
+    promise.catch(() => {
+      if (pending?.promise === promise) pending = null;
+    });
+    return promise;
+  };
+};
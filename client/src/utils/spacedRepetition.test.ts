@@ -0,0 +1,33 @@
+import { countIntroducedToday, isCardDue, mergeReviewStates, reviewCard } from './spacedRepetition';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date(2024, 0, 10, 12).getTime();
+
+test('grows the interval on good answers and resets it on a lapse', () => {
+  const first = reviewCard('a', undefined, 4, now);
+  const second = reviewCard('a', first, 4, now + DAY);
+  const third = reviewCard('a', second, 5, now + 7 * DAY);
+
+  expect([first.interval, second.interval, third.interval]).toEqual([1, 6, 15]);
+  expect(third.easeFactor).toBeGreaterThan(first.easeFactor);
+
+  const lapse = reviewCard('a', third, 1, now + 22 * DAY);
+  expect(lapse).toMatchObject({ interval: 1, repetitions: 0, easeFactor: third.easeFactor });
+  expect(isCardDue(first, now)).toBe(false);
+  expect(isCardDue(first, now + DAY)).toBe(true);
+});
+
+test('keeps the most recent review of each card', () => {
+  const older = reviewCard('a', undefined, 4, now);
+  const newer = reviewCard('a', older, 4, now + DAY);
+  expect(mergeReviewStates([newer], [older]).a).toBe(newer);
+});
+
+test('counts only the cards first reviewed today', () => {
+  const yesterday = reviewCard('a', undefined, 4, now - DAY);
+  const reviewedAgain = reviewCard('a', yesterday, 4, now);
+  const introduced = reviewCard('b', undefined, 2, now);
+
+  expect(reviewedAgain.introducedAt).toBe(yesterday.introducedAt);
+  expect(countIntroducedToday([reviewedAgain, introduced], now)).toBe(1);
+});
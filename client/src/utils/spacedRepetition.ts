@@ -0,0 +1,91 @@
+/**
+ * SM-2 spaced repetition scheduling (the SuperMemo 2 algorithm, as used by Anki)
+ */
+
+export interface CardReviewState {
+  cardId: string;
+  /** SM-2 easiness factor, never below 1.3 */
+  easeFactor: number;
+  /** Days until the next review */
+  interval: number;
+  /** Successful reviews in a row */
+  repetitions: number;
+  /** Epoch milliseconds */
+  dueAt: number;
+  lastReviewedAt: number;
+  /** Epoch milliseconds of the first review, when the card stopped being new */
+  introducedAt: number;
+}
+
+/** 0-5 recall quality; below 3 counts as forgotten */
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+const DAY = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const PASSING_GRADE = 3;
+
+/**
+ * Schedule the next review after answering a card with the given grade
+ */
+export const reviewCard = (
+  cardId: string,
+  previous: CardReviewState | undefined,
+  grade: ReviewGrade,
+  now: number = Date.now()
+): CardReviewState => {
+  const easeFactor = previous?.easeFactor ?? INITIAL_EASE;
+  const repetitions = previous?.repetitions ?? 0;
+  const interval = previous?.interval ?? 0;
+  const introducedAt = previous ? previous.introducedAt : now;
+
+  if (grade < PASSING_GRADE) {
+    // Forgotten: start over tomorrow, the ease is kept
+    return { cardId, easeFactor, interval: 1, repetitions: 0, dueAt: now + DAY, lastReviewedAt: now, introducedAt };
+  }
+
+  const nextEase = Math.max(MIN_EASE, easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+  const nextInterval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(interval * easeFactor);
+
+  return {
+    cardId,
+    easeFactor: nextEase,
+    interval: nextInterval,
+    repetitions: repetitions + 1,
+    dueAt: now + nextInterval * DAY,
+    lastReviewedAt: now,
+    introducedAt
+  };
+};
+
+/**
+ * Cards come due at the start of their day, so a whole day's reviews can be done at once
+ */
+export const isCardDue = (state: CardReviewState, now: number = Date.now()): boolean => {
+  const endOfToday = new Date(now);
+  endOfToday.setHours(23, 59, 59, 999);
+  return state.dueAt <= endOfToday.getTime();
+};
+
+/**
+ * Number of cards reviewed for the first time today, to cap the daily batch of new cards
+ */
+export const countIntroducedToday = (states: CardReviewState[], now: number = Date.now()): number => {
+  const startOfToday = new Date(now);
+  startOfToday.setHours(0, 0, 0, 0);
+  return states.filter(state => state.introducedAt >= startOfToday.getTime()).length;
+};
+
+/**
+ * Keep the most recently reviewed state of each card (e.g. local vs. server copy)
+ */
+export const mergeReviewStates = (...sources: CardReviewState[][]): Record<string, CardReviewState> => {
+  const merged: Record<string, CardReviewState> = {};
+  sources.flat().forEach(state => {
+    const current = merged[state.cardId];
+    if (!current || state.lastReviewedAt > current.lastReviewedAt) {
+      merged[state.cardId] = state;
+    }
+  });
+  return merged;
+};
@@ -0,0 +1,47 @@
+import { encodeStartParam, decodeStartParam, START_PARAM_MAX_LENGTH } from './startParam';
+
+test('round-trips a slug with heading and campaign', () => {
+  const param = {
+    target: { kind: 'slug' as const, value: 'Урок 9. Уровни Фиббоначи' },
+    heading: 'Уровни',
+    campaign: 'channel_post',
+  };
+
+  const encoded = encodeStartParam(param);
+
+  expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+  expect(decodeStartParam(encoded)).toEqual(param);
+});
+
+test('encodes Cyrillic as raw UTF-8 rather than percent-escapes', () => {
+  const encoded = encodeStartParam({ target: { kind: 'slug', value: 'Уровни'.repeat(30) } });
+
+  // 180 two-byte characters: ~480 base64 chars raw, ~1440 if percent-encoded first
+  expect(encoded).not.toBeNull();
+  expect(encoded!.length).toBeLessThanOrEqual(START_PARAM_MAX_LENGTH);
+});
+
+test('round-trips a lesson id', () => {
+  const encoded = encodeStartParam({ target: { kind: 'id', value: '42' } });
+  expect(decodeStartParam(encoded)).toEqual({ target: { kind: 'id', value: '42' } });
+});
+
+test('drops the heading when the payload is too long', () => {
+  const encoded = encodeStartParam({
+    target: { kind: 'slug', value: 'Урок 1' },
+    heading: 'Очень длинный заголовок '.repeat(20),
+  });
+
+  expect(encoded!.length).toBeLessThanOrEqual(START_PARAM_MAX_LENGTH);
+  expect(decodeStartParam(encoded)).toEqual({ target: { kind: 'slug', value: 'Урок 1' } });
+});
+
+test('gives up when the target alone is too long', () => {
+  expect(encodeStartParam({ target: { kind: 'slug', value: 'Урок '.repeat(100) } })).toBeNull();
+});
+
+test('rejects invalid payloads', () => {
+  expect(decodeStartParam(undefined)).toBeNull();
+  expect(decodeStartParam('not a param!')).toBeNull();
+  expect(decodeStartParam(encodeStartParam({ target: { kind: 'slug', value: '' } }))).toBeNull();
+});
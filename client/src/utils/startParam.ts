@@ -0,0 +1,136 @@
+/**
+ * Codec for Telegram Mini App start parameters (`t.me/<bot>/<app>?startapp=<param>`).
+ *
+ * Telegram only allows `A-Z a-z 0-9 _ -` in start_param (up to 512 chars), while lesson
+ * slugs and headings are usually Cyrillic. The payload is therefore a compact JSON object
+ * (`i` for an id or `s` for a slug, plus optional `h` heading and `c` campaign) whose raw
+ * UTF-8 bytes are encoded as base64url. Percent-encoding it first would triple every
+ * Cyrillic byte before base64 grows it again.
+ */
+
+import { TELEGRAM_CONFIG } from '../constants/config';
+
+export type StartParamTarget =
+  | { kind: 'id'; value: string }
+  | { kind: 'slug'; value: string };
+
+export interface StartParam {
+  target: StartParamTarget;
+  heading?: string;
+  campaign?: string;
+}
+
+export const START_PARAM_MAX_LENGTH = 512;
+
+const TARGET_KEYS: Record<StartParamTarget['kind'], string> = {
+  id: 'i',
+  slug: 's',
+};
+
+const toBase64Url = (text: string): string => {
+  // Convert to a UTF-8 byte string first: btoa only accepts Latin-1
+  const bytes = encodeURIComponent(text).replace(/%([0-9A-F]{2})/g, (_, hex) =>
+    String.fromCharCode(parseInt(hex, 16))
+  );
+  return btoa(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const bytes = atob(padded);
+  return decodeURIComponent(
+    Array.from(bytes)
+      .map(char => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`)
+      .join('')
+  );
+};
+
+/**
+ * Encodes a start parameter. The heading is dropped if the result would exceed
+ * Telegram's length limit; returns null if it is still too long without it.
+ */
+export const encodeStartParam = (param: StartParam): string | null => {
+  const build = (withHeading: boolean) => {
+    const payload: Record<string, string> = { [TARGET_KEYS[param.target.kind]]: param.target.value };
+    if (withHeading && param.heading) payload.h = param.heading;
+    if (param.campaign) payload.c = param.campaign;
+    return toBase64Url(JSON.stringify(payload));
+  };
+
+  let encoded = build(true);
+  if (encoded.length > START_PARAM_MAX_LENGTH && param.heading) {
+    encoded = build(false);
+  }
+  return encoded.length > START_PARAM_MAX_LENGTH ? null : encoded;
+};
+
+const readField = (payload: Record<string, unknown>, key: string): string | undefined => {
+  const value = payload[key];
+  return typeof value === 'string' && value ? value : undefined;
+};
+
+/**
+ * Decodes a start parameter, returning null for anything that is not a valid payload
+ */
+export const decodeStartParam = (raw: string | null | undefined): StartParam | null => {
+  if (!raw || raw.length > START_PARAM_MAX_LENGTH || !/^[A-Za-z0-9_-]+$/.test(raw)) {
+    return null;
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(raw));
+  } catch {
+    return null;
+  }
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return null;
+  }
+
+  const fields = payload as Record<string, unknown>;
+  const id = readField(fields, TARGET_KEYS.id);
+  const slug = readField(fields, TARGET_KEYS.slug);
+  const target: StartParamTarget | null = id
+    ? { kind: 'id', value: id }
+    : slug
+    ? { kind: 'slug', value: slug }
+    : null;
+
+  if (!target) return null;
+
+  const result: StartParam = { target };
+  const heading = readField(fields, 'h');
+  const campaign = readField(fields, 'c');
+  if (heading) result.heading = heading;
+  if (campaign) result.campaign = campaign;
+  return result;
+};
+
+/**
+ * Reads the start parameter the Mini App was launched with
+ */
+export const readLaunchStartParam = (): string | null => {
+  const fromInitData = window.Telegram?.WebApp?.initDataUnsafe?.start_param;
+  if (fromInitData) return fromInitData;
+
+  // Telegram Web clients also pass it as a query parameter
+  return new URLSearchParams(window.location.search).get('tgWebAppStartParam');
+};
+
+/**
+ * Builds a t.me link that opens the Mini App with the given start parameter.
+ * Returns null when the bot username is not configured or the parameter is too long.
+ */
+export const buildStartAppLink = (param: StartParam): string | null => {
+  if (!TELEGRAM_CONFIG.BOT_USERNAME) return null;
+
+  const startParam = encodeStartParam(param);
+  if (!startParam) return null;
+
+  const appPath = TELEGRAM_CONFIG.MINI_APP_NAME
+    ? `${TELEGRAM_CONFIG.BOT_USERNAME}/${TELEGRAM_CONFIG.MINI_APP_NAME}`
+    : TELEGRAM_CONFIG.BOT_USERNAME;
+
+  return `https://t.me/${appPath}?startapp=${startParam}`;
+};
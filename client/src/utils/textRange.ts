@@ -0,0 +1,73 @@
+/**
+ * Plain-text offsets inside a rendered element, for anchoring annotations.
+ * Text under elements marked `data-annotation-ignore` does not count.
+ */
+
+interface TextNodeOffset {
+  node: Text;
+  start: number;
+}
+
+export interface TextIndex {
+  text: string;
+  nodes: TextNodeOffset[];
+}
+
+export const buildTextIndex = (root: Element): TextIndex => {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: node => (node.parentElement?.closest('[data-annotation-ignore]')
+      ? NodeFilter.FILTER_REJECT
+      : NodeFilter.FILTER_ACCEPT)
+  });
+  const nodes: TextNodeOffset[] = [];
+  let text = '';
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    nodes.push({ node: node as Text, start: text.length });
+    text += (node as Text).data;
+  }
+  return { text, nodes };
+};
+
+const toOffset = (index: TextIndex, container: Node, offset: number): number | null => {
+  if (container.nodeType === Node.TEXT_NODE) {
+    const entry = index.nodes.find(item => item.node === container);
+    return entry ? entry.start + offset : null;
+  }
+  // A boundary between elements: the first text after it
+  const boundary = document.createRange();
+  boundary.setStart(container, offset);
+  const next = index.nodes.find(item => boundary.comparePoint(item.node, 0) >= 0);
+  return next ? next.start : index.text.length;
+};
+
+/**
+ * Offsets of a DOM range in the index text; null when it is outside the indexed element
+ */
+export const getRangePosition = (index: TextIndex, range: Range): { start: number; end: number } | null => {
+  const start = toOffset(index, range.startContainer, range.startOffset);
+  const end = toOffset(index, range.endContainer, range.endOffset);
+  return start !== null && end !== null && end > start ? { start, end } : null;
+};
+
+/**
+ * DOM range for index text[start, end)
+ */
+export const createTextRange = (index: TextIndex, start: number, end: number): Range | null => {
+  const find = (offset: number, preferNext: boolean) => {
+    for (const entry of index.nodes) {
+      const length = entry.node.data.length;
+      if (offset < entry.start + length || (!preferNext && offset === entry.start + length)) {
+        return { node: entry.node, offset: offset - entry.start };
+      }
+    }
+    return null;
+  };
+  const from = find(start, true);
+  const to = find(end, false);
+  if (!from || !to) return null;
+
+  const range = document.createRange();
+  range.setStart(from.node, from.offset);
+  range.setEnd(to.node, to.offset);
+  return range;
+};
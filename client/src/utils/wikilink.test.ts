@@ -0,0 +1,17 @@
+import { extractNoteSection, getWikilinkLabel, parseWikilink } from './wikilink';
+
+test('splits wikilinks into target, anchor and alias', () => {
+  expect(parseWikilink('Урок 3|третий урок')).toEqual({ target: 'Урок 3', alias: 'третий урок' });
+  expect(parseWikilink('Урок 3#Стоп-лосс')).toEqual({ target: 'Урок 3', heading: 'Стоп-лосс' });
+  expect(parseWikilink('Чек-лист#^entry')).toEqual({ target: 'Чек-лист', blockId: 'entry' });
+  expect(getWikilinkLabel(parseWikilink('#Итоги'))).toBe('Итоги');
+  expect(getWikilinkLabel(parseWikilink('Урок 3#Стоп-лосс'))).toBe('Урок 3 > Стоп-лосс');
+});
+
+test('extracts the embedded section of a note', () => {
+  const note = '# Чек-лист\n\n## Вход\n- тренд\n\n### Детали\nобъём\n\n## Выход\nтейк ^exit';
+
+  expect(extractNoteSection(note, parseWikilink('Чек-лист#Вход'))).toBe('## Вход\n- тренд\n\n### Детали\nобъём\n');
+  expect(extractNoteSection(note, parseWikilink('Чек-лист#^exit'))).toBe('тейк ^exit');
+  expect(extractNoteSection(note, parseWikilink('Чек-лист#Нет такого'))).toBeNull();
+});
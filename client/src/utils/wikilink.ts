@@ -0,0 +1,110 @@
+/**
+ * Obsidian wikilinks: [[Note]], [[Note|Alias]], [[Note#Heading]], [[Note#^block-id]], [[#Heading]]
+ */
+
+export interface Wikilink {
+  /** Note name or path; empty for links inside the same note */
+  target: string;
+  heading?: string;
+  blockId?: string;
+  alias?: string;
+}
+
+const IMAGE_PATTERN = /\.(png|jpg|jpeg|gif|webp|svg)$/i;
+
+export const INTERNAL_LINK_PREFIX = '#internal-link-';
+export const EMBED_LINK_PREFIX = '#embed-';
+
+/**
+ * Parse the text between [[ and ]]
+ */
+export const parseWikilink = (raw: string): Wikilink => {
+  const pipe = raw.indexOf('|');
+  const reference = (pipe === -1 ? raw : raw.slice(0, pipe)).trim();
+  const alias = pipe === -1 ? undefined : raw.slice(pipe + 1).trim() || undefined;
+
+  const hash = reference.indexOf('#');
+  const target = (hash === -1 ? reference : reference.slice(0, hash)).trim();
+  const anchor = hash === -1 ? '' : reference.slice(hash + 1).trim();
+
+  const link: Wikilink = { target };
+  if (anchor.startsWith('^')) {
+    link.blockId = anchor.slice(1);
+  } else if (anchor) {
+    // Nested heading paths (Note#Part#Section) point at the last heading
+    link.heading = anchor.split('#').pop()?.trim();
+  }
+  if (alias) link.alias = alias;
+  return link;
+};
+
+/**
+ * Serialize a link back to its [[...]] form without the alias
+ */
+export const formatWikilinkReference = (link: Wikilink): string => {
+  if (link.blockId) return `${link.target}#^${link.blockId}`;
+  if (link.heading) return `${link.target}#${link.heading}`;
+  return link.target;
+};
+
+/**
+ * Text shown for a link, the way Obsidian displays it
+ */
+export const getWikilinkLabel = (link: Wikilink): string => {
+  if (link.alias) return link.alias;
+  const anchor = link.heading || (link.blockId ? `^${link.blockId}` : '');
+  if (!link.target) return anchor;
+  return anchor ? `${link.target} > ${anchor}` : link.target;
+};
+
+export const isImageWikilink = (link: Wikilink): boolean => IMAGE_PATTERN.test(link.target);
+
+/**
+ * Cut the part of a note an embed points at: a heading's section or a single block.
+ * Returns the whole note when there is no anchor, null when the anchor is missing.
+ */
+export const extractNoteSection = (content: string, link: Wikilink): string | null => {
+  const lines = content.split('\n');
+
+  if (link.blockId) {
+    const marker = new RegExp(`\\s\\^${link.blockId.replace(/[-/\\^$*+?.()|[\]{}]/g, '\\$&')}\\s*$`);
+    const index = lines.findIndex(line => marker.test(line));
+    if (index === -1) return null;
+
+    // A block is the paragraph (or list item) that ends with the marker
+    let start = index;
+    const startsBlock = (line: string) => /^\s*([-*+]|\d+\.|#{1,6}|>)\s/.test(line);
+    while (start > 0 && lines[start - 1].trim() && !startsBlock(lines[start]) && !/^#{1,6}\s/.test(lines[start - 1])) {
+      start--;
+    }
+    return lines.slice(start, index + 1).join('\n');
+  }
+
+  if (link.heading) {
+    const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+    const wanted = normalize(link.heading);
+    let start = -1;
+    let level = 0;
+    let inFence = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      if (/^\s*(```|~~~)/.test(lines[i])) inFence = !inFence;
+      if (inFence) continue;
+
+      const match = lines[i].match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+      if (!match) continue;
+
+      if (start === -1) {
+        if (normalize(match[2]) === wanted) {
+          start = i;
+          level = match[1].length;
+        }
+      } else if (match[1].length <= level) {
+        return lines.slice(start, i).join('\n');
+      }
+    }
+    return start === -1 ? null : lines.slice(start).join('\n');
+  }
+
+  return content;
+};